@@ -0,0 +1,14 @@
+-- Runs of multi-step workflows and the state of each step
+create table if not exists workflow_runs (
+  id text primary key,
+  name text not null,
+  brand text,
+  definition jsonb not null default '{}',
+  input jsonb not null default '{}',
+  status text not null,
+  steps jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists workflow_runs_status_idx on workflow_runs (status);
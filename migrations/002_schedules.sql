@@ -0,0 +1,19 @@
+-- Recurring tasks declared in brand configurations or created through the API
+create table if not exists schedules (
+  id text primary key,
+  brand text not null,
+  source text not null,
+  cron text not null,
+  task_type text not null,
+  parameters jsonb not null default '{}',
+  priority text,
+  enabled boolean not null default true,
+  missed_run_policy text not null,
+  last_run_at timestamptz,
+  last_execution_id text,
+  next_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists schedules_brand_idx on schedules (brand);
@@ -0,0 +1,2 @@
+-- History of every attempt at running an execution
+alter table task_executions add column if not exists attempts jsonb not null default '[]';
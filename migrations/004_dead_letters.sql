@@ -0,0 +1,16 @@
+-- Executions that failed for good, kept for inspection and replay
+create table if not exists dead_letters (
+  id text primary key,
+  execution_id text not null,
+  task_type text not null,
+  brand text,
+  context jsonb not null default '{}',
+  error text not null,
+  error_code text,
+  attempts jsonb not null default '[]',
+  failed_at timestamptz not null default now(),
+  replayed_at timestamptz,
+  replay_execution_id text
+);
+
+create index if not exists dead_letters_failed_at_idx on dead_letters (failed_at);
@@ -0,0 +1,2 @@
+-- Latest progress an agent reported for an execution
+alter table task_executions add column if not exists progress jsonb;
@@ -0,0 +1,19 @@
+-- Callback deliveries and every attempt at sending them
+create table if not exists webhook_deliveries (
+  id text primary key,
+  execution_id text not null,
+  brand text,
+  url text not null,
+  payload jsonb not null default '{}',
+  status text not null,
+  attempts jsonb not null default '[]',
+  max_attempts integer not null,
+  next_attempt_at timestamptz,
+  redelivery_of text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_execution_id_idx on webhook_deliveries (execution_id);
+create index if not exists webhook_deliveries_status_idx on webhook_deliveries (status);
@@ -0,0 +1,7 @@
+-- Idempotency keys of submitted tasks, unique per brand (the scope)
+alter table task_executions add column if not exists idempotency_key text;
+alter table task_executions add column if not exists idempotency_scope text;
+
+create index if not exists task_executions_idempotency_idx
+  on task_executions (idempotency_scope, idempotency_key)
+  where idempotency_key is not null;
@@ -0,0 +1,12 @@
+-- Tasks submitted together and tracked as one unit
+create table if not exists batches (
+  id text primary key,
+  brand text,
+  items jsonb not null default '[]',
+  status text not null,
+  callback text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists batches_status_idx on batches (status);
@@ -0,0 +1,7 @@
+-- Fingerprints of task inputs, and the execution a cached result was copied from
+alter table task_executions add column if not exists fingerprint text;
+alter table task_executions add column if not exists cached_from text;
+
+create index if not exists task_executions_fingerprint_idx
+  on task_executions (fingerprint, completed_at)
+  where fingerprint is not null;
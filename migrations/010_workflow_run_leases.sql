@@ -0,0 +1,3 @@
+-- Process that advances a running workflow run, and until when it holds the run
+alter table workflow_runs add column if not exists owner_id text;
+alter table workflow_runs add column if not exists lease_expires_at timestamptz;
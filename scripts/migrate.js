@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+
+/**
+ * Apply the SQL files in migrations/ to the Supabase database in name order.
+ * Every migration can be applied again, so the script can run on each deploy.
+ *
+ * With DATABASE_URL set, the files are applied with psql. Without it, the SQL is
+ * printed so it can be pasted into the Supabase SQL editor.
+ */
+
+const { execFileSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const migrationsDir = path.join(__dirname, '..', 'migrations');
+
+function main() {
+  const files = fs
+    .readdirSync(migrationsDir)
+    .filter(file => file.endsWith('.sql'))
+    .sort();
+
+  const databaseUrl = process.env.DATABASE_URL;
+
+  if (!databaseUrl) {
+    console.error('DATABASE_URL is not set; printing the migrations instead of applying them');
+
+    for (const file of files) {
+      console.log(`-- ${file}`);
+      console.log(fs.readFileSync(path.join(migrationsDir, file), 'utf8'));
+    }
+    return;
+  }
+
+  for (const file of files) {
+    console.log(`Applying ${file}`);
+    execFileSync(
+      'psql',
+      [databaseUrl, '--quiet', '-v', 'ON_ERROR_STOP=1', '-f', path.join(migrationsDir, file)],
+      { stdio: 'inherit' },
+    );
+  }
+
+  console.log(`Applied ${files.length} migrations`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`Migration failed: ${error.message}`);
+  process.exit(1);
+}
@@ -1,9 +1,12 @@
-import { BaseAgent, TaskContext } from '../../core/agent';
+import Joi from 'joi';
+import { BaseAgent, FingerprintContext, TaskContext } from '../../core/agent';
+import { TaskValidationError } from '../../core/errors';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { fingerprintFiles } from '../../utils/fingerprint';
 
-interface FileInfo {
+export interface FileInfo {
   path: string;
   size: number;
   hash?: string;
@@ -11,29 +14,50 @@ interface FileInfo {
   lastModified: Date;
 }
 
-interface DuplicateGroup {
+export interface DuplicateGroup {
   files: FileInfo[];
   size: number;
   hash?: string;
 }
 
-interface DuplicateDetectionResult {
+export interface DuplicateDetectionResult {
   duplicateGroups: DuplicateGroup[];
   totalFilesScanned: number;
   totalDuplicatesFound: number;
   totalSpaceSaveable: number;
 }
 
+/**
+ * Parameters for findDuplicateFiles
+ */
+const duplicateFilesParametersSchema = Joi.object({
+  directories: Joi.array().items(Joi.string()).min(1).required(),
+  recursive: Joi.boolean().default(true),
+  compareContent: Joi.boolean().default(false),
+  fileTypes: Joi.array().items(Joi.string()).default([]).description('Extensions to include, e.g. ".jpg"')
+});
+
 export class DuplicateDetectorAgent extends BaseAgent {
   constructor() {
     super({
       name: 'Duplicate Detector Agent',
       description: 'Identifies duplicate files across directories',
       version: '1.0.0',
-      capabilities: ['findDuplicateFiles']
+      capabilities: ['findDuplicateFiles'],
+      parameterSchemas: {
+        findDuplicateFiles: duplicateFilesParametersSchema
+      }
     });
   }
   
+  /**
+   * Fingerprint findDuplicateFiles by its parameters and every file it would scan
+   */
+  public async getFingerprint(context: FingerprintContext): Promise<string | null> {
+    const { directories, recursive = true } = context.parameters;
+    return fingerprintFiles(context.parameters, directories, { recursive });
+  }
+
   /**
    * Execute a task based on its type
    */
@@ -52,14 +76,12 @@ export class DuplicateDetectorAgent extends BaseAgent {
           duplicatesFound: result.totalDuplicatesFound 
         });
         
-        await this.updateTaskStatus(executionId, 'completed', result);
         return result;
       } else {
-        throw new Error(`Unsupported task type: ${taskType}`);
+        throw new TaskValidationError(`Unsupported task type: ${taskType}`);
       }
     } catch (error) {
       this.logger.error(`Task ${taskType} failed: ${(error as Error).message}`, { executionId });
-      await this.updateTaskStatus(executionId, 'failed', null, (error as Error).message);
       throw error;
     }
   }
@@ -72,7 +94,7 @@ export class DuplicateDetectorAgent extends BaseAgent {
     const { directories, recursive = true, compareContent = false, fileTypes = [] } = parameters;
     
     if (!directories || !Array.isArray(directories) || directories.length === 0) {
-      throw new Error('At least one directory path is required');
+      throw new TaskValidationError('At least one directory path is required');
     }
     
     this.logActivity(executionId, 'info', `Starting duplicate file detection across ${directories.length} directories`);
@@ -82,10 +104,16 @@ export class DuplicateDetectorAgent extends BaseAgent {
       const allFiles: FileInfo[] = [];
       let scannedCount = 0;
       
-      for (const directory of directories) {
+      for (const [index, directory] of directories.entries()) {
         this.logActivity(executionId, 'info', `Scanning directory: ${directory}`);
+        await this.reportProgress(context, {
+          stage: 'scanning',
+          current: index,
+          total: directories.length,
+          message: `Scanning directory: ${directory}`
+        });
         
-        const files = await this.collectFiles(directory, recursive, fileTypes);
+        const files = await this.collectFiles(directory, recursive, fileTypes, context.signal);
         allFiles.push(...files);
         
         scannedCount += files.length;
@@ -102,15 +130,24 @@ export class DuplicateDetectorAgent extends BaseAgent {
       let totalDuplicates = 0;
       let totalSaveable = 0;
       
-      for (const [size, files] of Object.entries(filesBySize)) {
-        // Skip groups with only one file (no duplicates possible)
-        if (files.length <= 1) continue;
-        
+      // Skip groups with only one file (no duplicates possible)
+      const candidateGroups = Object.entries(filesBySize).filter(([, files]) => files.length > 1);
+
+      for (const [index, [size, files]] of candidateGroups.entries()) {
+        this.throwIfAborted(context);
+
+        await this.reportProgress(context, {
+          stage: 'comparing',
+          current: index,
+          total: candidateGroups.length,
+          message: `Checking ${files.length} files of size ${size} bytes`
+        });
+
         this.logActivity(executionId, 'info', `Checking ${files.length} files of size ${size} bytes for duplicates`);
         
         if (compareContent) {
           // If content comparison is enabled, compute hashes for files
-          const fileGroups = await this.groupFilesByContent(files);
+          const fileGroups = await this.groupFilesByContent(files, context.signal);
           
           for (const group of fileGroups) {
             if (group.length > 1) {
@@ -138,6 +175,7 @@ export class DuplicateDetectorAgent extends BaseAgent {
       }
       
       this.logActivity(executionId, 'info', `Duplicate detection complete. Found ${totalDuplicates} duplicate files`);
+      await this.reportProgress(context, { stage: 'complete', percent: 100 });
       
       // Format the result
       return {
@@ -158,10 +196,14 @@ export class DuplicateDetectorAgent extends BaseAgent {
   private async collectFiles(
     directory: string, 
     recursive: boolean, 
-    fileTypes: string[]
+    fileTypes: string[],
+    signal?: AbortSignal
   ): Promise<FileInfo[]> {
     const result: FileInfo[] = [];
     
+    // Checked outside the try below so an abort is not mistaken for a scan error
+    signal?.throwIfAborted();
+
     try {
       const entries = await fs.readdir(directory, { withFileTypes: true });
       
@@ -170,7 +212,7 @@ export class DuplicateDetectorAgent extends BaseAgent {
         
         if (entry.isDirectory() && recursive) {
           // If entry is a directory and recursive is true, scan it
-          const subDirFiles = await this.collectFiles(fullPath, recursive, fileTypes);
+          const subDirFiles = await this.collectFiles(fullPath, recursive, fileTypes, signal);
           result.push(...subDirFiles);
         } else if (entry.isFile()) {
           // Check file extension if fileTypes is specified
@@ -219,11 +261,13 @@ export class DuplicateDetectorAgent extends BaseAgent {
   /**
    * Group files by content (using hash)
    */
-  private async groupFilesByContent(files: FileInfo[]): Promise<FileInfo[][]> {
+  private async groupFilesByContent(files: FileInfo[], signal?: AbortSignal): Promise<FileInfo[][]> {
     const filesByHash: Record<string, FileInfo[]> = {};
     
     // Calculate hash for each file
     for (const file of files) {
+      signal?.throwIfAborted();
+
       try {
         const hash = await this.calculateFileHash(file.path);
         file.hash = hash;
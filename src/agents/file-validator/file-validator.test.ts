@@ -0,0 +1,103 @@
+import * as fs from 'fs/promises';
+import { metricsManager } from '../../core/metrics';
+import { MemoryStorage, setStorage } from '../../db';
+import { MemoryQueueBackend } from '../../orchestrator/backends';
+import { taskExecutor } from '../../orchestrator/executor';
+import { taskQueue } from '../../orchestrator/queue';
+
+jest.mock('fs/promises', () => {
+  const actual = jest.requireActual('fs/promises');
+  return { ...actual, stat: jest.fn(actual.stat) };
+});
+
+jest.mock('../../registry', () => {
+  const { FileValidatorAgent } = jest.requireActual('./index');
+  const agent = new FileValidatorAgent();
+  return {
+    registry: {
+      findAgentForTask: () => agent,
+      getAgent: () => agent,
+      getAgentsByCapability: () => [agent],
+      isHealthy: () => true,
+    },
+  };
+});
+
+const { stat } = jest.requireActual('fs/promises');
+
+let storage: MemoryStorage;
+
+/**
+ * Make the agent's file checks finish only after the given delay
+ */
+function slowStat(delayMs: number) {
+  (fs.stat as jest.Mock).mockImplementation(async (...args: any[]) => {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+    return stat(...args);
+  });
+}
+
+const submit = () =>
+  taskExecutor.submitTask({ taskType: 'validateFile', parameters: { filePath: __filename } });
+
+beforeAll(() => {
+  process.env.AGENT_MAX_RETRIES = '0';
+  taskQueue.setBackend(new MemoryQueueBackend());
+  taskQueue.processTask('*', 5, job => taskExecutor.processJob(job));
+});
+
+afterAll(async () => {
+  delete process.env.AGENT_DEFAULT_TIMEOUT;
+  delete process.env.AGENT_MAX_RETRIES;
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  await storage.tasks.upsert({ id: 'task-1', type: 'validateFile' });
+  (fs.stat as jest.Mock).mockImplementation(stat);
+});
+
+describe('FileValidatorAgent terminal status', () => {
+  it('should complete through the executor', async () => {
+    process.env.AGENT_DEFAULT_TIMEOUT = '2000';
+
+    const execution = await taskExecutor.waitForCompletion(await submit(), { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('completed');
+    expect(execution?.result).toMatchObject({ valid: true });
+  });
+
+  it('should keep the execution timed_out when the agent finishes late', async () => {
+    process.env.AGENT_DEFAULT_TIMEOUT = '50';
+    slowStat(150);
+
+    const executionId = await submit();
+    expect((await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 }))?.status).toBe(
+      'timed_out',
+    );
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const execution = await storage.executions.findById(executionId);
+    expect(execution?.status).toBe('timed_out');
+    expect(execution?.result).toBeUndefined();
+  });
+
+  it('should keep the execution cancelled when the agent finishes late', async () => {
+    process.env.AGENT_DEFAULT_TIMEOUT = '2000';
+    slowStat(100);
+
+    const executionId = await submit();
+    while ((await storage.executions.findById(executionId))?.status !== 'running') {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(await taskExecutor.cancelTask(executionId)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const execution = await storage.executions.findById(executionId);
+    expect(execution?.status).toBe('cancelled');
+    expect(execution?.result).toBeUndefined();
+  });
+});
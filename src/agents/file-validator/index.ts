@@ -1,8 +1,11 @@
+import Joi from 'joi';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { BaseAgent, TaskContext } from '../../core/agent';
+import { BaseAgent, FingerprintContext, TaskContext } from '../../core/agent';
+import { TaskValidationError } from '../../core/errors';
+import { fingerprintFiles } from '../../utils/fingerprint';
 
-interface FileValidationResult {
+export interface FileValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -14,16 +17,87 @@ interface FileValidationResult {
   };
 }
 
+export interface DirectoryValidationResult {
+  valid: boolean;
+  directoryPath: string;
+  fileCount: number;
+  errors: string[];
+  warnings: string[];
+  fileResults: Array<{
+    file: string;
+    valid: boolean;
+    errors: string[];
+    warnings: string[];
+  }>;
+}
+
+/**
+ * A custom content rule for validateFile and validateDirectory
+ */
+const fileRuleSchema = Joi.object({
+  name: Joi.string().required(),
+  type: Joi.string().valid('regex').required(),
+  pattern: Joi.string().required(),
+  flags: Joi.string(),
+  action: Joi.string().valid('warn', 'error').required()
+});
+
+/**
+ * Parameters for each task this agent runs
+ */
+const fileParametersSchemas = {
+  validateFile: Joi.object({
+    filePath: Joi.string().required(),
+    rules: Joi.array().items(fileRuleSchema),
+    maxSizeBytes: Joi.number().integer().min(1),
+    allowedExtensions: Joi.array().items(Joi.string()),
+    requiredContent: Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()))
+  }),
+  validateTarotDeck: Joi.object({
+    deckId: Joi.string().required(),
+    basePath: Joi.string().required(),
+    validateImages: Joi.boolean().default(true)
+  }),
+  validateDirectory: Joi.object({
+    directoryPath: Joi.string().required(),
+    recursive: Joi.boolean().default(false),
+    patterns: Joi.array().items(fileRuleSchema).description('Rules applied to every file')
+  })
+};
+
 export class FileValidatorAgent extends BaseAgent {
   constructor() {
     super({
       name: 'File Validator Agent',
       description: 'Validates files for syntax, format, and structure issues',
       version: '1.0.0',
-      capabilities: ['validateFile', 'validateTarotDeck', 'validateDirectory']
+      capabilities: ['validateFile', 'validateTarotDeck', 'validateDirectory'],
+      parameterSchemas: fileParametersSchemas
     });
   }
   
+  /**
+   * Fingerprint each task by its parameters and the files it reads
+   */
+  public async getFingerprint(context: FingerprintContext): Promise<string | null> {
+    const { taskType, parameters } = context;
+
+    switch (taskType) {
+      case 'validateFile':
+        return fingerprintFiles(parameters, [parameters.filePath]);
+      case 'validateDirectory':
+        return fingerprintFiles(parameters, [parameters.directoryPath], {
+          recursive: parameters.recursive
+        });
+      case 'validateTarotDeck':
+        return fingerprintFiles(parameters, [path.join(parameters.basePath, parameters.deckId)], {
+          recursive: true
+        });
+      default:
+        return null;
+    }
+  }
+
   /**
    * Validate task input specifically for this agent
    */
@@ -37,21 +111,21 @@ export class FileValidatorAgent extends BaseAgent {
     switch (taskType) {
       case 'validateFile':
         if (!parameters.filePath) {
-          throw new Error('File path is required for validateFile task');
+          throw new TaskValidationError('File path is required for validateFile task');
         }
         break;
       case 'validateTarotDeck':
         if (!parameters.deckId || !parameters.basePath) {
-          throw new Error('Deck ID and base path are required for validateTarotDeck task');
+          throw new TaskValidationError('Deck ID and base path are required for validateTarotDeck task');
         }
         break;
       case 'validateDirectory':
         if (!parameters.directoryPath) {
-          throw new Error('Directory path is required for validateDirectory task');
+          throw new TaskValidationError('Directory path is required for validateDirectory task');
         }
         break;
       default:
-        throw new Error(`Unsupported task type: ${taskType}`);
+        throw new TaskValidationError(`Unsupported task type: ${taskType}`);
     }
   }
   
@@ -78,15 +152,13 @@ export class FileValidatorAgent extends BaseAgent {
           result = await this.validateDirectory(context);
           break;
         default:
-          throw new Error(`Unsupported task type: ${taskType}`);
+          throw new TaskValidationError(`Unsupported task type: ${taskType}`);
       }
       
       this.logger.info(`Task ${taskType} completed successfully`, { executionId });
-      await this.updateTaskStatus(executionId, 'completed', result);
       return result;
     } catch (error) {
       this.logger.error(`Task ${taskType} failed: ${(error as Error).message}`, { executionId });
-      await this.updateTaskStatus(executionId, 'failed', null, (error as Error).message);
       throw error;
     }
   }
@@ -99,7 +171,7 @@ export class FileValidatorAgent extends BaseAgent {
     const { filePath, rules, maxSizeBytes, allowedExtensions, requiredContent } = parameters;
     
     if (!filePath) {
-      throw new Error('File path is required');
+      throw new TaskValidationError('File path is required');
     }
     
     this.logActivity(executionId, 'info', `Validating file: ${filePath}`);
@@ -219,7 +291,7 @@ export class FileValidatorAgent extends BaseAgent {
     const { deckId, basePath, validateImages = true } = parameters;
     
     if (!deckId || !basePath) {
-      throw new Error('Deck ID and base path are required');
+      throw new TaskValidationError('Deck ID and base path are required');
     }
     
     this.logActivity(executionId, 'info', `Validating tarot deck: ${deckId}`);
@@ -271,12 +343,12 @@ export class FileValidatorAgent extends BaseAgent {
   /**
    * Validate a directory for specific patterns or issues
    */
-  private async validateDirectory(context: TaskContext): Promise<any> {
+  private async validateDirectory(context: TaskContext): Promise<DirectoryValidationResult> {
     const { executionId, parameters } = context;
     const { directoryPath, recursive = false, patterns } = parameters;
     
     if (!directoryPath) {
-      throw new Error('Directory path is required');
+      throw new TaskValidationError('Directory path is required');
     }
     
     this.logActivity(executionId, 'info', `Validating directory: ${directoryPath}`);
@@ -290,14 +362,23 @@ export class FileValidatorAgent extends BaseAgent {
       }
       
       // Get files in directory
-      const files = await this.getFilesInDirectory(directoryPath, recursive);
+      const files = await this.getFilesInDirectory(directoryPath, recursive, context.signal);
       
       // Validate each file
       const results = [];
       const errors = [];
       const warnings = [];
       
-      for (const file of files) {
+      for (const [index, file] of files.entries()) {
+        this.throwIfAborted(context);
+
+        await this.reportProgress(context, {
+          stage: 'validating',
+          current: index,
+          total: files.length,
+          message: `Validating file: ${file}`
+        });
+
         try {
           const fileResult = await this.validateFile({
             ...context,
@@ -326,6 +407,13 @@ export class FileValidatorAgent extends BaseAgent {
         }
       }
       
+      await this.reportProgress(context, {
+        stage: 'complete',
+        current: files.length,
+        total: files.length,
+        percent: 100
+      });
+
       return {
         valid: errors.length === 0,
         directoryPath,
@@ -428,7 +516,13 @@ export class FileValidatorAgent extends BaseAgent {
     }
   }
   
-  private async getFilesInDirectory(dir: string, recursive: boolean): Promise<string[]> {
+  private async getFilesInDirectory(
+    dir: string,
+    recursive: boolean,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    signal?.throwIfAborted();
+
     const files = await fs.readdir(dir);
     const result: string[] = [];
     
@@ -439,7 +533,7 @@ export class FileValidatorAgent extends BaseAgent {
       if (stats.isFile()) {
         result.push(filePath);
       } else if (recursive && stats.isDirectory()) {
-        const subDirFiles = await this.getFilesInDirectory(filePath, recursive);
+        const subDirFiles = await this.getFilesInDirectory(filePath, recursive, signal);
         result.push(...subDirFiles);
       }
     }
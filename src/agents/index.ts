@@ -3,6 +3,7 @@ import { duplicateDetectorAgent } from './duplicate-detector';
 import { tarotValidatorAgent } from './tarot-validator';
 import { playlistValidatorAgent } from './playlist-validator';
 import { messageValidatorAgent } from './message-validator';
+import { RemoteAgent, loadRemoteAgents } from './remote';
 import { registry } from '../registry';
 
 /**
@@ -20,6 +21,11 @@ export function registerAgents(): void {
   registry.registerAgent(playlistValidatorAgent); // EDM Shuffle
   registry.registerAgent(messageValidatorAgent);  // BirthdayGen
   
+  // Register agents served by other services (REMOTE_AGENTS_FILE)
+  for (const agent of loadRemoteAgents()) {
+    registry.registerAgent(agent);
+  }
+
   // Add more agents as they are implemented
 }
 
@@ -28,5 +34,6 @@ export {
   duplicateDetectorAgent,
   tarotValidatorAgent,
   playlistValidatorAgent,
-  messageValidatorAgent
+  messageValidatorAgent,
+  RemoteAgent
 };
\ No newline at end of file
@@ -1,8 +1,10 @@
+import Joi from 'joi';
 import { BaseAgent, TaskContext } from '../../core/agent';
+import { TaskValidationError } from '../../core/errors';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-interface MessageTemplateValidationResult {
+export interface MessageTemplateValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -14,13 +16,24 @@ interface MessageTemplateValidationResult {
   };
 }
 
+/**
+ * Parameters for validateMessageTemplate; a relative templatePath is resolved against the brand's basePath
+ */
+const messageTemplateParametersSchema = Joi.object({
+  templatePath: Joi.string(),
+  templateContent: Joi.string()
+}).or('templatePath', 'templateContent');
+
 export class MessageValidatorAgent extends BaseAgent {
   constructor() {
     super({
       name: 'Message Validator Agent',
       description: 'Validates message templates for birthday messages',
       version: '1.0.0',
-      capabilities: ['validateMessageTemplate']
+      capabilities: ['validateMessageTemplate'],
+      parameterSchemas: {
+        validateMessageTemplate: messageTemplateParametersSchema
+      }
     });
   }
   
@@ -43,14 +56,12 @@ export class MessageValidatorAgent extends BaseAgent {
         const result = await this.validateMessageTemplate(context);
         
         this.logger.info(`Task ${taskType} completed successfully`, { executionId });
-        await this.updateTaskStatus(executionId, 'completed', result);
         return result;
       } else {
-        throw new Error(`Unsupported task type: ${taskType}`);
+        throw new TaskValidationError(`Unsupported task type: ${taskType}`);
       }
     } catch (error) {
       this.logger.error(`Task ${taskType} failed: ${(error as Error).message}`, { executionId });
-      await this.updateTaskStatus(executionId, 'failed', null, (error as Error).message);
       throw error;
     }
   }
@@ -79,7 +90,7 @@ export class MessageValidatorAgent extends BaseAgent {
     
     // Validate inputs
     if (!templatePath && !templateContent) {
-      throw new Error('Either templatePath or templateContent is required');
+      throw new TaskValidationError('Either templatePath or templateContent is required');
     }
     
     // If path is relative and we have brand base path, make it absolute
@@ -1,8 +1,10 @@
+import Joi from 'joi';
 import { BaseAgent, TaskContext } from '../../core/agent';
+import { TaskValidationError } from '../../core/errors';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
-interface PlaylistValidationResult {
+export interface PlaylistValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -16,13 +18,24 @@ interface PlaylistValidationResult {
   };
 }
 
+/**
+ * Parameters for validatePlaylist; a relative playlistPath is resolved against the brand's basePath
+ */
+const playlistParametersSchema = Joi.object({
+  playlistPath: Joi.string().required(),
+  validateMetadata: Joi.boolean().default(true)
+});
+
 export class PlaylistValidatorAgent extends BaseAgent {
   constructor() {
     super({
       name: 'Playlist Validator Agent',
       description: 'Validates music playlists for structure and metadata completeness',
       version: '1.0.0',
-      capabilities: ['validatePlaylist']
+      capabilities: ['validatePlaylist'],
+      parameterSchemas: {
+        validatePlaylist: playlistParametersSchema
+      }
     });
   }
   
@@ -45,14 +58,12 @@ export class PlaylistValidatorAgent extends BaseAgent {
         const result = await this.validatePlaylist(context);
         
         this.logger.info(`Task ${taskType} completed successfully`, { executionId });
-        await this.updateTaskStatus(executionId, 'completed', result);
         return result;
       } else {
-        throw new Error(`Unsupported task type: ${taskType}`);
+        throw new TaskValidationError(`Unsupported task type: ${taskType}`);
       }
     } catch (error) {
       this.logger.error(`Task ${taskType} failed: ${(error as Error).message}`, { executionId });
-      await this.updateTaskStatus(executionId, 'failed', null, (error as Error).message);
       throw error;
     }
   }
@@ -76,7 +87,7 @@ export class PlaylistValidatorAgent extends BaseAgent {
     );
     
     if (!playlistPath) {
-      throw new Error('Playlist path is required');
+      throw new TaskValidationError('Playlist path is required');
     }
     
     // If path is relative and we have brand base path, make it absolute
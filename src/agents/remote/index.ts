@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import Joi from 'joi';
+import { AgentHealth, BaseAgent, TaskContext, TaskResult } from '../../core/agent';
+import { RemoteAgentError } from '../../core/errors';
+import { getHealthCheckTimeout } from '../../registry/registry';
+import { isRetryableStatus } from '../../utils/helpers';
+
+/**
+ * An agent served by another service over the protocol in this directory's README
+ */
+export interface RemoteAgentConfig {
+  name: string;
+  description?: string;
+  version?: string;
+  /** Base URL; tasks are posted to {url}/tasks and health is read from {url}/health */
+  url: string;
+  capabilities: string[];
+  priority?: number;
+  /** Longest a task request may take (default REMOTE_AGENT_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Header carrying the credential (default Authorization) */
+  authHeader?: string;
+  /** Credential sent as is, e.g. "Bearer abc"; prefer authTokenEnv to keep it out of files */
+  authToken?: string;
+  /** Environment variable holding the credential */
+  authTokenEnv?: string;
+}
+
+export const remoteAgentConfigSchema = Joi.object({
+  name: Joi.string().required(),
+  description: Joi.string(),
+  version: Joi.string().default('1.0.0'),
+  url: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .required(),
+  capabilities: Joi.array().items(Joi.string()).min(1).required(),
+  priority: Joi.number().integer(),
+  timeoutMs: Joi.number().integer().min(1),
+  authHeader: Joi.string(),
+  authToken: Joi.string(),
+  authTokenEnv: Joi.string(),
+}).oxor('authToken', 'authTokenEnv');
+
+/**
+ * Longest a remote task request may take when the agent does not set timeoutMs
+ */
+export function getDefaultRemoteTimeout(): number {
+  return Number(process.env.REMOTE_AGENT_TIMEOUT_MS) || 60000;
+}
+
+/**
+ * Runs tasks by posting the task context to another service and mapping the TaskResult it
+ * answers with back to output or a RemoteAgentError. The orchestrator treats it like any
+ * other agent: it is routed to, timed out, retried and health-checked the same way.
+ */
+export class RemoteAgent extends BaseAgent {
+  private url: string;
+  private timeoutMs: number;
+  private authHeader: string;
+  private authToken?: string;
+  private authTokenEnv?: string;
+
+  constructor(config: RemoteAgentConfig) {
+    super({
+      name: config.name,
+      description: config.description || `Remote agent at ${config.url}`,
+      version: config.version || '1.0.0',
+      capabilities: config.capabilities,
+      priority: config.priority,
+    });
+
+    this.url = config.url.replace(/\/+$/, '');
+    this.timeoutMs = config.timeoutMs || getDefaultRemoteTimeout();
+    this.authHeader = config.authHeader || 'Authorization';
+    this.authToken = config.authToken;
+    this.authTokenEnv = config.authTokenEnv;
+  }
+
+  public async executeTask(context: TaskContext): Promise<any> {
+    const { executionId, taskType, brand, parameters, priority } = context;
+    const requestTimeout = AbortSignal.timeout(this.timeoutMs);
+    const signal = context.signal
+      ? AbortSignal.any([context.signal, requestTimeout])
+      : requestTimeout;
+
+    this.logger.info(`Forwarding task ${taskType} to ${this.url}`, { executionId, brand });
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}/tasks`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          executionId,
+          taskType,
+          brand,
+          parameters,
+          priority,
+          brandConfig: context.brandConfig,
+          taskConfig: context.taskConfig,
+          metadata: context.metadata,
+          timeoutMs: this.timeoutMs,
+        }),
+        signal,
+      });
+    } catch (error) {
+      // The task's own timeout is reported by the executor
+      if (context.signal?.aborted) {
+        throw context.signal.reason;
+      }
+
+      if (requestTimeout.aborted) {
+        throw new RemoteAgentError(
+          `Remote agent ${this.name} did not respond within ${this.timeoutMs}ms`,
+          'REMOTE_AGENT_TIMEOUT',
+          { url: this.url },
+          true,
+        );
+      }
+
+      throw new RemoteAgentError(
+        `Remote agent ${this.name} is unreachable: ${(error as Error).message}`,
+        'REMOTE_AGENT_UNREACHABLE',
+        { url: this.url },
+        true,
+      );
+    }
+
+    const result = this.toTaskResult(response.status, await this.readBody(response));
+
+    if (result.success) {
+      return result.output;
+    }
+
+    throw new RemoteAgentError(
+      result.error?.message || 'Remote task failed',
+      result.error?.code || 'REMOTE_TASK_FAILED',
+      result.error?.details,
+      result.error?.retryable ?? (!response.ok && isRetryableStatus(response.status)),
+    );
+  }
+
+  /**
+   * Probe {url}/health; any 2xx answer without healthy: false counts as healthy
+   */
+  public async healthCheck(): Promise<AgentHealth> {
+    try {
+      const response = await fetch(`${this.url}/health`, {
+        headers: this.getHeaders(),
+        signal: AbortSignal.timeout(getHealthCheckTimeout()),
+      });
+      const body = await this.readBody(response);
+
+      if (!response.ok) {
+        return {
+          healthy: false,
+          message: body?.message || `HTTP ${response.status} ${response.statusText}`.trim(),
+        };
+      }
+
+      return {
+        healthy: body?.healthy !== false,
+        ...(body?.message ? { message: body.message } : {}),
+        ...(body?.details ? { details: body.details } : {}),
+      };
+    } catch (error) {
+      return { healthy: false, message: `Unreachable: ${(error as Error).message}` };
+    }
+  }
+
+  private getHeaders(): Record<string, string> {
+    const token = this.authTokenEnv ? process.env[this.authTokenEnv] : this.authToken;
+    return token ? { [this.authHeader]: token } : {};
+  }
+
+  private async readBody(response: Response): Promise<any> {
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the TaskResult a remote answered with. Error responses may carry one too; those
+   * that do not are described by their status.
+   */
+  private toTaskResult(status: number, body: any): TaskResult {
+    if (body && typeof body.success === 'boolean') {
+      return {
+        success: body.success && status < 300,
+        output: body.output ?? {},
+        error: body.error,
+      };
+    }
+
+    if (status >= 300) {
+      return {
+        success: false,
+        output: {},
+        error: {
+          code: 'REMOTE_AGENT_ERROR',
+          message: `Remote agent ${this.name} answered HTTP ${status}`,
+        },
+      };
+    }
+
+    return {
+      success: false,
+      output: {},
+      error: {
+        code: 'REMOTE_PROTOCOL_ERROR',
+        message: `Remote agent ${this.name} answered without a TaskResult`,
+      },
+    };
+  }
+}
+
+/**
+ * Create the remote agents listed in a JSON file (default REMOTE_AGENTS_FILE); none without one
+ */
+export function loadRemoteAgents(file = process.env.REMOTE_AGENTS_FILE): RemoteAgent[] {
+  if (!file) {
+    return [];
+  }
+
+  const { error, value } = Joi.array()
+    .items(remoteAgentConfigSchema)
+    .validate(JSON.parse(fs.readFileSync(file, 'utf8')), { abortEarly: false });
+
+  if (error) {
+    throw new Error(`Invalid remote agent config in ${file}: ${error.message}`);
+  }
+
+  return (value as RemoteAgentConfig[]).map(config => new RemoteAgent(config));
+}
+
+export default {
+  RemoteAgent,
+  remoteAgentConfigSchema,
+  loadRemoteAgents,
+};
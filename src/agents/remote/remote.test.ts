@@ -0,0 +1,154 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskContext } from '../../core/agent';
+import { RemoteAgentError, TaskTimeoutError } from '../../core/errors';
+import { loadRemoteAgents, RemoteAgent } from './index';
+
+const fetchMock = jest.fn();
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status < 300,
+  status,
+  statusText: '',
+  json: async () => body,
+});
+
+const context: TaskContext = {
+  executionId: 'execution-1',
+  taskType: 'analyzeTrackLibrary',
+  brand: 'edmShuffle',
+  parameters: { libraryPath: '/music' },
+  priority: 'medium',
+};
+
+let agent: RemoteAgent;
+
+beforeAll(() => {
+  global.fetch = fetchMock as any;
+  process.env.AUDIO_ANALYZER_TOKEN = 'Bearer secret-token';
+});
+
+afterAll(() => {
+  delete process.env.AUDIO_ANALYZER_TOKEN;
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  agent = new RemoteAgent({
+    name: 'Audio Analyzer Agent',
+    url: 'http://audio-analyzer:8000/',
+    capabilities: ['analyzeTrackLibrary'],
+    timeoutMs: 1000,
+    authTokenEnv: 'AUDIO_ANALYZER_TOKEN',
+  });
+});
+
+describe('RemoteAgent', () => {
+  it('forwards the task context and returns the remote output', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { success: true, output: { tracks: 412 } }));
+
+    await expect(agent.executeTask(context)).resolves.toEqual({ tracks: 412 });
+
+    const [url, request] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://audio-analyzer:8000/tasks');
+    expect(request.headers).toEqual({
+      Authorization: 'Bearer secret-token',
+      'Content-Type': 'application/json',
+    });
+    expect(JSON.parse(request.body)).toMatchObject({
+      executionId: 'execution-1',
+      taskType: 'analyzeTrackLibrary',
+      brand: 'edmShuffle',
+      parameters: { libraryPath: '/music' },
+      timeoutMs: 1000,
+    });
+  });
+
+  it('keeps the code and retry decision of failures the remote reports', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(200, {
+        success: false,
+        error: { code: 'DECODE_ERROR', message: 'Not valid FLAC', details: { file: 'a.flac' } },
+      }),
+    );
+
+    const error = await agent.executeTask(context).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RemoteAgentError);
+    expect(error).toMatchObject({
+      code: 'DECODE_ERROR',
+      message: 'Not valid FLAC',
+      details: { file: 'a.flac' },
+      retryable: false,
+    });
+  });
+
+  it('retries error statuses that may pass and maps the failure into a TaskResult', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(503, null));
+
+    const error = await agent.executeTask(context).catch(caught => caught);
+    expect(error).toMatchObject({ code: 'REMOTE_AGENT_ERROR', retryable: true });
+
+    const result = await agent.handleTask({ ...context });
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'REMOTE_AGENT_ERROR', retryable: true },
+    });
+  });
+
+  it('reports connection errors as retryable and task timeouts as timeouts', async () => {
+    fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(agent.executeTask(context)).rejects.toMatchObject({
+      code: 'REMOTE_AGENT_UNREACHABLE',
+      retryable: true,
+    });
+
+    const controller = new AbortController();
+    controller.abort(new TaskTimeoutError(50));
+
+    await expect(
+      agent.executeTask({ ...context, signal: controller.signal }),
+    ).rejects.toBeInstanceOf(TaskTimeoutError);
+  });
+
+  it('probes the health endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { healthy: true }));
+    await expect(agent.healthCheck()).resolves.toEqual({ healthy: true });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://audio-analyzer:8000/health');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { healthy: false, message: 'GPU busy' }));
+    await expect(agent.healthCheck()).resolves.toEqual({ healthy: false, message: 'GPU busy' });
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(agent.healthCheck()).resolves.toEqual({
+      healthy: false,
+      message: 'Unreachable: fetch failed',
+    });
+  });
+});
+
+describe('loadRemoteAgents', () => {
+  it('creates agents from a config file and rejects invalid entries', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'remote-agents-'));
+    const file = path.join(directory, 'remote-agents.json');
+
+    try {
+      await fs.writeFile(
+        file,
+        JSON.stringify([
+          { name: 'Audio Analyzer Agent', url: 'http://audio:8000', capabilities: ['analyze'] },
+        ]),
+      );
+      expect(loadRemoteAgents(file).map(remote => remote.getInfo())).toEqual([
+        expect.objectContaining({ name: 'Audio Analyzer Agent', version: '1.0.0' }),
+      ]);
+
+      await fs.writeFile(file, JSON.stringify([{ name: 'Broken', url: 'ftp://x' }]));
+      expect(() => loadRemoteAgents(file)).toThrow(/Invalid remote agent config/);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,8 +1,11 @@
-import { BaseAgent, TaskContext } from '../../core/agent';
+import Joi from 'joi';
+import { BaseAgent, FingerprintContext, TaskContext } from '../../core/agent';
+import { TaskValidationError } from '../../core/errors';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { fingerprintFiles } from '../../utils/fingerprint';
 
-interface TarotDeckValidationResult {
+export interface TarotDeckValidationResult {
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -21,13 +24,25 @@ interface TarotDeckValidationResult {
   };
 }
 
+/**
+ * Parameters for validateTarotDeck; basePath falls back to the brand's deck directory
+ */
+const tarotDeckParametersSchema = Joi.object({
+  deckId: Joi.string().required().description('Deck directory name'),
+  basePath: Joi.string().description('Directory containing the decks'),
+  validateImages: Joi.boolean().default(true)
+});
+
 export class TarotValidatorAgent extends BaseAgent {
   constructor() {
     super({
       name: 'Tarot Validator Agent',
       description: 'Validates tarot decks for structure and completeness',
       version: '1.0.0',
-      capabilities: ['validateTarotDeck']
+      capabilities: ['validateTarotDeck'],
+      parameterSchemas: {
+        validateTarotDeck: tarotDeckParametersSchema
+      }
     });
   }
   
@@ -50,39 +65,62 @@ export class TarotValidatorAgent extends BaseAgent {
         const result = await this.validateTarotDeck(context);
         
         this.logger.info(`Task ${taskType} completed successfully`, { executionId });
-        await this.updateTaskStatus(executionId, 'completed', result);
         return result;
       } else {
-        throw new Error(`Unsupported task type: ${taskType}`);
+        throw new TaskValidationError(`Unsupported task type: ${taskType}`);
       }
     } catch (error) {
       this.logger.error(`Task ${taskType} failed: ${(error as Error).message}`, { executionId });
-      await this.updateTaskStatus(executionId, 'failed', null, (error as Error).message);
       throw error;
     }
   }
   
   /**
-   * Validate a tarot deck directory structure
+   * Fingerprint validateTarotDeck by its parameters and every file in the deck
    */
-  private async validateTarotDeck(context: TaskContext): Promise<TarotDeckValidationResult> {
-    const { executionId, parameters, brand } = context;
-    
-    // Extract parameters with defaults from brand config if needed
-    let { deckId, basePath, validateImages = true } = parameters;
-    
-    // If base path not provided, get from brand config
+  public async getFingerprint(context: FingerprintContext): Promise<string | null> {
+    const basePath = this.resolveBasePath(context);
+
+    if (context.taskType !== 'validateTarotDeck' || !context.parameters.deckId || !basePath) {
+      return null;
+    }
+
+    return fingerprintFiles(context.parameters, [path.join(basePath, context.parameters.deckId)], {
+      recursive: true
+    });
+  }
+
+  /**
+   * The directory holding the decks: the basePath parameter, or the brand's deck directory
+   */
+  private resolveBasePath(context: FingerprintContext): string {
+    const { parameters, brand } = context;
+    let basePath = parameters.basePath;
+
     if (!basePath && brand) {
       basePath = this.getBrandConfigValue(context, 'basePath', '');
-      
+
       // Append default image path for Mystic Arcana
       if (brand === 'mysticArcana') {
         basePath = path.join(basePath, 'client/public/images/tarot/decks');
       }
     }
+
+    return basePath;
+  }
+
+  /**
+   * Validate a tarot deck directory structure
+   */
+  private async validateTarotDeck(context: TaskContext): Promise<TarotDeckValidationResult> {
+    const { executionId, parameters } = context;
+
+    // Extract parameters with defaults from brand config if needed
+    const { deckId, validateImages = true } = parameters;
+    const basePath = this.resolveBasePath(context);
     
     if (!deckId || !basePath) {
-      throw new Error('Deck ID and base path are required');
+      throw new TaskValidationError('Deck ID and base path are required');
     }
     
     this.logActivity(executionId, 'info', `Validating tarot deck: ${deckId} in ${basePath}`);
@@ -0,0 +1,180 @@
+import { EventEmitter } from 'events';
+import { MemoryStorage, setStorage } from '../db';
+import { TaskNotFoundError } from '../core/errors';
+import { metricsManager } from '../core/metrics';
+import { executionEvents } from '../orchestrator/events';
+import { MemoryQueueBackend } from '../orchestrator/backends';
+import { taskQueue } from '../orchestrator/queue';
+import { streamExecution, streamExecutionLogs } from './executionStream';
+
+/**
+ * Minimal stand-in for an Express response that records what is written
+ */
+function createResponse() {
+  const res = Object.assign(new EventEmitter(), {
+    chunks: [] as string[],
+    ended: false,
+    status: jest.fn(),
+    setHeader: jest.fn(),
+    flushHeaders: jest.fn(),
+    write: (chunk: string) => res.chunks.push(chunk),
+    end: () => {
+      res.ended = true;
+    },
+  });
+
+  return res;
+}
+
+function parseEvents(chunks: string[]) {
+  return chunks
+    .filter(chunk => chunk.startsWith('event:'))
+    .map(chunk => {
+      const [eventLine, dataLine] = chunk.trim().split('\n');
+      return { event: eventLine.slice(7), data: JSON.parse(dataLine.slice(6)) };
+    });
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  taskQueue.setBackend(new MemoryQueueBackend());
+});
+
+afterAll(async () => {
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+
+  await storage.executions.create({
+    id: 'execution-1',
+    taskId: null,
+    agentId: null,
+    brand: null,
+    parameters: {},
+    status: 'running',
+    priority: 'medium',
+    createdAt: new Date().toISOString(),
+  });
+});
+
+describe('streamExecution', () => {
+  it('should stream status, progress and the final result', async () => {
+    const res = createResponse();
+    await streamExecution(res as any, 'execution-1', { pollIntervalMs: 60000 });
+
+    executionEvents.emitProgress({
+      executionId: 'execution-1',
+      stage: 'validating',
+      percent: 50,
+      updatedAt: new Date().toISOString(),
+    });
+
+    await storage.executions.update('execution-1', { status: 'completed', result: { valid: true } });
+    executionEvents.emitStatus({ executionId: 'execution-1', status: 'completed' });
+    await flush();
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(parseEvents(res.chunks)).toEqual([
+      { event: 'status', data: expect.objectContaining({ status: 'running', progress: null }) },
+      { event: 'progress', data: expect.objectContaining({ stage: 'validating', percent: 50 }) },
+      { event: 'status', data: expect.objectContaining({ status: 'completed' }) },
+      { event: 'result', data: expect.objectContaining({ result: { valid: true } }) },
+    ]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should send the result straight away for finished executions', async () => {
+    await storage.executions.update('execution-1', { status: 'failed', error: 'boom' });
+
+    const res = createResponse();
+    await streamExecution(res as any, 'execution-1');
+    await flush();
+
+    expect(parseEvents(res.chunks).map(({ event }) => event)).toEqual(['status', 'result']);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should stop listening when the client disconnects', async () => {
+    const res = createResponse();
+    await streamExecution(res as any, 'execution-1', { pollIntervalMs: 60000 });
+
+    res.emit('close');
+    executionEvents.emitStatus({ executionId: 'execution-1', status: 'completed' });
+    await flush();
+
+    expect(parseEvents(res.chunks)).toHaveLength(1);
+  });
+
+  it('should reject unknown executions before sending headers', async () => {
+    const res = createResponse();
+
+    await expect(streamExecution(res as any, 'missing')).rejects.toBeInstanceOf(TaskNotFoundError);
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+
+  it("should reject other brands' executions before sending headers", async () => {
+    const res = createResponse();
+
+    await expect(
+      streamExecution(res as any, 'execution-1', { brand: 'tarotDecks' }),
+    ).rejects.toBeInstanceOf(TaskNotFoundError);
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+});
+
+describe('streamExecutionLogs', () => {
+  // Log cursors only carry UUIDs, like the IDs the logger assigns
+  const logId = (index: number) => `00000000-0000-4000-9000-00000000000${index}`;
+
+  const appendLog = (index: number, level: string) =>
+    storage.logs.append({
+      id: logId(index),
+      executionId: 'execution-1',
+      agentId: null,
+      level,
+      message: `Entry ${index}`,
+      metadata: {},
+      timestamp: new Date().toISOString(),
+    });
+
+  it('should follow new entries until the execution finishes', async () => {
+    await appendLog(1, 'info');
+
+    const res = createResponse();
+    await streamExecutionLogs(res as any, 'execution-1', { pollIntervalMs: 5 });
+
+    await appendLog(2, 'debug');
+    await appendLog(3, 'error');
+    await storage.executions.update('execution-1', { status: 'failed', error: 'boom' });
+
+    for (let i = 0; i < 100 && !res.ended; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const events = parseEvents(res.chunks);
+    expect(events.filter(({ event }) => event === 'log').map(({ data }) => data.id)).toEqual(
+      [1, 2, 3].map(logId),
+    );
+    expect(events[events.length - 1]).toEqual({
+      event: 'end',
+      data: expect.objectContaining({ executionId: 'execution-1', status: 'failed' }),
+    });
+    expect(res.ended).toBe(true);
+  });
+
+  it('should reject unknown executions before sending headers', async () => {
+    const res = createResponse();
+
+    await expect(streamExecutionLogs(res as any, 'missing')).rejects.toBeInstanceOf(
+      TaskNotFoundError,
+    );
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+  });
+});
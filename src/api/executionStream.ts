@@ -0,0 +1,265 @@
+import { Response } from 'express';
+import { TaskNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { ExecutionRecord, getStorage } from '../db';
+import { executionEvents, isTerminalStatus } from '../orchestrator/events';
+import { ExecutionLogOptions, taskExecutor } from '../orchestrator/executor';
+
+const logger = new AgentLogger('ExecutionStream');
+
+export interface ExecutionStreamOptions {
+  /**
+   * How often storage is re-read and a keep-alive comment is sent. Catches changes
+   * made by other processes, which do not reach the in-process event bus.
+   */
+  pollIntervalMs: number;
+  /** Treat executions of other brands as not found */
+  brand?: string;
+}
+
+const defaultOptions: ExecutionStreamOptions = {
+  pollIntervalMs: Number(process.env.STREAM_POLL_INTERVAL_MS) || 5000,
+};
+
+/**
+ * Stream an execution to the client as Server-Sent Events until it reaches a final status.
+ *
+ * Events: `status` (on connect and on every transition, with the latest progress),
+ * `progress` (agent progress reports) and `result` (once, just before the stream ends).
+ * Throws TaskNotFoundError before any headers are sent if the execution does not exist
+ * or belongs to another brand than the one given.
+ */
+export async function streamExecution(
+  res: Response,
+  executionId: string,
+  options: Partial<ExecutionStreamOptions> = {},
+): Promise<void> {
+  const { pollIntervalMs, brand } = { ...defaultOptions, ...options };
+  const storage = getStorage();
+
+  // Subscribe before reading storage so no transition falls between the two
+  const pending: Array<() => void> = [];
+  let ready = false;
+  let closed = false;
+  let lastStatus: string | null = null;
+  let lastProgressAt: string | null = null;
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  const send = (event: string, data: any) => {
+    if (!closed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  const stopListening = () => {
+    closed = true;
+    unsubscribeStatus();
+    unsubscribeProgress();
+    if (pollTimer) clearInterval(pollTimer);
+  };
+
+  const close = () => {
+    if (!closed) {
+      stopListening();
+      res.end();
+    }
+  };
+
+  const finish = async () => {
+    const record = await storage.executions.findById(executionId);
+
+    send('result', {
+      executionId,
+      status: record?.status ?? lastStatus,
+      result: record?.result ?? null,
+      error: record?.error ?? null,
+      completedAt: record?.completedAt ?? null,
+    });
+    close();
+  };
+
+  const onStatus = (status: string, data: Record<string, any>) => {
+    if (closed || status === lastStatus) {
+      return;
+    }
+
+    lastStatus = status;
+    send('status', { executionId, status, ...data });
+
+    if (isTerminalStatus(status)) {
+      finish().catch(error => {
+        logger.error(`Error sending result: ${(error as Error).message}`, { executionId });
+        close();
+      });
+    }
+  };
+
+  const whenReady = (handler: () => void) => (ready ? handler() : pending.push(handler));
+
+  const unsubscribeStatus = executionEvents.onStatus(
+    event =>
+      whenReady(() =>
+        onStatus(event.status, {
+          timestamp: event.timestamp,
+          ...(event.error ? { error: event.error } : {}),
+        }),
+      ),
+    executionId,
+  );
+
+  const unsubscribeProgress = executionEvents.onProgress(
+    event =>
+      whenReady(() => {
+        lastProgressAt = event.updatedAt;
+        send('progress', event);
+      }),
+    executionId,
+  );
+
+  let record: ExecutionRecord | null;
+
+  try {
+    record = await storage.executions.findById(executionId);
+  } catch (error) {
+    stopListening();
+    throw error;
+  }
+
+  if (!record || (brand && record.brand !== brand)) {
+    stopListening();
+    throw new TaskNotFoundError(`Task execution not found: ${executionId}`);
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.on('close', close);
+
+  lastProgressAt = record.progress?.updatedAt ?? null;
+  onStatus(record.status, { progress: record.progress || null });
+
+  ready = true;
+  pending.splice(0).forEach(handler => handler());
+
+  if (closed) {
+    return;
+  }
+
+  pollTimer = setInterval(async () => {
+    try {
+      const latest = await storage.executions.findById(executionId);
+
+      if (latest?.progress && latest.progress.updatedAt !== lastProgressAt) {
+        lastProgressAt = latest.progress.updatedAt;
+        send('progress', { executionId, ...latest.progress });
+      }
+
+      if (latest) {
+        onStatus(latest.status, { progress: latest.progress || null });
+      }
+
+      if (!closed) {
+        res.write(': keep-alive\n\n');
+      }
+    } catch (error) {
+      logger.error(`Error polling execution: ${(error as Error).message}`, { executionId });
+    }
+  }, pollIntervalMs);
+}
+
+export interface LogStreamOptions extends Omit<ExecutionLogOptions, 'limit'> {
+  /** How often new entries are read from storage */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Stream an execution's logs as Server-Sent Events, following new entries until the
+ * execution reaches a final status.
+ *
+ * Events: `log` (one per entry, oldest first) and `end` (once, with the final status and
+ * a cursor to resume from). Throws before any headers are sent if the execution does not
+ * exist or the cursor is invalid.
+ */
+export async function streamExecutionLogs(
+  res: Response,
+  executionId: string,
+  options: LogStreamOptions = {},
+): Promise<void> {
+  const { pollIntervalMs = Number(process.env.LOG_FOLLOW_INTERVAL_MS) || 1000, ...query } =
+    options;
+
+  // Reads the first page up front so errors surface as a normal response
+  let page = await taskExecutor.getExecutionLogs(executionId, query);
+  let closed = false;
+  let timer: NodeJS.Timeout | null = null;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const close = () => {
+    if (!closed) {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      res.end();
+    }
+  };
+
+  res.on('close', close);
+
+  const next = async () => {
+    try {
+      page = await taskExecutor.getExecutionLogs(executionId, {
+        ...query,
+        cursor: page.nextCursor || undefined,
+      });
+      flush();
+    } catch (error) {
+      logger.error(`Error following logs: ${(error as Error).message}`, { executionId });
+      close();
+    }
+  };
+
+  const flush = () => {
+    if (closed) {
+      return;
+    }
+
+    for (const entry of page.logs) {
+      res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`);
+    }
+
+    if (page.hasMore) {
+      next();
+      return;
+    }
+
+    // The status is read before the entries, so a final status means nothing is left
+    if (isTerminalStatus(page.executionStatus)) {
+      const { executionStatus: status, nextCursor } = page;
+      res.write(`event: end\ndata: ${JSON.stringify({ executionId, status, nextCursor })}\n\n`);
+      close();
+      return;
+    }
+
+    if (page.logs.length === 0) {
+      res.write(': keep-alive\n\n');
+    }
+
+    timer = setTimeout(next, pollIntervalMs);
+  };
+
+  flush();
+}
+
+export default {
+  streamExecution,
+  streamExecutionLogs,
+};
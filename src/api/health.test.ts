@@ -0,0 +1,77 @@
+import { AgentHealth, BaseAgent } from '../core/agent';
+import { MemoryStorage, setStorage } from '../db';
+import { MemoryQueueBackend } from '../orchestrator/backends';
+import { taskQueue } from '../orchestrator/queue';
+import { registry } from '../registry';
+import { checkSystemHealth } from './health';
+
+class PressAgent extends BaseAgent {
+  public health: AgentHealth = { healthy: true };
+
+  constructor() {
+    super({
+      name: 'Press Agent',
+      description: 'Prints decks',
+      version: '2.0.0',
+      capabilities: ['printDeck'],
+    });
+  }
+
+  public async healthCheck(): Promise<AgentHealth> {
+    return this.health;
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+const agent = new PressAgent();
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  taskQueue.setBackend(new MemoryQueueBackend());
+  registry.registerAgent(agent);
+});
+
+afterAll(async () => {
+  registry.unregisterAgent(agent.getInfo().id);
+  await taskQueue.close();
+});
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  agent.health = { healthy: true };
+});
+
+describe('checkSystemHealth', () => {
+  it('reports storage, queue and agent health', async () => {
+    const health = await checkSystemHealth();
+
+    expect(health.status).toBe('healthy');
+    expect(health.database).toMatchObject({ healthy: true, type: 'memory' });
+    expect(health.queue).toMatchObject({ healthy: true, type: 'memory' });
+    expect(health.agents).toEqual([
+      expect.objectContaining({ name: 'Press Agent', version: '2.0.0', healthy: true }),
+    ]);
+  });
+
+  it('is degraded while an agent is unhealthy', async () => {
+    agent.health = { healthy: false, message: 'out of ink' };
+
+    const health = await checkSystemHealth();
+
+    expect(health.status).toBe('degraded');
+    expect(health.agents[0]).toMatchObject({ healthy: false, message: 'out of ink' });
+  });
+
+  it('is unhealthy when storage is not reachable', async () => {
+    jest.spyOn(storage, 'ping').mockRejectedValue(new Error('connection refused'));
+
+    const health = await checkSystemHealth();
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.database).toMatchObject({ healthy: false, message: 'connection refused' });
+  });
+});
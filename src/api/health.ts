@@ -0,0 +1,78 @@
+import { getStorage } from '../db';
+import { taskQueue } from '../orchestrator/queue';
+import { registry } from '../registry';
+import { AgentHealthStatus, getHealthCheckTimeout } from '../registry/registry';
+import { withTimeout } from '../utils/helpers';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+/**
+ * Reachability of storage or the queue
+ */
+export interface DependencyHealth {
+  healthy: boolean;
+  /** Storage driver or queue backend in use */
+  type: string;
+  latencyMs: number;
+  message?: string;
+}
+
+export interface SystemHealth {
+  status: HealthStatus;
+  checkedAt: string;
+  database: DependencyHealth;
+  queue: DependencyHealth;
+  agents: AgentHealthStatus[];
+}
+
+async function checkDependency(
+  type: string,
+  ping: () => Promise<boolean>,
+): Promise<DependencyHealth> {
+  const startTime = Date.now();
+
+  try {
+    const healthy = await withTimeout(ping(), getHealthCheckTimeout(), 'Health check timed out');
+
+    return {
+      healthy,
+      type,
+      latencyMs: Date.now() - startTime,
+      ...(healthy ? {} : { message: 'Not reachable' }),
+    };
+  } catch (error) {
+    return {
+      healthy: false,
+      type,
+      latencyMs: Date.now() - startTime,
+      message: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Check storage, the queue and every agent. Without storage or the queue nothing runs, so
+ * either being down makes the system unhealthy; an unhealthy agent only degrades it.
+ */
+export async function checkSystemHealth(): Promise<SystemHealth> {
+  const storage = getStorage();
+
+  const [database, queue, agents] = await Promise.all([
+    checkDependency(storage.driver, () => storage.ping()),
+    checkDependency(taskQueue.getBackendType(), () => taskQueue.ping()),
+    registry.checkHealth(),
+  ]);
+
+  let status: HealthStatus = 'healthy';
+  if (!database.healthy || !queue.healthy) {
+    status = 'unhealthy';
+  } else if (agents.some(agent => !agent.healthy)) {
+    status = 'degraded';
+  }
+
+  return { status, checkedAt: new Date().toISOString(), database, queue, agents };
+}
+
+export default {
+  checkSystemHealth,
+};
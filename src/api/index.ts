@@ -1,5 +1,6 @@
 import express from 'express';
 import routes from './routes';
+import { buildOpenApiDocument } from './openapi';
 import { errorHandler } from '../core/errors';
 import { setupLogger } from '../core/logger';
 
@@ -7,6 +8,11 @@ import { setupLogger } from '../core/logger';
  * Setup API routes
  */
 export function setupRoutes(app: express.Application): void {
+  // OpenAPI document describing the routes below
+  app.get('/api/openapi.json', (req, res) => {
+    res.status(200).json(buildOpenApiDocument());
+  });
+
   // Setup API routes
   app.use('/api', routes);
   
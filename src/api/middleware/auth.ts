@@ -1,4 +1,4 @@
-import { getSupabaseClient } from '../../db/client';
+import { getStorage } from '../../db';
 import { AuthenticationError, AuthorizationError } from '../../core/errors';
 import { AgentLogger } from '../../core/logger';
 
@@ -15,16 +15,10 @@ export async function verifyApiKey(req: any, res: any, next: any) {
       throw new AuthenticationError('API key is required');
     }
     
-    const db = getSupabaseClient();
+    // Check if API key belongs to a known brand
+    const data = await getStorage().brands.findByApiKey(apiKey);
     
-    // Check if API key exists in brands table
-    const { data, error } = await db
-      .from('brands')
-      .select('key, name')
-      .eq('api_key', apiKey)
-      .single();
-    
-    if (error || !data) {
+    if (!data) {
       logger.warn('Invalid API key used', {
         apiKey: apiKey.substring(0, 8) + '...',
         ip: req.ip
@@ -94,7 +88,33 @@ export function verifyBrandAccess(req: any, res: any, next: any) {
   }
 }
 
+/**
+ * Middleware to protect admin routes with the ADMIN_API_KEY header.
+ * Without ADMIN_API_KEY, admin routes are only open when API keys are not required.
+ */
+export function verifyAdminKey(req: any, res: any, next: any) {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey && process.env.REQUIRE_API_KEY !== 'true') {
+    return next();
+  }
+
+  if (!adminKey || req.headers['x-admin-key'] !== adminKey) {
+    logger.warn('Rejected admin request', { path: req.originalUrl, ip: req.ip });
+
+    const error = new AuthenticationError('A valid admin key is required');
+    return res.status(error.status).json({
+      status: 'error',
+      code: error.code,
+      message: error.message
+    });
+  }
+
+  next();
+}
+
 export default {
   verifyApiKey,
-  verifyBrandAccess
+  verifyBrandAccess,
+  verifyAdminKey
 };
\ No newline at end of file
@@ -0,0 +1,96 @@
+import Joi from 'joi';
+import { BaseAgent } from '../core/agent';
+import { metricsManager } from '../core/metrics';
+import { MemoryQueueBackend } from '../orchestrator/backends';
+import { taskQueue } from '../orchestrator/queue';
+import { registry } from '../registry';
+import { buildOpenApiDocument } from './openapi';
+
+class DeckAgent extends BaseAgent {
+  constructor() {
+    super({
+      name: 'Deck Agent',
+      description: 'Checks decks',
+      version: '1.0.0',
+      capabilities: ['checkDeck'],
+      parameterSchemas: {
+        checkDeck: Joi.object({ deckId: Joi.string().required() }),
+      },
+    });
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+const agent = new DeckAgent();
+
+beforeAll(() => {
+  taskQueue.setBackend(new MemoryQueueBackend());
+  registry.registerAgent(agent);
+});
+
+afterAll(async () => {
+  registry.unregisterAgent(agent.getInfo().id);
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+describe('buildOpenApiDocument', () => {
+  const document = () => buildOpenApiDocument();
+
+  it('should describe task requests with the parameter schema of each task type', () => {
+    const { components, paths } = document();
+
+    expect(paths['/agent/run'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/RunTaskRequest',
+    });
+    expect(components.schemas.RunTaskRequest.discriminator.mapping).toEqual({
+      checkDeck: '#/components/schemas/checkDeckRequest',
+    });
+    expect(components.schemas.checkDeckRequest.properties).toMatchObject({
+      task: { const: 'checkDeck' },
+      parameters: {
+        type: 'object',
+        properties: { deckId: { type: 'string' } },
+        required: ['deckId'],
+      },
+    });
+  });
+
+  it('should list path and query parameters from the routes and their validators', () => {
+    const operation = document().paths['/agent/logs/{executionId}'].get;
+
+    expect(operation.parameters).toEqual(
+      expect.arrayContaining([
+        { name: 'executionId', in: 'path', required: true, schema: { type: 'string' } },
+        expect.objectContaining({
+          name: 'level',
+          in: 'query',
+          schema: { type: 'string', enum: ['error', 'warn', 'info', 'debug'] },
+        }),
+      ]),
+    );
+    expect(operation.responses).toHaveProperty('404');
+  });
+
+  it('should mark routes protected by the admin key', () => {
+    const { paths } = document();
+
+    expect(paths['/dlq/{id}/replay'].post.security).toEqual([{ AdminKey: [] }]);
+    expect(paths['/dlq/{id}/replay'].post.responses).toHaveProperty('202');
+  });
+
+  it('should include the brand configuration schemas', () => {
+    const { components, paths } = document();
+
+    expect(components.schemas.BrandConfig.required).toEqual(
+      expect.arrayContaining(['name', 'key', 'basePath']),
+    );
+    expect(components.schemas.BrandTaskRequest.type).toBe('object');
+    expect(paths['/brands'].post.requestBody.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/BrandConfig',
+    });
+  });
+});
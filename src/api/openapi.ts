@@ -0,0 +1,318 @@
+import Joi from 'joi';
+import { Router } from 'express';
+import { brandConfigSchema, brandTaskRequestSchema } from '../brands/schema';
+import { registry } from '../registry';
+import { toJsonSchema } from '../utils/schema';
+import { verifyAdminKey, verifyApiKey } from './middleware/auth';
+import { routeMounts } from './routes';
+import { batchRequestSchema, validateBatchRequest } from './validators/batchRequest';
+import { redeliverRequestSchema, validateRedeliverRequest } from './validators/callbackRequest';
+import { replayRequestSchema, validateReplayRequest } from './validators/dlqRequest';
+import { executionQuerySchema, validateExecutionQuery } from './validators/executionQuery';
+import { logQuerySchema, validateLogQuery } from './validators/logQuery';
+import {
+  createScheduleSchema,
+  updateScheduleSchema,
+  validateCreateScheduleRequest,
+  validateUpdateScheduleRequest,
+} from './validators/scheduleRequest';
+import { runQuerySchema, taskRequestSchema, validateTaskRequest } from './validators/taskRequest';
+import { validateWorkflowRequest, workflowRequestSchema } from './validators/workflowRequest';
+
+type JsonSchema = Record<string, any>;
+
+type Handler = (...args: any[]) => any;
+
+interface RequestSchemas {
+  body?: JsonSchema;
+  query?: Joi.ObjectSchema;
+}
+
+interface OperationInfo {
+  summary: string;
+  /** Status returned on success; defaults to 200 */
+  status?: number;
+  /** Responds with Server-Sent Events instead of JSON */
+  stream?: boolean;
+  /** Body validated inside the handler rather than by middleware */
+  body?: JsonSchema;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Request schemas enforced by each validation middleware
+ */
+const validatorSchemas = new Map<Handler, RequestSchemas>([
+  [validateTaskRequest, { body: ref('RunTaskRequest'), query: runQuerySchema }],
+  [validateBatchRequest, { body: ref('BatchRequest') }],
+  [validateExecutionQuery, { query: executionQuerySchema }],
+  [validateLogQuery, { query: logQuerySchema }],
+  [validateRedeliverRequest, { body: toJsonSchema(redeliverRequestSchema) }],
+  [validateReplayRequest, { body: toJsonSchema(replayRequestSchema) }],
+  [validateWorkflowRequest, { body: toJsonSchema(workflowRequestSchema) }],
+  [validateCreateScheduleRequest, { body: toJsonSchema(createScheduleSchema) }],
+  [validateUpdateScheduleRequest, { body: toJsonSchema(updateScheduleSchema) }],
+]);
+
+/**
+ * Summaries and response details, keyed by method and path relative to /api
+ */
+const operations: Record<string, OperationInfo> = {
+  'POST /agent/run': {
+    summary: 'Run a task; with wait, respond 200 with the result if it finishes in time',
+    status: 202,
+  },
+  'POST /agent/batch': { summary: 'Run several tasks as a batch', status: 202 },
+  'GET /agent/batch/{batchId}': { summary: 'Get batch status' },
+  'GET /agent/batch/{batchId}/result': { summary: 'Get the result of every task in a batch' },
+  'GET /agent/executions': { summary: 'List executions' },
+  'GET /agent/status/{executionId}': { summary: 'Get task status' },
+  'GET /agent/stream/{executionId}': {
+    summary: 'Stream status, progress and result',
+    stream: true,
+  },
+  'GET /agent/logs/{executionId}': {
+    summary: 'Get execution logs, or follow them with follow=true',
+  },
+  'GET /agent/result/{executionId}': { summary: 'Get task result' },
+  'GET /agent/callbacks/{executionId}': { summary: 'List callback deliveries of a task or batch' },
+  'POST /agent/callbacks/{executionId}/redeliver': {
+    summary: 'Send a callback again',
+    status: 202,
+  },
+  'DELETE /agent/cancel/{executionId}': { summary: 'Cancel a task' },
+  'GET /agents': { summary: 'List agents and their tasks' },
+  'GET /agents/{id}': { summary: 'Get an agent' },
+  'GET /brands': { summary: 'List brands' },
+  'GET /brands/{key}': { summary: 'Get brand configuration' },
+  'PUT /brands/{key}': { summary: 'Update brand configuration', body: ref('BrandConfig') },
+  'POST /brands': { summary: 'Create a brand', status: 201, body: ref('BrandConfig') },
+  'POST /workflows/run': { summary: 'Run a workflow', status: 202 },
+  'GET /workflows/status/{runId}': { summary: 'Get workflow run status' },
+  'GET /schedules': { summary: 'List schedules' },
+  'GET /schedules/{id}': { summary: 'Get a schedule' },
+  'POST /schedules': { summary: 'Create a schedule', status: 201 },
+  'PUT /schedules/{id}': { summary: 'Update a schedule' },
+  'DELETE /schedules/{id}': { summary: 'Delete a schedule' },
+  'GET /dlq': { summary: 'List dead letters' },
+  'GET /dlq/{id}': { summary: 'Get a dead letter' },
+  'POST /dlq/{id}/replay': { summary: 'Replay a dead letter', status: 202 },
+  'DELETE /dlq/{id}': { summary: 'Purge a dead letter' },
+  'GET /plugins': { summary: 'List agent plugins' },
+  'GET /plugins/{id}': { summary: 'Get an agent plugin' },
+  'POST /plugins/{id}/enable': { summary: 'Load a plugin and register its agents' },
+  'POST /plugins/{id}/disable': { summary: 'Shut down and unregister the agents of a plugin' },
+  'GET /health': {
+    summary: 'Check storage, queue and agent health; 503 when storage or the queue is down',
+  },
+};
+
+/**
+ * Request schema for each registered task type, with its declared parameter schema
+ */
+function buildTaskRequestSchemas(): Record<string, JsonSchema> {
+  const base = toJsonSchema(taskRequestSchema);
+  const schemas: Record<string, JsonSchema> = {};
+  const taskTypes = new Set(registry.getAllAgents().flatMap(agent => agent.getInfo().capabilities));
+
+  for (const taskType of taskTypes) {
+    const parameterSchema = registry
+      .getAgentsByCapability(taskType)
+      .map(agent => agent.getParameterSchema(taskType))
+      .find(Boolean);
+
+    schemas[`${taskType}Request`] = {
+      ...base,
+      properties: {
+        ...base.properties,
+        task: { type: 'string', const: taskType },
+        parameters: parameterSchema ? toJsonSchema(parameterSchema) : { type: 'object' },
+      },
+    };
+  }
+
+  return schemas;
+}
+
+function buildComponents(): JsonSchema {
+  const taskRequests = buildTaskRequestSchemas();
+  const taskRequestNames = Object.keys(taskRequests);
+
+  // Without registered agents any task type is accepted
+  const runTaskRequest =
+    taskRequestNames.length > 0
+      ? {
+          oneOf: taskRequestNames.map(ref),
+          discriminator: {
+            propertyName: 'task',
+            mapping: Object.fromEntries(
+              taskRequestNames.map(name => [name.replace(/Request$/, ''), ref(name).$ref]),
+            ),
+          },
+        }
+      : ref('TaskRequest');
+
+  const batchRequest = toJsonSchema(batchRequestSchema);
+  batchRequest.properties.tasks.items = ref('RunTaskRequest');
+
+  return {
+    schemas: {
+      TaskRequest: toJsonSchema(taskRequestSchema),
+      RunTaskRequest: runTaskRequest,
+      ...taskRequests,
+      BatchRequest: batchRequest,
+      BrandConfig: toJsonSchema(brandConfigSchema),
+      BrandTaskRequest: toJsonSchema(brandTaskRequestSchema),
+      Error: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', const: 'error' },
+          code: { type: 'string' },
+          message: { type: 'string' },
+          details: {},
+        },
+        required: ['status', 'code', 'message'],
+      },
+    },
+    securitySchemes: {
+      ApiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      AdminKey: { type: 'apiKey', in: 'header', name: 'x-admin-key' },
+    },
+  };
+}
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+/**
+ * Describe one route from its path and the middleware in its stack
+ */
+function buildOperation(
+  method: string,
+  path: string,
+  tag: string,
+  handlers: Handler[],
+): JsonSchema {
+  const info = operations[`${method.toUpperCase()} ${path}`];
+  const requests: RequestSchemas = Object.assign(
+    {},
+    ...handlers.map(handler => validatorSchemas.get(handler)),
+  );
+  const body = requests.body || info?.body;
+  const pathParams = [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+
+  const parameters = pathParams.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+
+  if (requests.query) {
+    const query = toJsonSchema(requests.query);
+
+    for (const [name, schema] of Object.entries<JsonSchema>(query.properties || {})) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: (query.required || []).includes(name),
+        schema,
+      } as any);
+    }
+  }
+
+  const content = info?.stream
+    ? { 'text/event-stream': { schema: { type: 'string' } } }
+    : { 'application/json': { schema: { type: 'object' } } };
+
+  const responses: JsonSchema = {
+    [info?.status || 200]: { description: 'Success', content },
+  };
+
+  if (body || requests.query) {
+    responses[400] = errorResponse('Invalid request');
+  }
+
+  const operation: JsonSchema = {
+    tags: [tag],
+    summary: info?.summary,
+    parameters,
+    responses,
+  };
+
+  if (body) {
+    operation.requestBody = { required: true, content: { 'application/json': { schema: body } } };
+  }
+
+  if (handlers.includes(verifyAdminKey)) {
+    operation.security = [{ AdminKey: [] }];
+    responses[401] = errorResponse('Missing or invalid admin key');
+  } else if (handlers.includes(verifyApiKey)) {
+    operation.security = [{ ApiKey: [] }];
+    responses[401] = errorResponse('Missing or invalid API key');
+  }
+
+  if (pathParams.length > 0) {
+    responses[404] = errorResponse('Not found');
+  }
+
+  return operation;
+}
+
+function buildPaths(mounts: Array<[string, Router]>): JsonSchema {
+  const paths: JsonSchema = {};
+
+  for (const [mountPath, router] of mounts) {
+    const tag = mountPath.replace(/^\//, '');
+
+    for (const layer of router.stack) {
+      if (!layer.route) {
+        continue;
+      }
+
+      const route = layer.route as any;
+      const path = `${mountPath}${route.path === '/' ? '' : route.path}`.replace(/:(\w+)/g, '{$1}');
+      const handlers = route.stack.map((entry: any) => entry.handle);
+
+      for (const method of Object.keys(route.methods)) {
+        paths[path] = paths[path] || {};
+        paths[path][method] = buildOperation(method, path, tag, handlers);
+      }
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Build an OpenAPI 3.1 document for the API from the mounted routes, their validation
+ * schemas and the task types of the registered agents
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Unified Agent Framework API',
+      version: process.env.npm_package_version || '1.0.0',
+    },
+    servers: [{ url: '/api' }],
+    paths: {
+      '/openapi.json': {
+        get: {
+          tags: ['openapi'],
+          summary: 'Get this OpenAPI document',
+          responses: { 200: { description: 'Success' } },
+        },
+      },
+      ...buildPaths(routeMounts),
+    },
+    components: buildComponents(),
+  };
+}
+
+export default {
+  buildOpenApiDocument,
+};
@@ -0,0 +1,30 @@
+import { AgentFrameworkError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+
+const logger = new AgentLogger('Api');
+
+/**
+ * Send framework client errors with their own status and anything else as a 500
+ */
+export function sendError(res: any, error: unknown, code: string, message: string) {
+  if (error instanceof AgentFrameworkError && error.status < 500) {
+    return res.status(error.status).json({
+      status: 'error',
+      code: error.code,
+      message: error.message,
+      details: error.details,
+    });
+  }
+
+  logger.error(`${message}: ${(error as Error).message}`);
+
+  return res.status(500).json({
+    status: 'error',
+    code,
+    message: (error as Error).message || message,
+  });
+}
+
+export default {
+  sendError,
+};
@@ -0,0 +1,137 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { metricsManager } from '../../core/metrics';
+import { MemoryStorage, setStorage } from '../../db';
+import { MemoryQueueBackend } from '../../orchestrator/backends';
+import { taskExecutor } from '../../orchestrator/executor';
+import { taskQueue } from '../../orchestrator/queue';
+import agentRoutes from './agent';
+
+const agent = {
+  getInfo: () => ({ id: 'agent-1', name: 'agent-1', version: '1.0.0', priority: 0 }),
+  executeTask: jest.fn(),
+  getParameterSchema: jest.fn(),
+};
+
+jest.mock('../../registry', () => ({
+  registry: {
+    findAgentForTask: () => agent,
+    getAgent: () => agent,
+    getAgentsByCapability: () => [agent],
+    isHealthy: () => true,
+  },
+}));
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Submit a validateDirectory task, optionally waiting for its result
+ */
+async function run(wait?: string) {
+  const response = await fetch(`${baseUrl}/agent/run${wait ? `?wait=${wait}` : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ task: 'validateDirectory', parameters: { directoryPath: '/a' } }),
+  });
+
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  process.env.AGENT_MAX_RETRIES = '0';
+  taskQueue.setBackend(new MemoryQueueBackend());
+  taskQueue.processTask('*', 5, job => taskExecutor.processJob(job));
+
+  const app = express();
+  app.use(express.json());
+  app.use('/agent', agentRoutes);
+
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.AGENT_MAX_RETRIES;
+  await new Promise(resolve => server.close(resolve));
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  const storage = new MemoryStorage();
+  setStorage(storage);
+  await storage.tasks.upsert({ id: 'task-1', type: 'validateDirectory' });
+  agent.executeTask.mockReset();
+});
+
+afterEach(() => {
+  delete process.env.RUN_WAIT_MAX_MS;
+  jest.restoreAllMocks();
+});
+
+describe('POST /agent/run', () => {
+  it('should accept the task without waiting by default', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const { status, body } = await run();
+
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ status: 'accepted', executionId: expect.any(String) });
+  });
+
+  it('should block until the task finishes in wait mode', async () => {
+    agent.executeTask.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return { valid: true };
+    });
+
+    const { status, body } = await run('true');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ status: 'completed', result: { valid: true } });
+    expect(body.completedAt).toEqual(expect.any(String));
+  });
+
+  it('should accept query parameters other than wait', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const { status, body } = await run('true&source=cli');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ status: 'completed', result: { valid: true } });
+  });
+
+  it('should return the pending execution when the wait runs out', async () => {
+    let finish: () => void = () => undefined;
+    agent.executeTask.mockImplementation(
+      () => new Promise(resolve => (finish = () => resolve({ valid: true }))),
+    );
+
+    const { status, body } = await run('50');
+
+    expect(status).toBe(202);
+    expect(body).toMatchObject({ status: 'accepted', executionId: expect.any(String) });
+    expect((await taskExecutor.getTaskStatus(body.executionId)).status).toBe('running');
+
+    finish();
+    await taskExecutor.waitForCompletion(body.executionId);
+  });
+
+  it('should wait no longer than RUN_WAIT_MAX_MS', async () => {
+    process.env.RUN_WAIT_MAX_MS = '50';
+    const waitForCompletion = jest.spyOn(taskExecutor, 'waitForCompletion').mockResolvedValue(null);
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const { status } = await run('60000');
+
+    expect(status).toBe(202);
+    expect(waitForCompletion).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ timeoutMs: 50 }),
+    );
+  });
+});
@@ -1,8 +1,25 @@
 import { Router } from 'express';
-import { validateTaskRequest } from '../validators/taskRequest';
+import { taskRequestSchema, validateTaskRequest } from '../validators/taskRequest';
+import { validateBatchRequest } from '../validators/batchRequest';
+import { validateExecutionQuery } from '../validators/executionQuery';
+import { validateLogQuery } from '../validators/logQuery';
+import { validateRedeliverRequest } from '../validators/callbackRequest';
 import { taskExecutor } from '../../orchestrator/executor';
+import { batchManager, BatchEntry, BatchSummary } from '../../orchestrator/batches';
+import { webhookDispatcher } from '../../webhooks';
+import { streamExecution, streamExecutionLogs } from '../executionStream';
 import { AgentLogger } from '../../core/logger';
-import { TaskExecutionError, TaskNotFoundError, AgentNotFoundError } from '../../core/errors';
+import {
+  TaskExecutionError,
+  TaskValidationError,
+  TaskNotFoundError,
+  AgentNotFoundError,
+  AgentUnavailableError,
+  AuthorizationError,
+  WebhookDeliveryNotFoundError,
+  BatchNotFoundError
+} from '../../core/errors';
+import { validateSchema } from '../../utils/validation';
 import { verifyApiKey, verifyBrandAccess } from '../middleware/auth';
 import { rateLimit } from '../middleware/rateLimit';
 
@@ -18,8 +35,57 @@ const apiRateLimit = rateLimit({
 // Apply authentication (optional, enabled per route)
 const useAuth = process.env.REQUIRE_API_KEY === 'true';
 
+// How often a waiting run request checks on executions processed by other workers
+const RUN_WAIT_POLL_INTERVAL_MS = 250;
+
+/**
+ * Validate one task of a batch like a single run request, checking brand access
+ */
+function toBatchEntry(req: any, task: any): BatchEntry {
+  try {
+    const request = validateSchema(task, taskRequestSchema);
+
+    if (req.brand && request.brand && req.brand.key !== request.brand) {
+      return {
+        task: request.task,
+        error: { code: 'AUTHORIZATION_ERROR', message: 'Not authorized to access this brand' }
+      };
+    }
+
+    return { request };
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return {
+        task: typeof task?.task === 'string' ? task.task : undefined,
+        error: { code: 'VALIDATION_ERROR', message: error.message, details: error.details }
+      };
+    }
+    throw error;
+  }
+}
+
 /**
- * Run a task
+ * Shape a batch summary for responses
+ */
+function formatBatch(summary: BatchSummary) {
+  const { batch } = summary;
+
+  return {
+    batchId: batch.id,
+    status: batch.status,
+    brand: batch.brand,
+    callback: batch.callback,
+    createdAt: batch.createdAt,
+    completedAt: batch.completedAt,
+    total: summary.items.length,
+    counts: summary.counts,
+    items: summary.items
+  };
+}
+
+/**
+ * Run a task. With ?wait the request blocks until the task finishes and returns its
+ * result, or responds 202 as usual if it is still running when the wait ends.
  * POST /agent/run
  */
 router.post(
@@ -29,21 +95,61 @@ router.post(
   validateTaskRequest,
   async (req, res) => {
     try {
-      const { task, brand, parameters, priority, callback } = req.body;
+      const { task, brand, parameters, priority, callback, idempotencyKey, force } = req.body;
       
       logger.info(`Received task execution request for ${task}`, {
         taskType: task,
         brand
       });
       
+      // Idempotency keys are unique per authenticated brand, or per requested brand
+      const idempotencyScope = (req as any).brand?.key ?? brand ?? '';
+
+      if (idempotencyKey) {
+        const existing = await taskExecutor.findByIdempotencyKey(idempotencyScope, idempotencyKey);
+
+        if (existing) {
+          res.setHeader('Idempotent-Replayed', 'true');
+
+          return res.status(200).json({
+            executionId: existing.id,
+            status: existing.status,
+            message: 'Duplicate request, returning the original execution'
+          });
+        }
+      }
+
       // Submit task to executor
       const executionId = await taskExecutor.submitTask({
         taskType: task,
         brand,
         parameters,
         priority: priority || 'medium',
-        callback
+        callback,
+        idempotencyKey,
+        idempotencyScope,
+        force
       });
+
+      // In wait mode, return the outcome inline if the task finishes in time
+      const waitMs = req.query.wait as number | undefined;
+      if (waitMs) {
+        const execution = await taskExecutor.waitForCompletion(executionId, {
+          timeoutMs: waitMs,
+          pollIntervalMs: RUN_WAIT_POLL_INTERVAL_MS
+        });
+
+        if (execution) {
+          return res.status(200).json({
+            executionId,
+            status: execution.status,
+            result: execution.result,
+            error: execution.error,
+            completedAt: execution.completedAt,
+            ...(execution.cachedFrom ? { cached: true, cachedFrom: execution.cachedFrom } : {})
+          });
+        }
+      }
       
       return res.status(202).json({
         executionId,
@@ -51,6 +157,15 @@ router.post(
         message: 'Task accepted for processing'
       });
     } catch (error) {
+      if (error instanceof TaskValidationError) {
+        return res.status(400).json({
+          status: 'error',
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.details
+        });
+      }
+
       if (error instanceof TaskNotFoundError) {
         return res.status(404).json({
           status: 'error',
@@ -66,6 +181,14 @@ router.post(
           message: error.message
         });
       }
+
+      if (error instanceof AgentUnavailableError) {
+        return res.status(503).json({
+          status: 'error',
+          code: 'AGENT_UNAVAILABLE',
+          message: error.message
+        });
+      }
       
       logger.error(`Error submitting task: ${(error as Error).message}`);
       
@@ -78,6 +201,180 @@ router.post(
   }
 );
 
+/**
+ * Run several tasks as a batch
+ * POST /agent/batch
+ */
+router.post(
+  '/batch',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  validateBatchRequest,
+  async (req: any, res) => {
+    try {
+      const { tasks, callback } = req.body;
+
+      logger.info(`Received batch of ${tasks.length} tasks`, {
+        brand: req.brand?.key
+      });
+
+      const entries = tasks.map((task: any) => toBatchEntry(req, task));
+      const batch = await batchManager.submitBatch({
+        entries,
+        brand: req.brand?.key,
+        callback
+      });
+
+      const submitted = batch.items.filter(item => item.executionId).length;
+
+      return res.status(202).json({
+        batchId: batch.id,
+        status: 'accepted',
+        message: `${submitted} of ${batch.items.length} tasks accepted for processing`,
+        submitted,
+        rejected: batch.items.length - submitted,
+        items: batch.items
+      });
+    } catch (error) {
+      logger.error(`Error submitting batch: ${(error as Error).message}`);
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'BATCH_SUBMISSION_ERROR',
+        message: (error as Error).message || 'Failed to submit batch'
+      });
+    }
+  }
+);
+
+/**
+ * Get batch status with per-task status and counts
+ * GET /agent/batch/:batchId
+ */
+router.get(
+  '/batch/:batchId',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  async (req: any, res) => {
+    try {
+      // Brand-scoped API keys only see their own brand's batches
+      const summary = await batchManager.getBatchStatus(req.params.batchId, req.brand?.key);
+
+      return res.status(200).json(formatBatch(summary));
+    } catch (error) {
+      if (error instanceof BatchNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: error.code,
+          message: error.message
+        });
+      }
+
+      logger.error(`Error getting batch status: ${(error as Error).message}`, {
+        batchId: req.params.batchId
+      });
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'STATUS_CHECK_ERROR',
+        message: (error as Error).message || 'Failed to get batch status'
+      });
+    }
+  }
+);
+
+/**
+ * Get batch results with the result or error of every task
+ * GET /agent/batch/:batchId/result
+ */
+router.get(
+  '/batch/:batchId/result',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  async (req: any, res) => {
+    try {
+      // Brand-scoped API keys only see their own brand's batches
+      const summary = await batchManager.getBatchResults(req.params.batchId, req.brand?.key);
+
+      return res.status(200).json(formatBatch(summary));
+    } catch (error) {
+      if (error instanceof BatchNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: error.code,
+          message: error.message
+        });
+      }
+
+      logger.error(`Error getting batch results: ${(error as Error).message}`, {
+        batchId: req.params.batchId
+      });
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'RESULT_RETRIEVAL_ERROR',
+        message: (error as Error).message || 'Failed to get batch results'
+      });
+    }
+  }
+);
+
+/**
+ * List executions with filters and cursor pagination
+ * GET /agent/executions?brand=&taskType=&status=&agentId=&from=&to=&sortBy=&order=&limit=&cursor=
+ */
+router.get(
+  '/executions',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  validateExecutionQuery,
+  async (req: any, res) => {
+    try {
+      const { brand, taskType, status, agentId, from, to, sortBy, order, limit, cursor } = req.query;
+
+      // Brand-scoped API keys only see their own brand's executions
+      if (req.brand && brand && brand !== req.brand.key) {
+        throw new AuthorizationError('Not authorized to access this brand');
+      }
+
+      const page = await taskExecutor.listExecutions({
+        brand: req.brand?.key ?? brand,
+        taskType,
+        status,
+        agentId,
+        from: from?.toISOString(),
+        to: to?.toISOString(),
+        sortBy,
+        order,
+        limit,
+        cursor
+      });
+
+      return res.status(200).json({
+        status: 'success',
+        ...page
+      });
+    } catch (error) {
+      if (error instanceof AuthorizationError || error instanceof TaskValidationError) {
+        return res.status(error.status).json({
+          status: 'error',
+          code: error.code,
+          message: error.message,
+          details: error.details
+        });
+      }
+
+      logger.error(`Error listing executions: ${(error as Error).message}`);
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'FETCH_ERROR',
+        message: (error as Error).message || 'Failed to list executions'
+      });
+    }
+  }
+);
+
 /**
  * Get task status
  * GET /agent/status/:executionId
@@ -120,6 +417,107 @@ router.get(
   }
 );
 
+/**
+ * Stream task status, progress and result as Server-Sent Events
+ * GET /agent/stream/:executionId
+ */
+router.get(
+  '/stream/:executionId',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  async (req: any, res) => {
+    try {
+      const { executionId } = req.params;
+
+      logger.info(`Streaming task ${executionId}`);
+
+      // Brand-scoped API keys only see their own brand's executions
+      await streamExecution(res, executionId, { brand: req.brand?.key });
+    } catch (error) {
+      if (error instanceof TaskNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: 'TASK_NOT_FOUND',
+          message: error.message
+        });
+      }
+
+      logger.error(`Error streaming task: ${(error as Error).message}`, {
+        executionId: req.params.executionId
+      });
+
+      if (res.headersSent) {
+        return res.end();
+      }
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'STREAM_ERROR',
+        message: (error as Error).message || 'Failed to stream task'
+      });
+    }
+  }
+);
+
+/**
+ * Get an execution's logs, optionally following new entries as Server-Sent Events
+ * GET /agent/logs/:executionId?level=&limit=&cursor=&follow=
+ */
+router.get(
+  '/logs/:executionId',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  validateLogQuery,
+  async (req: any, res) => {
+    try {
+      const { executionId } = req.params;
+      const { level, limit, cursor, follow } = req.query;
+
+      // Brand-scoped API keys only see their own brand's executions
+      const brand = req.brand?.key;
+
+      if (follow) {
+        return await streamExecutionLogs(res, executionId, { level, cursor, brand });
+      }
+
+      const page = await taskExecutor.getExecutionLogs(executionId, {
+        level,
+        limit,
+        cursor,
+        brand
+      });
+
+      return res.status(200).json({
+        status: 'success',
+        ...page
+      });
+    } catch (error) {
+      if (error instanceof TaskNotFoundError || error instanceof TaskValidationError) {
+        return res.status(error.status).json({
+          status: 'error',
+          code: error.code,
+          message: error.message,
+          details: error.details
+        });
+      }
+
+      logger.error(`Error getting execution logs: ${(error as Error).message}`, {
+        executionId: req.params.executionId
+      });
+
+      if (res.headersSent) {
+        return res.end();
+      }
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'FETCH_ERROR',
+        message: (error as Error).message || 'Failed to get execution logs'
+      });
+    }
+  }
+);
+
 /**
  * Get task result
  * GET /agent/result/:executionId
@@ -170,6 +568,113 @@ router.get(
   }
 );
 
+/**
+ * Check that an execution, or a batch for batch callbacks, exists and is visible to the
+ * caller's brand. Throws TaskNotFoundError when neither is found.
+ */
+async function assertCallbackAccess(req: any, id: string): Promise<void> {
+  try {
+    await taskExecutor.getTaskStatus(id, req.brand?.key);
+  } catch (error) {
+    if (!(error instanceof TaskNotFoundError)) {
+      throw error;
+    }
+
+    await batchManager.getBatch(id, req.brand?.key).catch(batchError => {
+      throw batchError instanceof BatchNotFoundError ? error : batchError;
+    });
+  }
+}
+
+/**
+ * List callback deliveries for a task or batch, with every attempt
+ * GET /agent/callbacks/:executionId
+ */
+router.get(
+  '/callbacks/:executionId',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  async (req: any, res) => {
+    try {
+      const { executionId } = req.params;
+
+      await assertCallbackAccess(req, executionId);
+
+      const deliveries = await webhookDispatcher.listDeliveries(executionId);
+
+      return res.status(200).json({
+        executionId,
+        deliveries
+      });
+    } catch (error) {
+      if (error instanceof TaskNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: 'TASK_NOT_FOUND',
+          message: error.message
+        });
+      }
+
+      logger.error(`Error getting callback deliveries: ${(error as Error).message}`, {
+        executionId: req.params.executionId
+      });
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'CALLBACK_FETCH_ERROR',
+        message: (error as Error).message || 'Failed to get callback deliveries'
+      });
+    }
+  }
+);
+
+/**
+ * Redeliver a task or batch callback, the latest one unless a deliveryId is given
+ * POST /agent/callbacks/:executionId/redeliver
+ */
+router.post(
+  '/callbacks/:executionId/redeliver',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  validateRedeliverRequest,
+  async (req: any, res) => {
+    try {
+      const { executionId } = req.params;
+
+      logger.info(`Redelivering callback for task ${executionId}`);
+
+      await assertCallbackAccess(req, executionId);
+
+      const delivery = await webhookDispatcher.redeliver(executionId, req.body.deliveryId);
+
+      return res.status(202).json({
+        executionId,
+        status: 'accepted',
+        message: 'Callback queued for redelivery',
+        delivery
+      });
+    } catch (error) {
+      if (error instanceof TaskNotFoundError || error instanceof WebhookDeliveryNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: error.code,
+          message: error.message
+        });
+      }
+
+      logger.error(`Error redelivering callback: ${(error as Error).message}`, {
+        executionId: req.params.executionId
+      });
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'CALLBACK_REDELIVERY_ERROR',
+        message: (error as Error).message || 'Failed to redeliver callback'
+      });
+    }
+  }
+);
+
 /**
  * Cancel task
  * DELETE /agent/cancel/:executionId
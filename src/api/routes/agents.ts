@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { agentCatalog } from '../../registry/catalog';
+import { verifyApiKey } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { sendError } from '../respond';
+
+const router = Router();
+
+// Apply rate limiting
+const apiRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.API_RATE_LIMIT) || 100,
+});
+
+// Apply authentication if enabled
+const useAuth = process.env.REQUIRE_API_KEY === 'true';
+const authMiddleware = useAuth ? [verifyApiKey] : [];
+
+/**
+ * List registered agents with their tasks, parameter schemas, brand overrides and stats.
+ * Brand-scoped API keys only see their own brand's overrides.
+ * GET /agents
+ */
+router.get('/', apiRateLimit, ...authMiddleware, async (req: any, res) => {
+  try {
+    const agents = await agentCatalog.listAgents({ brand: req.brand?.key });
+
+    return res.status(200).json({
+      status: 'success',
+      agents,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch agents');
+  }
+});
+
+/**
+ * Get a registered agent by ID
+ * GET /agents/:id
+ */
+router.get('/:id', apiRateLimit, ...authMiddleware, async (req: any, res) => {
+  try {
+    const agent = await agentCatalog.getAgent(req.params.id, { brand: req.brand?.key });
+
+    return res.status(200).json({
+      status: 'success',
+      agent,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch agent');
+  }
+});
+
+export default router;
@@ -0,0 +1,88 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { brandConfig } from '../../brands';
+import { metricsManager } from '../../core/metrics';
+import { MemoryStorage, setStorage } from '../../db';
+import brandRoutes from './brands';
+
+const secret = 'a-long-enough-signing-secret';
+
+let server: Server;
+let baseUrl: string;
+
+async function getBrand(key: string) {
+  const response = await fetch(`${baseUrl}/brands/${key}`);
+  return (await response.json()).brand;
+}
+
+async function putBrand(key: string, brand: any) {
+  const response = await fetch(`${baseUrl}/brands/${key}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(brand),
+  });
+
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/brands', brandRoutes);
+
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  setStorage(new MemoryStorage());
+  brandConfig.clearCache();
+  await brandConfig.createBrandConfig({
+    key: 'mysticArcana',
+    name: 'Mystic Arcana',
+    basePath: '/decks',
+    webhooks: { secret, maxAttempts: 3 },
+  });
+});
+
+describe('PUT /brands/:key', () => {
+  it('should keep the webhook secret when a brand read with GET is saved again', async () => {
+    const brand = await getBrand('mysticArcana');
+    expect(brand.webhooks.secret).toBe('[redacted]');
+
+    const { status } = await putBrand('mysticArcana', { ...brand, description: 'Tarot decks' });
+
+    expect(status).toBe(200);
+    const stored = await brandConfig.getBrandConfig('mysticArcana');
+    expect(stored.description).toBe('Tarot decks');
+    expect(stored.webhooks).toEqual({ secret, maxAttempts: 3 });
+  });
+
+  it('should keep the webhook secret when the update leaves it out', async () => {
+    const brand = await getBrand('mysticArcana');
+
+    await putBrand('mysticArcana', { ...brand, webhooks: { maxAttempts: 5 } });
+
+    expect((await brandConfig.getBrandConfig('mysticArcana')).webhooks).toEqual({
+      secret,
+      maxAttempts: 5,
+    });
+  });
+
+  it('should replace the webhook secret when a new one is sent', async () => {
+    const brand = await getBrand('mysticArcana');
+    const rotated = 'another-long-signing-secret';
+
+    await putBrand('mysticArcana', { ...brand, webhooks: { secret: rotated } });
+
+    expect((await brandConfig.getBrandConfig('mysticArcana')).webhooks.secret).toBe(rotated);
+  });
+});
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { brandConfig } from '../../brands';
 import { AgentLogger } from '../../core/logger';
 import { BrandConfigError } from '../../core/errors';
+import { scheduler } from '../../scheduler';
 import { verifyApiKey } from '../middleware/auth';
 import { rateLimit } from '../middleware/rateLimit';
 
@@ -18,6 +19,53 @@ const apiRateLimit = rateLimit({
 const useAuth = process.env.REQUIRE_API_KEY === 'true';
 const authMiddleware = useAuth ? [verifyApiKey] : [];
 
+/**
+ * Pick up changes to brand schedules; the brand itself is already saved
+ */
+async function syncSchedules(): Promise<void> {
+  try {
+    await scheduler.syncBrandSchedules();
+  } catch (error) {
+    logger.error(`Error syncing brand schedules: ${(error as Error).message}`);
+  }
+}
+
+// Shown in brand responses in place of the webhook signing secret
+const REDACTED_SECRET = '[redacted]';
+
+/**
+ * Hide the webhook signing secret from brand responses
+ */
+function redactSecrets(brand: any): any {
+  if (!brand?.webhooks?.secret) {
+    return brand;
+  }
+
+  return { ...brand, webhooks: { ...brand.webhooks, secret: REDACTED_SECRET } };
+}
+
+/**
+ * Keep the stored webhook secret when an update sends the redacted placeholder back or
+ * leaves the secret out, so a brand read with GET can be saved again with PUT
+ */
+async function keepStoredSecret(key: string, config: any): Promise<any> {
+  const secret = config?.webhooks?.secret;
+  if (!config?.webhooks || (secret !== undefined && secret !== REDACTED_SECRET)) {
+    return config;
+  }
+
+  const stored = await brandConfig.getBrandConfig(key).catch(() => null);
+  const webhooks = { ...config.webhooks };
+
+  if (stored?.webhooks?.secret) {
+    webhooks.secret = stored.webhooks.secret;
+  } else {
+    delete webhooks.secret;
+  }
+
+  return { ...config, webhooks };
+}
+
 /**
  * Get all brands
  * GET /brands
@@ -70,7 +118,7 @@ router.get(
       
       return res.status(200).json({
         status: 'success',
-        brand
+        brand: redactSecrets(brand)
       });
     } catch (error) {
       if (error instanceof BrandConfigError) {
@@ -103,7 +151,7 @@ router.put(
   async (req, res) => {
     try {
       const { key } = req.params;
-      const config = req.body;
+      const config = await keepStoredSecret(key, req.body);
       
       logger.info(`Updating brand: ${key}`);
       
@@ -118,6 +166,7 @@ router.put(
       
       // Update config
       await brandConfig.updateBrandConfig(key, config);
+      await syncSchedules();
       
       return res.status(200).json({
         status: 'success',
@@ -159,6 +208,7 @@ router.post(
       
       // Create new brand
       await brandConfig.createBrandConfig(config);
+      await syncSchedules();
       
       return res.status(201).json({
         status: 'success',
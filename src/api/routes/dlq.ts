@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { deadLetterQueue } from '../../orchestrator/deadLetters';
+import { AgentLogger } from '../../core/logger';
+import { validateReplayRequest } from '../validators/dlqRequest';
+import { verifyAdminKey } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { sendError } from '../respond';
+
+const router = Router();
+const logger = new AgentLogger('DeadLetterRoutes');
+
+// Apply rate limiting
+const apiRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.API_RATE_LIMIT) || 100,
+});
+
+/**
+ * List dead letters
+ * GET /dlq?brand=&taskType=
+ */
+router.get('/', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    const deadLetters = await deadLetterQueue.list({
+      brand: req.query.brand as string | undefined,
+      taskType: req.query.taskType as string | undefined,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      deadLetters,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch dead letters');
+  }
+});
+
+/**
+ * Get a dead letter by ID
+ * GET /dlq/:id
+ */
+router.get('/:id', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    const deadLetter = await deadLetterQueue.get(req.params.id);
+
+    return res.status(200).json({
+      status: 'success',
+      deadLetter,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch dead letter');
+  }
+});
+
+/**
+ * Replay a dead letter as a new execution, optionally with edited parameters
+ * POST /dlq/:id/replay
+ */
+router.post(
+  '/:id/replay',
+  apiRateLimit,
+  verifyAdminKey,
+  validateReplayRequest,
+  async (req, res) => {
+    try {
+      logger.info(`Replaying dead letter ${req.params.id}`);
+
+      const deadLetter = await deadLetterQueue.replay(req.params.id, req.body);
+
+      return res.status(202).json({
+        executionId: deadLetter.replayExecutionId,
+        status: 'accepted',
+        message: 'Task accepted for processing',
+        deadLetter,
+      });
+    } catch (error) {
+      return sendError(res, error, 'REPLAY_ERROR', 'Failed to replay dead letter');
+    }
+  },
+);
+
+/**
+ * Purge a dead letter
+ * DELETE /dlq/:id
+ */
+router.delete('/:id', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    await deadLetterQueue.purge(req.params.id);
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Dead letter ${req.params.id} purged successfully`,
+    });
+  } catch (error) {
+    return sendError(res, error, 'DELETE_ERROR', 'Failed to purge dead letter');
+  }
+});
+
+export default router;
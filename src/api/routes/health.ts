@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { checkSystemHealth } from '../health';
+import { sendError } from '../respond';
+
+const router = Router();
+
+/**
+ * Roll up storage, queue and per-agent health. Responds 200 when healthy or degraded and
+ * 503 when storage or the queue is down. Not authenticated or rate limited, so load
+ * balancers and orchestrators can probe it.
+ * GET /health
+ */
+router.get('/', async (req, res) => {
+  try {
+    const health = await checkSystemHealth();
+
+    if (health.status === 'unhealthy') {
+      return res.status(503).json({
+        status: 'error',
+        code: 'UNHEALTHY',
+        message: 'Storage or the task queue is not reachable',
+        details: health,
+      });
+    }
+
+    return res.status(200).json({
+      status: 'success',
+      health,
+    });
+  } catch (error) {
+    return sendError(res, error, 'HEALTH_CHECK_ERROR', 'Failed to check health');
+  }
+});
+
+export default router;
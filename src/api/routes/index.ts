@@ -1,13 +1,46 @@
 import { Router } from 'express';
 import agentRoutes from './agent';
+import agentsRoutes from './agents';
 import brandRoutes from './brands';
+import workflowRoutes from './workflows';
+import scheduleRoutes from './schedules';
+import dlqRoutes from './dlq';
+import healthRoutes from './health';
+import pluginRoutes from './plugins';
 
-const router = Router();
+/**
+ * Routers and the paths they are mounted on, relative to /api
+ */
+export const routeMounts: Array<[string, Router]> = [
+  // Agent routes
+  ['/agent', agentRoutes],
+
+  // Agent catalog routes
+  ['/agents', agentsRoutes],
+
+  // Brand routes
+  ['/brands', brandRoutes],
+
+  // Workflow routes
+  ['/workflows', workflowRoutes],
+
+  // Schedule routes
+  ['/schedules', scheduleRoutes],
 
-// Agent routes
-router.use('/agent', agentRoutes);
+  // Dead-letter queue admin routes
+  ['/dlq', dlqRoutes],
+
+  // Storage, queue and agent health
+  ['/health', healthRoutes],
+
+  // Agent plugin admin routes
+  ['/plugins', pluginRoutes],
+];
+
+const router = Router();
 
-// Brand routes
-router.use('/brands', brandRoutes);
+for (const [path, routes] of routeMounts) {
+  router.use(path, routes);
+}
 
-export default router;
\ No newline at end of file
+export default router;
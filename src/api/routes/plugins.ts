@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { AgentLogger } from '../../core/logger';
+import { pluginManager } from '../../registry/plugins';
+import { verifyAdminKey } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { sendError } from '../respond';
+
+const router = Router();
+const logger = new AgentLogger('PluginRoutes');
+
+// Apply rate limiting
+const apiRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.API_RATE_LIMIT) || 100,
+});
+
+/**
+ * List discovered plugins with their status and agents
+ * GET /plugins
+ */
+router.get('/', apiRateLimit, verifyAdminKey, async (req, res) => {
+  return res.status(200).json({
+    status: 'success',
+    plugins: pluginManager.listPlugins(),
+  });
+});
+
+/**
+ * Get a plugin by ID (URL-encode package names such as @scope/name)
+ * GET /plugins/:id
+ */
+router.get('/:id', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    return res.status(200).json({
+      status: 'success',
+      plugin: pluginManager.getPlugin(req.params.id),
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch plugin');
+  }
+});
+
+/**
+ * Load a disabled or failed plugin and register its agents, in this process only
+ * POST /plugins/:id/enable
+ */
+router.post('/:id/enable', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    logger.info(`Enabling plugin ${req.params.id}`);
+
+    return res.status(200).json({
+      status: 'success',
+      plugin: await pluginManager.enablePlugin(req.params.id),
+    });
+  } catch (error) {
+    return sendError(res, error, 'PLUGIN_ENABLE_ERROR', 'Failed to enable plugin');
+  }
+});
+
+/**
+ * Shut down and unregister a plugin's agents until it is enabled again, in this process only
+ * POST /plugins/:id/disable
+ */
+router.post('/:id/disable', apiRateLimit, verifyAdminKey, async (req, res) => {
+  try {
+    logger.info(`Disabling plugin ${req.params.id}`);
+
+    return res.status(200).json({
+      status: 'success',
+      plugin: await pluginManager.disablePlugin(req.params.id),
+    });
+  } catch (error) {
+    return sendError(res, error, 'PLUGIN_DISABLE_ERROR', 'Failed to disable plugin');
+  }
+});
+
+export default router;
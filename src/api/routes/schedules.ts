@@ -0,0 +1,153 @@
+import { Router } from 'express';
+import { scheduler } from '../../scheduler';
+import { AgentLogger } from '../../core/logger';
+import { AuthorizationError } from '../../core/errors';
+import { ScheduleRecord } from '../../db';
+import {
+  validateCreateScheduleRequest,
+  validateUpdateScheduleRequest,
+} from '../validators/scheduleRequest';
+import { verifyApiKey, verifyBrandAccess } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { sendError } from '../respond';
+
+const router = Router();
+const logger = new AgentLogger('ScheduleRoutes');
+
+// Apply rate limiting
+const apiRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.API_RATE_LIMIT) || 100,
+});
+
+// Apply authentication if enabled
+const useAuth = process.env.REQUIRE_API_KEY === 'true';
+const authMiddleware = useAuth ? [verifyApiKey] : [];
+
+/**
+ * Reject access to another brand's schedules when authenticated
+ */
+function assertBrandAccess(req: any, brand: string): void {
+  if (req.brand && req.brand.key !== brand) {
+    throw new AuthorizationError('Not authorized to access this brand');
+  }
+}
+
+/**
+ * Load a schedule the caller is allowed to see
+ */
+async function getAccessibleSchedule(req: any): Promise<ScheduleRecord> {
+  const schedule = await scheduler.getSchedule(req.params.id);
+  assertBrandAccess(req, schedule.brand);
+  return schedule;
+}
+
+/**
+ * List schedules
+ * GET /schedules?brand=
+ */
+router.get('/', apiRateLimit, ...authMiddleware, async (req: any, res) => {
+  try {
+    const brand = (req.query.brand as string) || req.brand?.key;
+
+    if (brand) {
+      assertBrandAccess(req, brand);
+    }
+
+    const schedules = await scheduler.listSchedules(brand);
+
+    return res.status(200).json({
+      status: 'success',
+      schedules,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch schedules');
+  }
+});
+
+/**
+ * Get a schedule by ID
+ * GET /schedules/:id
+ */
+router.get('/:id', apiRateLimit, ...authMiddleware, async (req, res) => {
+  try {
+    const schedule = await getAccessibleSchedule(req);
+
+    return res.status(200).json({
+      status: 'success',
+      schedule,
+    });
+  } catch (error) {
+    return sendError(res, error, 'FETCH_ERROR', 'Failed to fetch schedule');
+  }
+});
+
+/**
+ * Create a schedule
+ * POST /schedules
+ */
+router.post(
+  '/',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey, verifyBrandAccess] : []),
+  validateCreateScheduleRequest,
+  async (req, res) => {
+    try {
+      logger.info(`Creating schedule for ${req.body.task}`, { brand: req.body.brand });
+
+      const schedule = await scheduler.createSchedule(req.body);
+
+      return res.status(201).json({
+        status: 'success',
+        schedule,
+      });
+    } catch (error) {
+      return sendError(res, error, 'CREATE_ERROR', 'Failed to create schedule');
+    }
+  },
+);
+
+/**
+ * Update a schedule
+ * PUT /schedules/:id
+ */
+router.put(
+  '/:id',
+  apiRateLimit,
+  ...authMiddleware,
+  validateUpdateScheduleRequest,
+  async (req, res) => {
+    try {
+      await getAccessibleSchedule(req);
+
+      const schedule = await scheduler.updateSchedule(req.params.id, req.body);
+
+      return res.status(200).json({
+        status: 'success',
+        schedule,
+      });
+    } catch (error) {
+      return sendError(res, error, 'UPDATE_ERROR', 'Failed to update schedule');
+    }
+  },
+);
+
+/**
+ * Delete a schedule
+ * DELETE /schedules/:id
+ */
+router.delete('/:id', apiRateLimit, ...authMiddleware, async (req, res) => {
+  try {
+    await getAccessibleSchedule(req);
+    await scheduler.deleteSchedule(req.params.id);
+
+    return res.status(200).json({
+      status: 'success',
+      message: `Schedule ${req.params.id} deleted successfully`,
+    });
+  } catch (error) {
+    return sendError(res, error, 'DELETE_ERROR', 'Failed to delete schedule');
+  }
+});
+
+export default router;
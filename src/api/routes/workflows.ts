@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { validateWorkflowRequest } from '../validators/workflowRequest';
+import { workflowRunner } from '../../workflows';
+import { AgentLogger } from '../../core/logger';
+import { TaskValidationError, WorkflowNotFoundError } from '../../core/errors';
+import { verifyApiKey, verifyBrandAccess } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+
+const router = Router();
+const logger = new AgentLogger('WorkflowRoutes');
+
+// Apply rate limiting
+const apiRateLimit = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: Number(process.env.API_RATE_LIMIT) || 100,
+});
+
+// Apply authentication if enabled
+const useAuth = process.env.REQUIRE_API_KEY === 'true';
+
+/**
+ * Run a workflow
+ * POST /workflows/run
+ */
+router.post(
+  '/run',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey, verifyBrandAccess] : []),
+  validateWorkflowRequest,
+  async (req, res) => {
+    try {
+      const { workflow, brand, input, priority } = req.body;
+
+      logger.info(`Received workflow run request for ${workflow.name}`, { brand });
+
+      const runId = await workflowRunner.startWorkflow(workflow, { brand, input, priority });
+
+      return res.status(202).json({
+        runId,
+        status: 'accepted',
+        message: 'Workflow accepted for processing',
+      });
+    } catch (error) {
+      if (error instanceof TaskValidationError) {
+        return res.status(400).json({
+          status: 'error',
+          code: error.code,
+          message: error.message,
+          details: error.details,
+        });
+      }
+
+      logger.error(`Error starting workflow: ${(error as Error).message}`);
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'WORKFLOW_SUBMISSION_ERROR',
+        message: (error as Error).message || 'Failed to start workflow',
+      });
+    }
+  },
+);
+
+/**
+ * Get workflow run status with per-step state
+ * GET /workflows/status/:runId
+ */
+router.get(
+  '/status/:runId',
+  apiRateLimit,
+  ...(useAuth ? [verifyApiKey] : []),
+  async (req, res) => {
+    try {
+      const { runId } = req.params;
+
+      const run = await workflowRunner.getWorkflowRun(runId);
+
+      return res.status(200).json({
+        runId: run.id,
+        name: run.name,
+        brand: run.brand,
+        status: run.status,
+        createdAt: run.createdAt,
+        completedAt: run.completedAt,
+        steps: run.steps,
+      });
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        return res.status(404).json({
+          status: 'error',
+          code: error.code,
+          message: error.message,
+        });
+      }
+
+      logger.error(`Error getting workflow status: ${(error as Error).message}`, {
+        runId: req.params.runId,
+      });
+
+      return res.status(500).json({
+        status: 'error',
+        code: 'STATUS_CHECK_ERROR',
+        message: (error as Error).message || 'Failed to get workflow status',
+      });
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+
+/**
+ * Joi schema for a batch submission. Items are validated one by one in the route so
+ * that a bad item is reported without rejecting the whole batch.
+ */
+export const batchRequestSchema = Joi.object({
+  tasks: Joi.array()
+    .items(Joi.object().unknown(true))
+    .min(1)
+    .max(Number(process.env.BATCH_MAX_SIZE) || 100)
+    .required(),
+  callback: Joi.string().optional().uri(),
+});
+
+/**
+ * Middleware to validate batch submission request
+ */
+export function validateBatchRequest(req: any, res: any, next: any) {
+  try {
+    const validatedData = validateSchema(req.body, batchRequestSchema);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  batchRequestSchema,
+  validateBatchRequest,
+};
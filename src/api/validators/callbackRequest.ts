@@ -0,0 +1,36 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+
+/**
+ * Joi schema for redelivering a callback; the latest delivery is repeated by default
+ */
+export const redeliverRequestSchema = Joi.object({
+  deliveryId: Joi.string().guid().optional(),
+});
+
+/**
+ * Middleware to validate callback redelivery request
+ */
+export function validateRedeliverRequest(req: any, res: any, next: any) {
+  try {
+    const validatedData = validateSchema(req.body || {}, redeliverRequestSchema);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  redeliverRequestSchema,
+  validateRedeliverRequest,
+};
@@ -0,0 +1,37 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+
+/**
+ * Joi schema for replaying a dead letter; omitted fields keep their original values
+ */
+export const replayRequestSchema = Joi.object({
+  parameters: Joi.object().optional(),
+  priority: Joi.string().optional().valid('highest', 'high', 'medium', 'low', 'lowest'),
+});
+
+/**
+ * Middleware to validate dead letter replay request
+ */
+export function validateReplayRequest(req: any, res: any, next: any) {
+  try {
+    const validatedData = validateSchema(req.body || {}, replayRequestSchema);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  replayRequestSchema,
+  validateReplayRequest,
+};
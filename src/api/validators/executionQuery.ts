@@ -0,0 +1,47 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+
+/**
+ * Joi schema for the execution listing query string
+ */
+export const executionQuerySchema = Joi.object({
+  brand: Joi.string().min(1).max(100),
+  taskType: Joi.string().min(1).max(100),
+  // Comma-separated, e.g. status=failed,timed_out
+  status: Joi.string()
+    .pattern(/^[a-z_]+(,[a-z_]+)*$/)
+    .custom(value => value.split(',')),
+  agentId: Joi.string().min(1),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().min(Joi.ref('from')),
+  sortBy: Joi.string().valid('createdAt', 'startedAt', 'completedAt').default('createdAt'),
+  order: Joi.string().valid('asc', 'desc').default('desc'),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  cursor: Joi.string().max(1000),
+});
+
+/**
+ * Middleware to validate execution listing query
+ */
+export function validateExecutionQuery(req: any, res: any, next: any) {
+  try {
+    req.query = validateSchema(req.query || {}, executionQuerySchema);
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  executionQuerySchema,
+  validateExecutionQuery,
+};
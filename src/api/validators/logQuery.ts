@@ -0,0 +1,40 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+import { LOG_LEVELS } from '../../core/logger';
+
+/**
+ * Joi schema for the execution log query string
+ */
+export const logQuerySchema = Joi.object({
+  // Minimum severity, e.g. level=warn returns warn and error entries
+  level: Joi.string().valid(...LOG_LEVELS),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+  cursor: Joi.string().max(1000),
+  follow: Joi.boolean().default(false),
+});
+
+/**
+ * Middleware to validate execution log query
+ */
+export function validateLogQuery(req: any, res: any, next: any) {
+  try {
+    req.query = validateSchema(req.query || {}, logQuerySchema);
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  logQuerySchema,
+  validateLogQuery,
+};
@@ -0,0 +1,66 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+import { brandScheduleSchema } from '../../brands/schema';
+
+/**
+ * Joi schema for creating a schedule.
+ * Same fields as a brand's `schedules` entries; the ID is generated.
+ */
+export const createScheduleSchema = brandScheduleSchema
+  .fork(['id'], schema => schema.forbidden())
+  .keys({
+    brand: Joi.string().required().min(1).max(100),
+  });
+
+/**
+ * Joi schema for updating a schedule; the brand cannot be changed
+ */
+export const updateScheduleSchema = brandScheduleSchema
+  .fork(['id'], schema => schema.forbidden())
+  .fork(['cron', 'task'], schema => schema.optional())
+  .keys({
+    parameters: Joi.object(),
+    enabled: Joi.boolean(),
+    missedRunPolicy: Joi.string().valid('skip', 'runOnce', 'runAll'),
+  })
+  .min(1);
+
+/**
+ * Build a middleware that validates the request body against a schema
+ */
+function validateBody(schema: Joi.ObjectSchema) {
+  return (req: any, res: any, next: any) => {
+    try {
+      req.body = validateSchema(req.body, schema);
+      next();
+    } catch (error) {
+      if (error instanceof TaskValidationError) {
+        return res.status(400).json({
+          status: 'error',
+          code: 'VALIDATION_ERROR',
+          message: error.message,
+          details: error.details,
+        });
+      }
+      next(error);
+    }
+  };
+}
+
+/**
+ * Middleware to validate schedule creation request
+ */
+export const validateCreateScheduleRequest = validateBody(createScheduleSchema);
+
+/**
+ * Middleware to validate schedule update request
+ */
+export const validateUpdateScheduleRequest = validateBody(updateScheduleSchema);
+
+export default {
+  createScheduleSchema,
+  updateScheduleSchema,
+  validateCreateScheduleRequest,
+  validateUpdateScheduleRequest,
+};
@@ -0,0 +1,43 @@
+import { validateTaskRequest } from './taskRequest';
+
+function validate(query: Record<string, string>) {
+  const req: any = { headers: {}, body: { task: 'validateFile', parameters: {} }, query };
+  const res: any = { status: jest.fn(() => res), json: jest.fn() };
+  const next = jest.fn();
+
+  validateTaskRequest(req, res, next);
+  return { req, res, next };
+}
+
+afterEach(() => {
+  delete process.env.RUN_WAIT_MAX_MS;
+});
+
+describe('validateTaskRequest wait mode', () => {
+  it('should convert wait to milliseconds, capped at the maximum', () => {
+    process.env.RUN_WAIT_MAX_MS = '10000';
+
+    expect(validate({ wait: 'true' }).req.query.wait).toBe(10000);
+    expect(validate({ wait: '2500' }).req.query.wait).toBe(2500);
+    expect(validate({ wait: '60000' }).req.query.wait).toBe(10000);
+    expect(validate({ wait: 'false' }).req.query.wait).toBeUndefined();
+    expect(validate({}).req.query.wait).toBeUndefined();
+  });
+
+  it('should accept and keep other query parameters', () => {
+    const query = { wait: '2500', source: 'cli' };
+    const { req, next } = validate(query);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.query).toBe(query);
+    expect(req.query).toEqual({ wait: 2500, source: 'cli' });
+  });
+
+  it('should reject waits that are not a boolean or a positive number', () => {
+    const { res, next } = validate({ wait: 'soon' });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+});
@@ -5,21 +5,54 @@ import { TaskValidationError } from '../../core/errors';
 /**
  * Joi schema for task execution request
  */
-const taskRequestSchema = Joi.object({
+export const taskRequestSchema = Joi.object({
   task: Joi.string().required().min(1).max(100),
   brand: Joi.string().optional().min(1).max(100),
   parameters: Joi.object().required(),
   priority: Joi.string().optional().valid('highest', 'high', 'medium', 'low', 'lowest').default('medium'),
-  callback: Joi.string().optional().uri()
+  callback: Joi.string().optional().uri(),
+  idempotencyKey: Joi.string().optional().min(1).max(255),
+  force: Joi.boolean().optional().description('Run even if a cached result matches')
 });
 
+/**
+ * Longest a run request may wait for its result (RUN_WAIT_MAX_MS, default 30s)
+ */
+export function getMaxRunWaitMs(): number {
+  return Number(process.env.RUN_WAIT_MAX_MS) || 30000;
+}
+
+/**
+ * Joi schema for the run request query string. wait=true waits up to the maximum,
+ * wait=<ms> up to that many milliseconds; either way it is converted to milliseconds.
+ * Other query parameters are left alone.
+ */
+export const runQuerySchema = Joi.object({
+  wait: Joi.alternatives()
+    .try(Joi.boolean(), Joi.number().integer().min(1))
+    .custom(value => {
+      if (value === false) {
+        return undefined;
+      }
+      return value === true ? getMaxRunWaitMs() : Math.min(value, getMaxRunWaitMs());
+    })
+    .description('Wait for the result: true, or the longest wait in milliseconds')
+}).unknown(true);
+
 /**
  * Middleware to validate task execution request
  */
 export function validateTaskRequest(req: any, res: any, next: any) {
   try {
-    const validatedData = validateSchema(req.body, taskRequestSchema);
+    // The Idempotency-Key header is an alternative to the idempotencyKey field
+    const idempotencyKey = req.headers?.['idempotency-key'];
+    const body = idempotencyKey && req.body ? { ...req.body, idempotencyKey } : req.body;
+
+    const validatedData = validateSchema(body, taskRequestSchema);
     req.body = validatedData;
+    const { wait } = validateSchema(req.query || {}, runQuerySchema);
+    req.query = req.query || {};
+    req.query.wait = wait;
     next();
   } catch (error) {
     if (error instanceof TaskValidationError) {
@@ -35,5 +68,8 @@ export function validateTaskRequest(req: any, res: any, next: any) {
 }
 
 export default {
+  taskRequestSchema,
+  runQuerySchema,
+  getMaxRunWaitMs,
   validateTaskRequest
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+import Joi from 'joi';
+import { validateSchema } from '../../utils/validation';
+import { TaskValidationError } from '../../core/errors';
+
+/**
+ * Joi schema for workflow run request.
+ * The definition itself is validated by the workflow runner.
+ */
+export const workflowRequestSchema = Joi.object({
+  workflow: Joi.object().required(),
+  brand: Joi.string().optional().min(1).max(100),
+  input: Joi.object().optional().default({}),
+  priority: Joi.string()
+    .optional()
+    .valid('highest', 'high', 'medium', 'low', 'lowest')
+    .default('medium'),
+});
+
+/**
+ * Middleware to validate workflow run request
+ */
+export function validateWorkflowRequest(req: any, res: any, next: any) {
+  try {
+    const validatedData = validateSchema(req.body, workflowRequestSchema);
+    req.body = validatedData;
+    next();
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      return res.status(400).json({
+        status: 'error',
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+        details: error.details,
+      });
+    }
+    next(error);
+  }
+}
+
+export default {
+  workflowRequestSchema,
+  validateWorkflowRequest,
+};
@@ -1,4 +1,4 @@
-import { getSupabaseClient } from '../db/client';
+import { getStorage } from '../db';
 import { BrandConfigError } from '../core/errors';
 import { AgentLogger } from '../core/logger';
 import { brandConfigs } from './settings';
@@ -7,7 +7,6 @@ import { brandConfigSchema } from './schema';
 
 export class BrandConfig {
   private configCache: Map<string, any> = new Map();
-  private db = getSupabaseClient();
   private logger = new AgentLogger('BrandConfig');
   
   constructor() {
@@ -27,17 +26,8 @@ export class BrandConfig {
     }
     
     try {
-      // Fetch from database
-      const { data, error } = await this.db
-        .from('brands')
-        .select('*')
-        .eq('key', brandKey)
-        .single();
-      
-      if (error) {
-        this.logger.error(`Failed to get brand configuration: ${error.message}`, { brandKey });
-        throw new BrandConfigError(`Failed to get brand configuration: ${error.message}`);
-      }
+      // Fetch from storage
+      const data = await getStorage().brands.findByKey(brandKey);
       
       if (!data) {
         // If not found in database, check if we have a default configuration
@@ -76,28 +66,17 @@ export class BrandConfig {
       // Validate the configuration against the schema
       const validatedConfig = validateSchema(config, brandConfigSchema);
       
+      const storage = getStorage();
+
       // Check if brand already exists
-      const { data, error: checkError } = await this.db
-        .from('brands')
-        .select('id')
-        .eq('key', validatedConfig.key)
-        .single();
+      const existing = await storage.brands.findByKey(validatedConfig.key);
       
-      if (!checkError && data) {
+      if (existing) {
         throw new BrandConfigError(`Brand with key '${validatedConfig.key}' already exists`);
       }
       
-      // Insert into database
-      const { error } = await this.db
-        .from('brands')
-        .insert(validatedConfig);
-      
-      if (error) {
-        this.logger.error(`Failed to create brand configuration: ${error.message}`, { 
-          brandKey: validatedConfig.key 
-        });
-        throw new BrandConfigError(`Failed to create brand configuration: ${error.message}`);
-      }
+      // Insert into storage
+      await storage.brands.create(validatedConfig);
       
       // Update cache
       this.configCache.set(validatedConfig.key, validatedConfig);
@@ -120,15 +99,7 @@ export class BrandConfig {
       // Validate the configuration against the schema
       const validatedConfig = validateSchema({...config, key: brandKey}, brandConfigSchema);
       
-      const { error } = await this.db
-        .from('brands')
-        .update(validatedConfig)
-        .eq('key', brandKey);
-      
-      if (error) {
-        this.logger.error(`Failed to update brand configuration: ${error.message}`, { brandKey });
-        throw new BrandConfigError(`Failed to update brand configuration: ${error.message}`);
-      }
+      await getStorage().brands.update(brandKey, validatedConfig);
       
       // Update cache
       this.configCache.set(brandKey, validatedConfig);
@@ -184,16 +155,7 @@ export class BrandConfig {
    */
   public async getAllBrands(): Promise<any[]> {
     try {
-      const { data, error } = await this.db
-        .from('brands')
-        .select('*');
-      
-      if (error) {
-        this.logger.error(`Failed to get brands: ${error.message}`);
-        throw new BrandConfigError(`Failed to get brands: ${error.message}`);
-      }
-      
-      return data || [];
+      return await getStorage().brands.list();
     } catch (error) {
       if (error instanceof BrandConfigError) {
         throw error;
@@ -211,16 +173,9 @@ export class BrandConfig {
     
     try {
       // Get all existing brands
-      const { data, error } = await this.db
-        .from('brands')
-        .select('key');
-      
-      if (error) {
-        this.logger.error(`Failed to get existing brands: ${error.message}`);
-        throw error;
-      }
+      const data = await getStorage().brands.list();
       
-      const existingBrands = new Set((data || []).map(b => b.key));
+      const existingBrands = new Set(data.map(b => b.key));
       
       // Create any missing brands
       for (const [key, config] of Object.entries(brandConfigs)) {
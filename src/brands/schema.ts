@@ -1,4 +1,49 @@
 import Joi from 'joi';
+import { parseCron } from '../scheduler/cron';
+import { isValidVersionRange } from '../utils/version';
+
+/**
+ * Schema for a cron expression, e.g. "0 6 * * *" or "@daily"
+ */
+export const cronExpressionSchema = Joi.string().custom(value => {
+  parseCron(value);
+  return value;
+}, 'cron expression');
+
+/**
+ * Schema for a recurring task declared in a brand configuration
+ */
+export const brandScheduleSchema = Joi.object({
+  id: Joi.string().required().pattern(/^[a-zA-Z0-9_-]+$/),
+  cron: cronExpressionSchema.required(),
+  task: Joi.string().required(),
+  parameters: Joi.object().default({}),
+  priority: Joi.string().valid('highest', 'high', 'medium', 'low', 'lowest'),
+  enabled: Joi.boolean().default(true),
+  // What to do with runs that were due while the scheduler was down
+  missedRunPolicy: Joi.string().valid('skip', 'runOnce', 'runAll').default('runOnce')
+});
+
+/**
+ * How the router picks among equally preferred agents
+ */
+export const routingStrategySchema = Joi.string().valid('priority', 'round-robin', 'least-loaded');
+
+/**
+ * Schema for the agent selection rule of one task type
+ */
+export const routingRuleSchema = Joi.object({
+  // Name of the agent to use when it is available
+  agent: Joi.string(),
+  // Versions the agent must match, e.g. ">=1.2.0 <2.0.0" or "^1.2.0"
+  version: Joi.string().custom(value => {
+    if (!isValidVersionRange(value)) {
+      throw new Error('must be a version range such as ">=1.2.0 <2.0.0" or "^1.2.0"');
+    }
+    return value;
+  }, 'version range'),
+  strategy: routingStrategySchema
+});
 
 /**
  * Schema for brand configuration validation
@@ -51,7 +96,9 @@ export const brandConfigSchema = Joi.object({
     default: Joi.object({
       priority: Joi.string().valid('highest', 'high', 'medium', 'low', 'lowest').default('medium'),
       timeout: Joi.number().default(60000),
-      retries: Joi.number().default(3)
+      retries: Joi.number().default(3),
+      // How long results of fingerprinted tasks are reused; 0 disables the cache
+      cacheTtlMs: Joi.number().integer().min(0)
     }).default({
       priority: 'medium',
       timeout: 60000,
@@ -65,6 +112,7 @@ export const brandConfigSchema = Joi.object({
         priority: Joi.string().valid('highest', 'high', 'medium', 'low', 'lowest'),
         timeout: Joi.number(),
         retries: Joi.number(),
+        cacheTtlMs: Joi.number().integer().min(0),
         parameters: Joi.object()
       })
     ).default({})
@@ -77,6 +125,24 @@ export const brandConfigSchema = Joi.object({
     taskOverrides: {}
   }),
   
+  // Agent selection: a default strategy and rules per task type
+  routing: Joi.object({
+    strategy: routingStrategySchema,
+    tasks: Joi.object().pattern(Joi.string(), routingRuleSchema).default({})
+  }),
+
+  // Webhook callback delivery
+  webhooks: Joi.object({
+    // HMAC secret used to sign callbacks for this brand
+    secret: Joi.string().min(16),
+    maxAttempts: Joi.number().integer().min(1).max(20),
+    backoffMs: Joi.number().integer().min(0),
+    timeoutMs: Joi.number().integer().min(1000)
+  }),
+
+  // Recurring tasks
+  schedules: Joi.array().items(brandScheduleSchema).unique('id').default([]),
+
   // Brand-specific custom data
   customData: Joi.object().default({})
 }).required();
@@ -93,6 +159,10 @@ export const brandTaskRequestSchema = Joi.object({
 }).required();
 
 export default {
+  cronExpressionSchema,
+  brandScheduleSchema,
+  routingStrategySchema,
+  routingRuleSchema,
   brandConfigSchema,
   brandTaskRequestSchema
 };
\ No newline at end of file
@@ -41,6 +41,16 @@ export const edmShuffleConfig = {
     }
   },
   
+  schedules: [
+    {
+      id: 'weekly-playlist',
+      cron: '0 9 * * mon',
+      task: 'generateWeeklyPlaylist',
+      // Enable once an agent provides this task
+      enabled: false
+    }
+  ],
+
   customData: {
     genres: ['house', 'techno', 'trance', 'dubstep', 'drum-and-bass', 'ambient', 'hardstyle'],
     audioPlatforms: ['spotify', 'soundcloud', 'beatport', 'bandcamp'],
@@ -40,6 +40,16 @@ export const mysticArcanaConfig = {
     }
   },
   
+  schedules: [
+    {
+      id: 'daily-horoscope',
+      cron: '0 6 * * *',
+      task: 'generateDailyHoroscope',
+      // Enable once an agent provides this task
+      enabled: false
+    }
+  ],
+
   customData: {
     decks: ['rider-waite', 'thoth', 'marseille'],
     zodiacSigns: ['aries', 'taurus', 'gemini', 'cancer', 'leo', 'virgo', 'libra', 'scorpio', 'sagittarius', 'capricorn', 'aquarius', 'pisces'],
@@ -0,0 +1,71 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileValidatorAgent } from '../agents';
+import { metricsManager } from '../core/metrics';
+import { MemoryQueueBackend, taskQueue, taskRouter } from '../orchestrator';
+import { output } from './commands';
+import { run } from './index';
+
+let tempDir: string;
+let stdout: string[];
+let stderr: string[];
+
+beforeAll(async () => {
+  taskQueue.setBackend(new MemoryQueueBackend());
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-hub-cli-'));
+});
+
+afterAll(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(() => {
+  stdout = [];
+  stderr = [];
+  jest.spyOn(output, 'out').mockImplementation(text => stdout.push(text));
+  jest.spyOn(output, 'err').mockImplementation(text => stderr.push(text));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('agent-hub CLI', () => {
+  it('should report each invalid field of a brand config file', async () => {
+    const file = path.join(tempDir, 'brands.json');
+    await fs.writeFile(
+      file,
+      JSON.stringify([
+        { key: 'goodBrand', name: 'Good Brand', basePath: '/brands/good' },
+        { key: 'badBrand' },
+      ]),
+    );
+
+    expect(await run(['brands', 'validate', file])).toBe(1);
+    expect(stderr).toEqual([
+      'invalid: badBrand',
+      '  name: "name" is required',
+      '  basePath: "basePath" is required',
+    ]);
+    expect(stdout).toEqual(['1 valid, 1 invalid']);
+  });
+
+  it('should validate a local directory and print a summary', async () => {
+    jest
+      .spyOn(taskRouter, 'routeTask')
+      .mockResolvedValue({ agentId: fileValidatorAgent.getInfo().id, taskConfig: {} });
+    await fs.writeFile(path.join(tempDir, 'deck.json'), '{"cards": []}');
+
+    expect(await run(['validate-dir', tempDir])).toBe(0);
+    expect(stdout.join('\n')).toContain(`PASS ${tempDir}`);
+  });
+
+  it('should exit with usage for unknown commands and options', async () => {
+    expect(await run(['launch'])).toBe(2);
+    expect(await run(['agents', '--colour'])).toBe(2);
+    expect(stderr[0]).toContain('Unknown command: launch');
+  });
+});
@@ -0,0 +1,341 @@
+import * as fs from 'fs/promises';
+import { registerAgents } from '../agents';
+import { brandConfig, brandConfigSchema } from '../brands';
+import { TaskValidationError } from '../core/errors';
+import { MemoryStorage, setStorage } from '../db';
+import { taskExecutor } from '../orchestrator';
+import { isTerminalStatus } from '../orchestrator/events';
+import { initializeRegistry, registry } from '../registry';
+import { getPluginConfig, pluginManager } from '../registry/plugins';
+import { validateSchema } from '../utils/validation';
+import { formatDirectoryValidation, formatDuplicates, formatLogEntry } from './format';
+
+export interface SubmitOptions {
+  brand?: string;
+  /** Parameters as a JSON string */
+  params?: string;
+  paramsFile?: string;
+  priority?: string;
+  /** Wait for the execution to finish and print its result */
+  wait?: boolean;
+  /** Run in this process without recording or queueing the task */
+  local?: boolean;
+  /** Run even if a cached result matches */
+  force?: boolean;
+  timeoutMs?: number;
+}
+
+export interface LogsOptions {
+  level?: string;
+  follow?: boolean;
+  pollIntervalMs?: number;
+}
+
+export interface LocalRunOptions {
+  recursive?: boolean;
+  /** Compare file contents as well as sizes (findDuplicateFiles only) */
+  content?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Output is written through these so tests can capture it
+ */
+export const output = {
+  out: (text: string) => process.stdout.write(`${text}\n`),
+  err: (text: string) => process.stderr.write(`${text}\n`),
+};
+
+async function readJsonFile(file: string): Promise<any> {
+  const content = await fs.readFile(file, 'utf8');
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+async function readParameters(options: SubmitOptions): Promise<Record<string, any>> {
+  if (options.paramsFile) {
+    return readJsonFile(options.paramsFile);
+  }
+
+  try {
+    return options.params ? JSON.parse(options.params) : {};
+  } catch (error) {
+    throw new Error(`--params is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Print validation details one per line
+ */
+function printValidationDetails(details: any[] = []): void {
+  for (const detail of details) {
+    output.err(`  ${detail.field || detail.path.join('.')}: ${detail.message}`);
+  }
+}
+
+/**
+ * Submit a task, or run it in-process with --local
+ */
+export async function submitCommand(taskType: string, options: SubmitOptions): Promise<number> {
+  const parameters = await readParameters(options);
+  const params = {
+    taskType,
+    brand: options.brand,
+    parameters,
+    priority: options.priority,
+    force: options.force,
+  };
+
+  await initializeRegistry();
+
+  try {
+    if (options.local) {
+      const result = await taskExecutor.runTaskInProcess(params);
+      output.out(JSON.stringify(result, null, 2));
+      return 0;
+    }
+
+    const executionId = await taskExecutor.submitTask(params);
+    output.out(executionId);
+
+    if (!options.wait) {
+      return 0;
+    }
+
+    const record = await taskExecutor.waitForCompletion(executionId, {
+      timeoutMs: options.timeoutMs,
+    });
+
+    if (!record) {
+      output.err(`Execution ${executionId} is still running`);
+      return 1;
+    }
+
+    output.out(`Status: ${record.status}`);
+    output.out(JSON.stringify(record.result ?? record.error, null, 2));
+    return record.status === 'completed' ? 0 : 1;
+  } catch (error) {
+    if (error instanceof TaskValidationError) {
+      output.err(error.message);
+      printValidationDetails(error.details);
+      return 1;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Print the logs of an execution; with --follow keep printing until it finishes
+ */
+export async function logsCommand(executionId: string, options: LogsOptions): Promise<number> {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const page = await taskExecutor.getExecutionLogs(executionId, {
+      level: options.level,
+      limit: 500,
+      cursor,
+    });
+
+    page.logs.forEach(entry => output.out(formatLogEntry(entry)));
+    cursor = page.nextCursor || undefined;
+
+    if (page.hasMore) {
+      continue;
+    }
+
+    if (!options.follow || isTerminalStatus(page.executionStatus)) {
+      return 0;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+/**
+ * List registered agents and the task types they run
+ */
+export async function agentsCommand(options: { json?: boolean }): Promise<number> {
+  await registerAllAgents();
+  const agents = registry.getAllAgents().map(agent => agent.getInfo());
+
+  if (options.json) {
+    output.out(JSON.stringify(agents, null, 2));
+    return 0;
+  }
+
+  for (const agent of agents) {
+    output.out(`${agent.name} v${agent.version} (${agent.id})`);
+    output.out(`  ${agent.description}`);
+    output.out(`  tasks: ${agent.capabilities.join(', ')}`);
+  }
+
+  return 0;
+}
+
+/**
+ * Print the schema errors of each invalid configuration and return how many there were
+ */
+function reportInvalidBrands(configs: any[]): number {
+  let invalid = 0;
+
+  for (const config of configs) {
+    try {
+      validateSchema(config, brandConfigSchema);
+    } catch (error) {
+      if (!(error instanceof TaskValidationError)) {
+        throw error;
+      }
+
+      invalid++;
+      output.err(`invalid: ${config?.key ?? '(no key)'}`);
+      printValidationDetails(error.details);
+    }
+  }
+
+  return invalid;
+}
+
+/**
+ * Check a brand configuration file against brandConfigSchema
+ */
+export async function brandValidateCommand(file: string): Promise<number> {
+  const configs = [].concat(await readJsonFile(file)) as any[];
+  const invalid = reportInvalidBrands(configs);
+
+  output.out(`${configs.length - invalid} valid, ${invalid} invalid`);
+  return invalid > 0 ? 1 : 0;
+}
+
+/**
+ * Write brand configurations as JSON, to a file or stdout
+ */
+export async function brandExportCommand(options: {
+  brand?: string;
+  out?: string;
+}): Promise<number> {
+  const keys = options.brand
+    ? [options.brand]
+    : (await brandConfig.getAllBrands()).map(brand => brand.key);
+
+  const configs = [];
+  for (const key of keys) {
+    configs.push(await brandConfig.getBrandConfig(key));
+  }
+
+  const json = JSON.stringify(options.brand ? configs[0] : configs, null, 2);
+
+  if (options.out) {
+    await fs.writeFile(options.out, `${json}\n`);
+    output.err(`Exported ${configs.length} brand(s) to ${options.out}`);
+  } else {
+    output.out(json);
+  }
+
+  return 0;
+}
+
+/**
+ * Create brands from a file holding one configuration or an array of them.
+ * Existing brands are skipped unless overwrite is set.
+ */
+export async function brandImportCommand(
+  file: string,
+  options: { overwrite?: boolean },
+): Promise<number> {
+  const configs = [].concat(await readJsonFile(file)) as any[];
+
+  // Check the whole file before writing anything
+  if (reportInvalidBrands(configs) > 0) {
+    output.err('Nothing imported');
+    return 1;
+  }
+
+  const existing = new Set((await brandConfig.getAllBrands()).map(brand => brand.key));
+
+  for (const config of configs) {
+    if (!existing.has(config.key)) {
+      await brandConfig.createBrandConfig(config);
+      output.out(`created: ${config.key}`);
+    } else if (options.overwrite) {
+      await brandConfig.updateBrandConfig(config.key, config);
+      output.out(`updated: ${config.key}`);
+    } else {
+      output.out(`skipped: ${config.key} (already exists, use --overwrite)`);
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Register the built-in agents and those from plugins, without watching for changes
+ */
+async function registerAllAgents(): Promise<void> {
+  registerAgents();
+  await pluginManager.loadPlugins({ ...getPluginConfig(), hotReload: false });
+}
+
+/**
+ * Run a local task in-process against in-memory storage, so no database is needed
+ */
+async function runLocally(taskType: string, parameters: Record<string, any>): Promise<any> {
+  setStorage(new MemoryStorage());
+  await registerAllAgents();
+  await registry.initializeAgents();
+
+  try {
+    return await taskExecutor.runTaskInProcess({ taskType, parameters });
+  } finally {
+    await registry.shutdownAgents();
+  }
+}
+
+/**
+ * Validate every file in a local directory
+ */
+export async function validateDirCommand(
+  directoryPath: string,
+  options: LocalRunOptions,
+): Promise<number> {
+  const result = await runLocally('validateDirectory', {
+    directoryPath,
+    recursive: options.recursive,
+  });
+
+  output.out(options.json ? JSON.stringify(result, null, 2) : formatDirectoryValidation(result));
+  return result.valid ? 0 : 1;
+}
+
+/**
+ * Find duplicate files across local directories
+ */
+export async function findDuplicatesCommand(
+  directories: string[],
+  options: LocalRunOptions,
+): Promise<number> {
+  const result = await runLocally('findDuplicateFiles', {
+    directories,
+    recursive: options.recursive,
+    compareContent: options.content,
+  });
+
+  output.out(options.json ? JSON.stringify(result, null, 2) : formatDuplicates(result));
+  return 0;
+}
+
+export default {
+  submitCommand,
+  logsCommand,
+  agentsCommand,
+  brandValidateCommand,
+  brandExportCommand,
+  brandImportCommand,
+  validateDirCommand,
+  findDuplicatesCommand,
+};
@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+
+/**
+ * Load .env before anything else is imported. Console logging is turned off so it does
+ * not mix with command output, unless --verbose is passed.
+ */
+dotenv.config();
+
+if (!process.argv.includes('--verbose')) {
+  process.env.LOG_TO_CONSOLE = 'false';
+}
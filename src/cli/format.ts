@@ -0,0 +1,85 @@
+import type { DuplicateDetectionResult } from '../agents/duplicate-detector';
+import type { DirectoryValidationResult } from '../agents/file-validator';
+import type { AgentLogRecord } from '../db';
+
+/**
+ * Format a byte count as a short human-readable size
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export function formatLogEntry(entry: AgentLogRecord): string {
+  const metadata =
+    entry.metadata && Object.keys(entry.metadata).length > 0
+      ? ` ${JSON.stringify(entry.metadata)}`
+      : '';
+
+  return `${entry.timestamp} ${entry.level.toUpperCase().padEnd(5)} ${entry.message}${metadata}`;
+}
+
+export function formatDirectoryValidation(result: DirectoryValidationResult): string {
+  const lines = [
+    `${result.valid ? 'PASS' : 'FAIL'} ${result.directoryPath} (${result.fileCount} files)`,
+  ];
+
+  for (const error of result.errors) {
+    lines.push(`  error: ${error}`);
+  }
+
+  for (const warning of result.warnings) {
+    lines.push(`  warning: ${warning}`);
+  }
+
+  // Only files with findings are listed
+  for (const file of result.fileResults) {
+    if (file.errors.length === 0 && file.warnings.length === 0) {
+      continue;
+    }
+
+    lines.push(`  ${file.valid ? 'ok  ' : 'FAIL'} ${file.file}`);
+    lines.push(...file.errors.map(error => `         error: ${error}`));
+    lines.push(...file.warnings.map(warning => `         warning: ${warning}`));
+  }
+
+  const failed = result.fileResults.filter(file => !file.valid).length;
+  lines.push(`${result.fileCount - failed} passed, ${failed} failed`);
+
+  return lines.join('\n');
+}
+
+export function formatDuplicates(result: DuplicateDetectionResult): string {
+  if (result.duplicateGroups.length === 0) {
+    return `No duplicates among ${result.totalFilesScanned} files`;
+  }
+
+  const lines: string[] = [];
+
+  result.duplicateGroups.forEach((group, index) => {
+    lines.push(`Group ${index + 1}: ${group.files.length} files, ${formatBytes(group.size)} each`);
+    lines.push(...group.files.map(file => `  ${file.path}`));
+  });
+
+  lines.push(
+    `${result.totalDuplicatesFound} duplicates among ${result.totalFilesScanned} files, ` +
+      `${formatBytes(result.totalSpaceSaveable)} can be freed`,
+  );
+
+  return lines.join('\n');
+}
+
+export default {
+  formatBytes,
+  formatLogEntry,
+  formatDirectoryValidation,
+  formatDuplicates,
+};
@@ -0,0 +1,170 @@
+#!/usr/bin/env node
+// Must come first: it configures logging before the logger is created
+import './env';
+import { parseArgs } from 'util';
+import {
+  agentsCommand,
+  brandExportCommand,
+  brandImportCommand,
+  brandValidateCommand,
+  findDuplicatesCommand,
+  logsCommand,
+  output,
+  submitCommand,
+  validateDirCommand,
+} from './commands';
+
+export const usage = `Usage: agent-hub <command> [options]
+
+Options:
+  --verbose                   Print framework logs to the console
+
+Commands:
+  submit <task>               Submit a task and print its execution ID
+      --brand <key>           Apply the brand's task settings
+      --params <json>         Task parameters as JSON
+      --params-file <file>    Read task parameters from a JSON file
+      --priority <priority>   highest, high, medium, low or lowest
+      --wait                  Wait for the task to finish and print its result
+      --timeout <ms>          Give up waiting after this long
+      --local                 Run in this process without the queue and print the result
+      --force                 Run even if a cached result matches
+  logs <executionId>          Print execution logs
+      --level <level>         Only this level and more severe (error, warn, info, debug)
+      --follow                Keep printing new entries until the task finishes
+  agents                      List agents and the tasks they run
+      --json                  Print as JSON
+  brands validate <file>      Check a brand config file (one config or an array)
+  brands export               Print every brand config as JSON
+      --brand <key>           Only this brand
+      --out <file>            Write to a file instead of stdout
+  brands import <file>        Create the brands in a config file
+      --overwrite             Replace brands that already exist
+  validate-dir <dir>          Validate the files in a local directory
+      --recursive             Include subdirectories
+      --json                  Print the raw result
+  find-duplicates <dir...>    Find duplicate files in local directories
+      --content               Compare file contents as well as sizes
+      --json                  Print the raw result
+`;
+
+const optionSpecs = {
+  brand: { type: 'string' },
+  params: { type: 'string' },
+  'params-file': { type: 'string' },
+  priority: { type: 'string' },
+  wait: { type: 'boolean' },
+  timeout: { type: 'string' },
+  local: { type: 'boolean' },
+  force: { type: 'boolean' },
+  level: { type: 'string' },
+  follow: { type: 'boolean' },
+  json: { type: 'boolean' },
+  out: { type: 'string' },
+  overwrite: { type: 'boolean' },
+  recursive: { type: 'boolean' },
+  content: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * Thrown for command lines that cannot be run; the message is printed with the usage
+ */
+class UsageError extends Error {}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+/**
+ * Run the CLI with the given arguments (without the node and script paths) and
+ * return the exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      options: optionSpecs,
+      allowPositionals: true,
+    });
+    const [command, ...args] = positionals;
+
+    if (values.help || !command) {
+      output.out(usage);
+      return 0;
+    }
+
+    switch (command) {
+      case 'submit':
+        return await submitCommand(requireArg(args[0], 'task type'), {
+          brand: values.brand,
+          params: values.params,
+          paramsFile: values['params-file'],
+          priority: values.priority,
+          wait: values.wait,
+          timeoutMs: values.timeout ? Number(values.timeout) : undefined,
+          local: values.local,
+          force: values.force,
+        });
+
+      case 'logs':
+        return await logsCommand(requireArg(args[0], 'execution ID'), {
+          level: values.level,
+          follow: values.follow,
+        });
+
+      case 'agents':
+        return await agentsCommand({ json: values.json });
+
+      case 'brands':
+        switch (args[0]) {
+          case 'validate':
+            return await brandValidateCommand(requireArg(args[1], 'config file'));
+          case 'export':
+            return await brandExportCommand({ brand: values.brand, out: values.out });
+          case 'import':
+            return await brandImportCommand(requireArg(args[1], 'config file'), {
+              overwrite: values.overwrite,
+            });
+          default:
+            throw new UsageError(`Unknown brands command: ${args[0] ?? '(none)'}`);
+        }
+
+      case 'validate-dir':
+        return await validateDirCommand(requireArg(args[0], 'directory'), {
+          recursive: values.recursive,
+          json: values.json,
+        });
+
+      case 'find-duplicates':
+        requireArg(args[0], 'directory');
+        return await findDuplicatesCommand(args, { content: values.content, json: values.json });
+
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    // parseArgs reports unknown or malformed options with ERR_PARSE_ARGS_* codes
+    if (error instanceof UsageError || (error as any).code?.startsWith('ERR_PARSE_ARGS')) {
+      output.err(`${(error as Error).message}\n\n${usage}`);
+      return 2;
+    }
+
+    output.err(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  // Exit explicitly: queue and storage connections would otherwise keep the process alive
+  run(process.argv.slice(2)).then(code => process.exit(code));
+}
+
+export default {
+  run,
+  usage,
+};
@@ -0,0 +1,81 @@
+import { AgentHubApiError, AgentHubTimeoutError, createClient } from './index';
+
+const fetchMock = jest.fn();
+
+function reply(status: number, body: any) {
+  return { ok: status < 400, status, json: async () => body };
+}
+
+const client = createClient({
+  baseUrl: 'http://hub.test/',
+  apiKey: 'key-1',
+  fetch: fetchMock as any,
+});
+
+beforeEach(() => {
+  fetchMock.mockReset();
+});
+
+describe('AgentHubClient', () => {
+  it('should submit tasks with the API key', async () => {
+    fetchMock.mockResolvedValue(reply(202, { executionId: 'execution-1', status: 'accepted' }));
+
+    const response = await client.submitTask({
+      task: 'validateTarotDeck',
+      brand: 'mysticArcana',
+      parameters: { deckId: 'thoth' },
+    });
+
+    const [url, request] = fetchMock.mock.calls[0];
+    expect(response.executionId).toBe('execution-1');
+    expect(url).toBe('http://hub.test/api/agent/run');
+    expect(request.method).toBe('POST');
+    expect(request.headers['x-api-key']).toBe('key-1');
+    expect(JSON.parse(request.body)).toMatchObject({ task: 'validateTarotDeck' });
+  });
+
+  it('should raise API errors with their code and details', async () => {
+    const details = [{ field: 'parameters.deckId', message: '"deckId" is required' }];
+    fetchMock.mockResolvedValue(
+      reply(400, { status: 'error', code: 'VALIDATION_ERROR', message: 'Invalid', details }),
+    );
+
+    const error = await client.getStatus('execution-1').catch(err => err);
+
+    expect(error).toBeInstanceOf(AgentHubApiError);
+    expect(error).toMatchObject({ status: 400, code: 'VALIDATION_ERROR', details });
+  });
+
+  it('should poll with backoff until the execution finishes', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply(200, { executionId: 'execution-1', status: 'pending' }))
+      .mockResolvedValueOnce(reply(200, { executionId: 'execution-1', status: 'running' }))
+      .mockResolvedValueOnce(
+        reply(200, { executionId: 'execution-1', status: 'completed', result: { valid: true } }),
+      );
+
+    const response = await client.waitForCompletion<'validateTarotDeck'>('execution-1', {
+      initialIntervalMs: 1,
+    });
+
+    expect(response.result?.valid).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://hub.test/api/agent/result/execution-1');
+  });
+
+  it('should give up waiting after the timeout', async () => {
+    fetchMock.mockResolvedValue(reply(200, { executionId: 'execution-1', status: 'running' }));
+
+    await expect(
+      client.waitForCompletion('execution-1', { timeoutMs: 20, initialIntervalMs: 5 }),
+    ).rejects.toBeInstanceOf(AgentHubTimeoutError);
+  });
+
+  it('should unwrap brand responses', async () => {
+    fetchMock.mockResolvedValue(
+      reply(200, { status: 'success', brands: [{ key: 'edmShuffle', name: 'EDM Shuffle' }] }),
+    );
+
+    expect(await client.listBrands()).toEqual([{ key: 'edmShuffle', name: 'EDM Shuffle' }]);
+  });
+});
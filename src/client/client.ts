@@ -0,0 +1,182 @@
+import { AgentHubApiError, AgentHubTimeoutError } from './errors';
+import {
+  BrandConfig,
+  BrandMutationResponse,
+  BrandSummary,
+  CancelTaskResponse,
+  ExecutionStatus,
+  SubmitTaskRequest,
+  SubmitTaskResponse,
+  TaskResultResponse,
+  TaskStatusResponse,
+  TERMINAL_STATUSES,
+} from './types';
+
+export interface AgentHubClientOptions {
+  /** Server origin, e.g. http://localhost:3000; the /api prefix is added */
+  baseUrl: string;
+  /** Sent as x-api-key */
+  apiKey?: string;
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+export interface WaitOptions {
+  /** Give up after this long; defaults to 5 minutes */
+  timeoutMs?: number;
+  /** First delay between polls; defaults to 500ms */
+  initialIntervalMs?: number;
+  /** Longest delay between polls; defaults to 5s */
+  maxIntervalMs?: number;
+  /** Multiplier applied to the delay after each poll; defaults to 1.5 */
+  backoffFactor?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Typed client for the agent hub HTTP API
+ */
+export class AgentHubClient {
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: AgentHubClientOptions) {
+    this.baseUrl = `${options.baseUrl.replace(/\/+$/, '')}/api`;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Submit a task; resolves once it is accepted, not when it finishes
+   */
+  public submitTask<T extends string>(request: SubmitTaskRequest<T>): Promise<SubmitTaskResponse> {
+    return this.request('POST', '/agent/run', request);
+  }
+
+  public getStatus(executionId: string): Promise<TaskStatusResponse> {
+    return this.request('GET', `/agent/status/${encodeURIComponent(executionId)}`);
+  }
+
+  /**
+   * Get the outcome of a task. Pass the task type to type the result, e.g.
+   * `getResult<'validateTarotDeck'>(id)`.
+   */
+  public getResult<T extends string = string>(executionId: string): Promise<TaskResultResponse<T>> {
+    return this.request('GET', `/agent/result/${encodeURIComponent(executionId)}`);
+  }
+
+  public cancelTask(executionId: string): Promise<CancelTaskResponse> {
+    return this.request('DELETE', `/agent/cancel/${encodeURIComponent(executionId)}`);
+  }
+
+  /**
+   * Poll with backoff until the execution reaches a final status, then return its result.
+   * Throws AgentHubTimeoutError if it is still running after `timeoutMs`.
+   */
+  public async waitForCompletion<T extends string = string>(
+    executionId: string,
+    options: WaitOptions = {},
+  ): Promise<TaskResultResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+    const maxIntervalMs = options.maxIntervalMs ?? 5000;
+    const backoffFactor = options.backoffFactor ?? 1.5;
+    const deadline = Date.now() + timeoutMs;
+    let intervalMs = options.initialIntervalMs ?? 500;
+
+    for (;;) {
+      options.signal?.throwIfAborted();
+
+      const response = await this.getResult<T>(executionId);
+      if (TERMINAL_STATUSES.includes(response.status as ExecutionStatus)) {
+        return response;
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new AgentHubTimeoutError(executionId, timeoutMs);
+      }
+
+      await sleep(Math.min(intervalMs, remainingMs), options.signal);
+      intervalMs = Math.min(intervalMs * backoffFactor, maxIntervalMs);
+    }
+  }
+
+  public async listBrands(): Promise<BrandSummary[]> {
+    const body = await this.request<{ brands: BrandSummary[] }>('GET', '/brands');
+    return body.brands;
+  }
+
+  /**
+   * Get a brand's configuration; the webhook secret is redacted
+   */
+  public async getBrand(key: string): Promise<BrandConfig> {
+    const body = await this.request<{ brand: BrandConfig }>(
+      'GET',
+      `/brands/${encodeURIComponent(key)}`,
+    );
+    return body.brand;
+  }
+
+  public createBrand(config: BrandConfig): Promise<BrandMutationResponse> {
+    return this.request('POST', '/brands', config);
+  }
+
+  /**
+   * Replace a brand's configuration
+   */
+  public updateBrand(key: string, config: BrandConfig): Promise<BrandMutationResponse> {
+    return this.request('PUT', `/brands/${encodeURIComponent(key)}`, config);
+  }
+
+  private async request<R>(method: string, path: string, body?: unknown): Promise<R> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    if (this.apiKey) {
+      headers['x-api-key'] = this.apiKey;
+    }
+
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new AgentHubApiError(response.status, data);
+    }
+
+    return data as R;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export default {
+  AgentHubClient,
+};
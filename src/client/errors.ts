@@ -0,0 +1,36 @@
+import type { ApiErrorBody } from './types';
+
+/**
+ * An error response from the hub API
+ */
+export class AgentHubApiError extends Error {
+  public status: number;
+  public code: string;
+  public details: any;
+
+  constructor(status: number, body: Partial<ApiErrorBody>) {
+    super(body.message || `Request failed with status ${status}`);
+    this.name = this.constructor.name;
+    this.status = status;
+    this.code = body.code || 'HTTP_ERROR';
+    this.details = body.details;
+  }
+}
+
+/**
+ * Waiting for an execution took longer than allowed; the execution itself keeps running
+ */
+export class AgentHubTimeoutError extends Error {
+  public executionId: string;
+
+  constructor(executionId: string, timeoutMs: number) {
+    super(`Execution ${executionId} did not finish within ${timeoutMs}ms`);
+    this.name = this.constructor.name;
+    this.executionId = executionId;
+  }
+}
+
+export default {
+  AgentHubApiError,
+  AgentHubTimeoutError,
+};
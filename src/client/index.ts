@@ -0,0 +1,15 @@
+import { AgentHubClient, AgentHubClientOptions } from './client';
+import { AgentHubApiError, AgentHubTimeoutError } from './errors';
+import { TERMINAL_STATUSES } from './types';
+
+/**
+ * Create a client for the agent hub API
+ */
+export function createClient(options: AgentHubClientOptions): AgentHubClient {
+  return new AgentHubClient(options);
+}
+
+export { AgentHubClient, AgentHubApiError, AgentHubTimeoutError, TERMINAL_STATUSES };
+export type { AgentHubClientOptions };
+export type { WaitOptions } from './client';
+export type * from './types';
@@ -0,0 +1,207 @@
+import type { DuplicateDetectionResult } from '../agents/duplicate-detector';
+import type { DirectoryValidationResult, FileValidationResult } from '../agents/file-validator';
+import type { MessageTemplateValidationResult } from '../agents/message-validator';
+import type { PlaylistValidationResult } from '../agents/playlist-validator';
+import type { TarotDeckValidationResult } from '../agents/tarot-validator';
+
+export type {
+  DirectoryValidationResult,
+  DuplicateDetectionResult,
+  FileValidationResult,
+  MessageTemplateValidationResult,
+  PlaylistValidationResult,
+  TarotDeckValidationResult,
+};
+
+/**
+ * A value as it arrives over JSON: dates become ISO strings
+ */
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends Array<infer U>
+    ? Array<Serialized<U>>
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
+
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+export type ExecutionStatus =
+  | 'pending'
+  | 'running'
+  | 'retrying'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'timed_out';
+
+/**
+ * Statuses after which an execution no longer changes
+ */
+export const TERMINAL_STATUSES: ExecutionStatus[] = [
+  'completed',
+  'failed',
+  'cancelled',
+  'timed_out',
+];
+
+export interface ContentRule {
+  name: string;
+  type: 'regex';
+  pattern: string;
+  flags?: string;
+  action: 'warn' | 'error';
+}
+
+/**
+ * Parameters of the built-in task types
+ */
+export interface TaskParametersMap {
+  validateTarotDeck: { deckId: string; basePath?: string; validateImages?: boolean };
+  validatePlaylist: { playlistPath: string; validateMetadata?: boolean };
+  validateMessageTemplate: { templatePath?: string; templateContent?: string };
+  findDuplicateFiles: {
+    directories: string[];
+    recursive?: boolean;
+    compareContent?: boolean;
+    fileTypes?: string[];
+  };
+  validateFile: {
+    filePath: string;
+    rules?: ContentRule[];
+    maxSizeBytes?: number;
+    allowedExtensions?: string[];
+    requiredContent?: string | string[];
+  };
+  validateDirectory: { directoryPath: string; recursive?: boolean; patterns?: ContentRule[] };
+}
+
+/**
+ * Results of the built-in task types
+ */
+export interface TaskResultMap {
+  validateTarotDeck: TarotDeckValidationResult;
+  validatePlaylist: PlaylistValidationResult;
+  validateMessageTemplate: MessageTemplateValidationResult;
+  findDuplicateFiles: Serialized<DuplicateDetectionResult>;
+  validateFile: FileValidationResult;
+  validateDirectory: DirectoryValidationResult;
+}
+
+export type TaskParameters<T extends string> = T extends keyof TaskParametersMap
+  ? TaskParametersMap[T]
+  : Record<string, any>;
+
+export type TaskOutput<T extends string> = T extends keyof TaskResultMap ? TaskResultMap[T] : any;
+
+export interface SubmitTaskRequest<T extends string = string> {
+  task: T;
+  brand?: string;
+  parameters: TaskParameters<T>;
+  priority?: TaskPriority;
+  /** URL that receives a signed webhook when the task finishes */
+  callback?: string;
+  /** Repeating a key returns the original execution instead of running the task again */
+  idempotencyKey?: string;
+  /** Run even if a cached result matches the task's inputs */
+  force?: boolean;
+}
+
+export interface SubmitTaskResponse {
+  executionId: string;
+  status: string;
+  message: string;
+}
+
+export interface ExecutionProgress {
+  percent?: number;
+  stage?: string;
+  current?: number;
+  total?: number;
+  message?: string;
+  updatedAt: string;
+}
+
+export interface TaskStatusResponse {
+  executionId: string;
+  status: ExecutionStatus;
+  createdAt: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  progress: ExecutionProgress | null;
+  /** Set when the execution returned the result of an earlier one */
+  cached?: boolean;
+  cachedFrom?: string;
+}
+
+export interface TaskResultResponse<T extends string = string> {
+  executionId: string;
+  status: ExecutionStatus;
+  /** Present once the task has completed */
+  result?: TaskOutput<T> | null;
+  error?: string | null;
+  completedAt?: string | null;
+  /** Set while the task is still in progress */
+  message?: string;
+  /** Set when the execution returned the result of an earlier one */
+  cached?: boolean;
+  cachedFrom?: string;
+}
+
+export interface CancelTaskResponse {
+  executionId: string;
+  status: 'cancelled';
+  message: string;
+}
+
+export interface BrandSummary {
+  key: string;
+  name: string;
+  description: string | null;
+}
+
+export interface BrandTaskSettings {
+  priority?: TaskPriority;
+  timeout?: number;
+  retries?: number;
+  cacheTtlMs?: number;
+  parameters?: Record<string, any>;
+}
+
+export type RoutingStrategy = 'priority' | 'round-robin' | 'least-loaded';
+
+/**
+ * A brand configuration; see brandConfigSchema for every field
+ */
+export interface BrandConfig {
+  key: string;
+  name: string;
+  basePath: string;
+  description?: string;
+  apiUrl?: string;
+  validators?: Record<string, any>;
+  taskSettings?: {
+    default?: BrandTaskSettings;
+    taskOverrides?: Record<string, BrandTaskSettings>;
+  };
+  webhooks?: { secret?: string; maxAttempts?: number; backoffMs?: number; timeoutMs?: number };
+  schedules?: Array<Record<string, any>>;
+  routing?: {
+    strategy?: RoutingStrategy;
+    tasks?: Record<string, { agent?: string; version?: string; strategy?: RoutingStrategy }>;
+  };
+  customData?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface BrandMutationResponse {
+  status: 'success';
+  message: string;
+}
+
+export interface ApiErrorBody {
+  status: 'error';
+  code: string;
+  message: string;
+  details?: any;
+}
@@ -1,6 +1,8 @@
-import { SupabaseClient } from '@supabase/supabase-js';
-import { v4 as uuidv4 } from 'uuid';
-import { getSupabaseClient } from '../db/client';
+import Joi from 'joi';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { ExecutionProgress, ExecutionRecord, getStorage, StorageAdapter } from '../db';
+import { executionEvents, isTerminalStatus } from '../orchestrator/events';
+import { AgentFrameworkError, isRetryableError } from './errors';
 import { AgentLogger } from './logger';
 
 export interface AgentConfig {
@@ -8,8 +10,23 @@ export interface AgentConfig {
   description: string;
   version: string;
   capabilities: string[];
+  /** Joi schema for the parameters of each capability */
+  parameterSchemas?: Record<string, Joi.ObjectSchema>;
+  /** Defaults to a UUID derived from the name, so every process agrees on it */
+  id?: string;
+  /** Agents with a higher priority are preferred for the task types they share (default 0) */
+  priority?: number;
 }
 
+/**
+ * Version of the BaseAgent contract. Plugins declare the range they were built against
+ * with agentApiVersion; bump the major version when a change breaks existing agents.
+ */
+export const AGENT_API_VERSION = '1.0.0';
+
+// Namespace for agent IDs derived from agent names
+const AGENT_ID_NAMESPACE = '5b8f0f4e-3c1d-4f6a-9d2e-7a4c1b9e8f30';
+
 export interface TaskContext {
   executionId: string;
   taskType: string;
@@ -20,6 +37,27 @@ export interface TaskContext {
   brandConfig?: any;
   taskConfig?: any;
   metadata?: Record<string, any>;
+  /** Aborted when the task runs past its timeout */
+  signal?: AbortSignal;
+}
+
+/**
+ * What an agent sees of a task when fingerprinting it, before it runs
+ */
+export type FingerprintContext = Pick<TaskContext, 'taskType' | 'brand' | 'parameters' | 'brandConfig'>;
+
+/**
+ * Progress an agent reports while running a task; percent is derived from current/total if omitted
+ */
+export type ProgressUpdate = Omit<ExecutionProgress, 'updatedAt'>;
+
+/**
+ * Outcome of an agent health check
+ */
+export interface AgentHealth {
+  healthy: boolean;
+  message?: string;
+  details?: Record<string, any>;
 }
 
 export interface TaskResult {
@@ -29,6 +67,8 @@ export interface TaskResult {
     code: string;
     message: string;
     details?: Record<string, any>;
+    /** Whether running the task again may succeed */
+    retryable?: boolean;
   };
 }
 
@@ -41,17 +81,26 @@ export abstract class BaseAgent {
   protected description: string;
   protected version: string;
   protected capabilities: string[];
+  protected priority: number;
+  protected parameterSchemas: Record<string, Joi.ObjectSchema>;
   protected logger: AgentLogger;
-  protected db: SupabaseClient;
-  
+
   constructor(config: AgentConfig) {
-    this.id = uuidv4();
+    this.id = config.id || uuidv5(config.name, AGENT_ID_NAMESPACE);
     this.name = config.name;
     this.description = config.description;
     this.version = config.version;
     this.capabilities = config.capabilities;
+    this.priority = config.priority ?? 0;
+    this.parameterSchemas = config.parameterSchemas || {};
     this.logger = new AgentLogger(this.name);
-    this.db = getSupabaseClient();
+  }
+
+  /**
+   * Storage adapter used for execution state and activity logs
+   */
+  protected get storage(): StorageAdapter {
+    return getStorage();
   }
   
   /**
@@ -63,10 +112,52 @@ export abstract class BaseAgent {
       name: this.name,
       description: this.description,
       version: this.version,
-      capabilities: this.capabilities
+      capabilities: this.capabilities,
+      priority: this.priority
     };
   }
   
+  /**
+   * Returns the parameter schema declared for a task type, if any
+   */
+  public getParameterSchema(taskType: string): Joi.ObjectSchema | undefined {
+    return this.parameterSchemas[taskType];
+  }
+
+  /**
+   * Fingerprint of everything a task's output depends on: its parameters and the state of
+   * any files it reads. Results of tasks with equal fingerprints may be served from cache.
+   * Returns null, the default, for tasks whose results must not be cached.
+   */
+  public async getFingerprint(_context: FingerprintContext): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Prepare anything the agent needs before running tasks (connections, caches).
+   * Called by the registry on startup; agents whose initialize throws are not routed to
+   * and are retried on the next health check.
+   */
+  public async initialize(): Promise<void> {
+    // Nothing to prepare by default
+  }
+
+  /**
+   * Report whether the agent can run tasks right now. Agents that depend on external
+   * services should check them here; unhealthy agents are not routed to.
+   */
+  public async healthCheck(): Promise<AgentHealth> {
+    return { healthy: true };
+  }
+
+  /**
+   * Release what initialize acquired. Called by the registry on graceful shutdown,
+   * after the queue has stopped handing out tasks.
+   */
+  public async shutdown(): Promise<void> {
+    // Nothing to release by default
+  }
+
   /**
    * Checks if agent can execute a specific task type
    */
@@ -90,6 +181,40 @@ export abstract class BaseAgent {
     // Each agent implementation should extend this with specific validation
   }
   
+  /**
+   * Stop work on a task that has been aborted by throwing the abort reason.
+   * Long-running agents should call this between units of work.
+   */
+  protected throwIfAborted(context: TaskContext): void {
+    context.signal?.throwIfAborted();
+  }
+
+  /**
+   * Report progress on a task to stream subscribers and the execution record.
+   * Call at meaningful steps rather than per byte; each report is persisted.
+   */
+  protected async reportProgress(context: TaskContext, update: ProgressUpdate): Promise<void> {
+    const progress: ExecutionProgress = { ...update, updatedAt: new Date().toISOString() };
+
+    if (progress.percent === undefined && update.total) {
+      progress.percent = ((update.current || 0) / update.total) * 100;
+    }
+
+    if (progress.percent !== undefined) {
+      progress.percent = Math.min(100, Math.max(0, Math.round(progress.percent)));
+    }
+
+    executionEvents.emitProgress({ executionId: context.executionId, ...progress });
+
+    try {
+      await this.storage.executions.update(context.executionId, { progress });
+    } catch (error) {
+      this.logger.error(`Error saving task progress: ${(error as Error).message}`, {
+        executionId: context.executionId
+      });
+    }
+  }
+
   /**
    * Execute a task (must be implemented by derived agents)
    */
@@ -158,44 +283,45 @@ export abstract class BaseAgent {
         success: false,
         output: {},
         error: {
-          code: 'EXECUTION_ERROR',
+          // Framework errors, including those remote agents report, keep their own code
+          code: error instanceof AgentFrameworkError ? error.code : 'EXECUTION_ERROR',
           message: errorMessage,
-          details: { stack: error instanceof Error ? error.stack : undefined }
+          details: { stack: error instanceof Error ? error.stack : undefined },
+          retryable: isRetryableError(error)
         }
       };
     }
   }
   
   /**
-   * Updates the execution status in the database
+   * Updates the execution status in the database. Once the execution is
+   * terminal (for example timed out or cancelled by the executor) the write is
+   * skipped, so an agent finishing late cannot overwrite the recorded outcome.
    */
   protected async updateTaskStatus(executionId: string, status: string, result?: any, error?: string): Promise<void> {
     try {
-      const updateData: any = { status };
+      const execution = await this.storage.executions.findById(executionId);
+
+      if (execution && isTerminalStatus(execution.status)) {
+        this.logger.debug(`Skipping ${status} update for ${execution.status} execution`, { executionId });
+        return;
+      }
+
+      const changes: Partial<ExecutionRecord> = { status };
       
       if (result) {
-        updateData.result = result;
+        changes.result = result;
       }
       
       if (error) {
-        updateData.error = error;
+        changes.error = error;
       }
       
-      if (status === 'completed' || status === 'failed') {
-        updateData.completed_at = new Date().toISOString();
+      if (status === 'completed' || status === 'failed' || status === 'timed_out') {
+        changes.completedAt = new Date().toISOString();
       }
       
-      const { error: dbError } = await this.db
-        .from('task_executions')
-        .update(updateData)
-        .eq('id', executionId);
-      
-      if (dbError) {
-        this.logger.error(`Failed to update task status: ${dbError.message}`, {
-          executionId,
-          status
-        });
-      }
+      await this.storage.executions.update(executionId, changes);
     } catch (error) {
       this.logger.error(`Error updating task status: ${(error as Error).message}`, {
         executionId,
@@ -207,7 +333,11 @@ export abstract class BaseAgent {
   /**
    * Gets brand-specific configuration value
    */
-  protected getBrandConfigValue<T>(context: TaskContext, path: string, defaultValue: T): T {
+  protected getBrandConfigValue<T>(
+    context: Pick<TaskContext, 'brandConfig'>,
+    path: string,
+    defaultValue: T
+  ): T {
     if (!context.brandConfig) {
       return defaultValue;
     }
@@ -230,20 +360,15 @@ export abstract class BaseAgent {
    */
   protected async logActivity(executionId: string, level: string, message: string, metadata?: any): Promise<void> {
     try {
-      const { error } = await this.db
-        .from('agent_logs')
-        .insert({
-          execution_id: executionId,
-          agent_id: this.id,
-          level,
-          message,
-          metadata: metadata || {},
-          timestamp: new Date().toISOString()
-        });
-      
-      if (error) {
-        console.error(`Failed to log agent activity: ${error.message}`);
-      }
+      await this.storage.logs.append({
+        id: uuidv4(),
+        executionId,
+        agentId: this.id,
+        level,
+        message,
+        metadata: metadata || {},
+        timestamp: new Date().toISOString()
+      });
     } catch (error) {
       console.error(`Error logging agent activity: ${(error as Error).message}`);
     }
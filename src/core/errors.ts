@@ -5,13 +5,22 @@ export class AgentFrameworkError extends Error {
   public code: string;
   public status: number;
   public details: any;
+  /** Whether retrying the failed operation may succeed; client errors are final */
+  public retryable: boolean;
 
-  constructor(message: string, code: string, status: number = 500, details?: any) {
+  constructor(
+    message: string,
+    code: string,
+    status: number = 500,
+    details?: any,
+    retryable: boolean = status >= 500
+  ) {
     super(message);
     this.name = this.constructor.name;
     this.code = code;
     this.status = status;
     this.details = details;
+    this.retryable = retryable;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -43,6 +52,15 @@ export class AgentNotFoundError extends AgentFrameworkError {
   }
 }
 
+/**
+ * Agents that can run the task exist but none is healthy; retrying later may succeed
+ */
+export class AgentUnavailableError extends AgentFrameworkError {
+  constructor(message: string) {
+    super(message, 'AGENT_UNAVAILABLE', 503);
+  }
+}
+
 /**
  * Database error
  */
@@ -83,8 +101,26 @@ export class RateLimitError extends AgentFrameworkError {
  * Task execution error
  */
 export class TaskExecutionError extends AgentFrameworkError {
-  constructor(message: string, details?: any) {
-    super(message, 'TASK_EXECUTION_ERROR', 500, details);
+  constructor(message: string, details?: any, retryable: boolean = true) {
+    super(message, 'TASK_EXECUTION_ERROR', 500, details, retryable);
+  }
+}
+
+/**
+ * Task ran past its configured timeout
+ */
+export class TaskTimeoutError extends AgentFrameworkError {
+  constructor(timeoutMs: number) {
+    super(`Task timed out after ${timeoutMs}ms`, 'TASK_TIMEOUT', 504, { timeoutMs });
+  }
+}
+
+/**
+ * Task was cancelled while its agent was running
+ */
+export class TaskCancelledError extends AgentFrameworkError {
+  constructor(executionId: string) {
+    super(`Task ${executionId} was cancelled`, 'TASK_CANCELLED', 409, { executionId });
   }
 }
 
@@ -97,6 +133,91 @@ export class BrandConfigError extends AgentFrameworkError {
   }
 }
 
+/**
+ * Workflow run not found error
+ */
+export class WorkflowNotFoundError extends AgentFrameworkError {
+  constructor(runId: string) {
+    super(`Workflow run not found: ${runId}`, 'WORKFLOW_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Schedule not found error
+ */
+export class ScheduleNotFoundError extends AgentFrameworkError {
+  constructor(scheduleId: string) {
+    super(`Schedule not found: ${scheduleId}`, 'SCHEDULE_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Dead letter not found error
+ */
+export class DeadLetterNotFoundError extends AgentFrameworkError {
+  constructor(id: string) {
+    super(`Dead letter not found: ${id}`, 'DEAD_LETTER_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Batch not found error
+ */
+export class BatchNotFoundError extends AgentFrameworkError {
+  constructor(batchId: string) {
+    super(`Batch not found: ${batchId}`, 'BATCH_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * Webhook delivery not found error
+ */
+export class WebhookDeliveryNotFoundError extends AgentFrameworkError {
+  constructor(message: string) {
+    super(message, 'WEBHOOK_DELIVERY_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * A remote agent reported a failure or could not be reached. Failures the remote reports
+ * keep its error code and are retried only if it says so.
+ */
+export class RemoteAgentError extends AgentFrameworkError {
+  constructor(message: string, code: string, details?: any, retryable: boolean = false) {
+    super(message, code, 502, details, retryable);
+  }
+}
+
+/**
+ * Plugin not found error
+ */
+export class PluginNotFoundError extends AgentFrameworkError {
+  constructor(pluginId: string) {
+    super(`Plugin not found: ${pluginId}`, 'PLUGIN_NOT_FOUND', 404);
+  }
+}
+
+/**
+ * A plugin module that cannot be loaded or does not export compatible agents
+ */
+export class PluginLoadError extends AgentFrameworkError {
+  constructor(pluginId: string, message: string) {
+    super(`Failed to load plugin ${pluginId}: ${message}`, 'PLUGIN_LOAD_ERROR', 422, { pluginId });
+  }
+}
+
+/**
+ * Whether a failed task attempt should be retried. Framework errors carry their own
+ * classification; anything else (network errors, crashes) is assumed to be transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error && typeof (error as any).retryable === 'boolean') {
+    return (error as any).retryable;
+  }
+
+  return true;
+}
+
 /**
  * Error handler middleware for Express
  */
@@ -126,11 +247,23 @@ export default {
   TaskValidationError,
   TaskNotFoundError,
   AgentNotFoundError,
+  AgentUnavailableError,
   DatabaseError,
   AuthenticationError,
   AuthorizationError,
   RateLimitError,
   TaskExecutionError,
+  TaskTimeoutError,
+  TaskCancelledError,
   BrandConfigError,
+  WorkflowNotFoundError,
+  ScheduleNotFoundError,
+  DeadLetterNotFoundError,
+  BatchNotFoundError,
+  WebhookDeliveryNotFoundError,
+  PluginNotFoundError,
+  PluginLoadError,
+  RemoteAgentError,
+  isRetryableError,
   errorHandler
 };
\ No newline at end of file
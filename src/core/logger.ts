@@ -1,5 +1,5 @@
 import winston from 'winston';
-import { getSupabaseClient } from '../db/client';
+import { getStorage } from '../db';
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
@@ -38,8 +38,20 @@ const logger = winston.createLogger({
   ]
 });
 
+/**
+ * Levels written by AgentLogger, most severe first
+ */
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'];
+
+/**
+ * The given level and every level more severe than it
+ */
+export function levelsAtOrAbove(level: string): string[] {
+  const index = LOG_LEVELS.indexOf(level);
+  return index === -1 ? [level] : LOG_LEVELS.slice(0, index + 1);
+}
+
 export class AgentLogger {
-  private db = getSupabaseClient();
   private agentName: string;
   
   constructor(agentName: string) {
@@ -55,7 +67,7 @@ export class AgentLogger {
       ...metadata 
     });
     
-    this.logToSupabase('info', message, metadata);
+    this.logToStorage('info', message, metadata);
   }
   
   /**
@@ -67,7 +79,7 @@ export class AgentLogger {
       ...metadata 
     });
     
-    this.logToSupabase('warning', message, metadata);
+    this.logToStorage('warning', message, metadata);
   }
   
   /**
@@ -79,7 +91,7 @@ export class AgentLogger {
       ...metadata 
     });
     
-    this.logToSupabase('error', message, metadata);
+    this.logToStorage('error', message, metadata);
   }
   
   /**
@@ -91,38 +103,28 @@ export class AgentLogger {
       ...metadata 
     });
     
-    this.logToSupabase('debug', message, metadata);
+    this.logToStorage('debug', message, metadata);
   }
   
   /**
-   * Log to Supabase agent_logs table
+   * Log to the agent_logs store
    */
-  private async logToSupabase(level: string, message: string, metadata?: any): Promise<void> {
+  private async logToStorage(level: string, message: string, metadata?: any): Promise<void> {
     try {
-      // Only log to Supabase if metadata contains an executionId
+      // Only persist the log if metadata contains an executionId
       if (metadata && metadata.executionId) {
-        const { error } = await this.db
-          .from('agent_logs')
-          .insert({
-            id: uuidv4(),
-            execution_id: metadata.executionId,
-            agent_id: metadata.agentId || null,
-            level,
-            message,
-            metadata: metadata || {},
-            timestamp: new Date().toISOString()
-          });
-        
-        if (error) {
-          logger.error(`Failed to log to Supabase: ${error.message}`, {
-            level,
-            message,
-            metadata
-          });
-        }
+        await getStorage().logs.append({
+          id: uuidv4(),
+          executionId: metadata.executionId,
+          agentId: metadata.agentId || null,
+          level,
+          message,
+          metadata: metadata || {},
+          timestamp: new Date().toISOString()
+        });
       }
     } catch (error) {
-      logger.error(`Error logging to Supabase: ${(error as Error).message}`, {
+      logger.error(`Error persisting log entry: ${(error as Error).message}`, {
         level,
         message,
         metadata
@@ -165,5 +167,7 @@ export function setupLogger() {
 
 export default {
   AgentLogger,
+  LOG_LEVELS,
+  levelsAtOrAbove,
   setupLogger
 };
\ No newline at end of file
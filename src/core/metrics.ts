@@ -1,5 +1,3 @@
-import { getSupabaseClient } from '../db/client';
-
 interface Metric {
   name: string;
   value: number;
@@ -8,7 +6,6 @@ interface Metric {
 }
 
 class MetricsManager {
-  private db = getSupabaseClient();
   private metrics: Metric[] = [];
   private flushInterval: NodeJS.Timeout | null = null;
   
@@ -47,6 +44,37 @@ class MetricsManager {
     });
   }
   
+  /**
+   * Record a task that was aborted for running past its timeout
+   */
+  public recordTaskTimeout(taskType: string, brand: string | null, timeoutMs: number): void {
+    this.addMetric({
+      name: 'task_timeout',
+      value: 1,
+      labels: {
+        task_type: taskType,
+        brand: brand || 'none',
+        timeout_ms: timeoutMs.toString()
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Record whether a result cache lookup found a reusable result
+   */
+  public recordCacheLookup(taskType: string, brand: string | null, hit: boolean): void {
+    this.addMetric({
+      name: hit ? 'task_cache_hit' : 'task_cache_miss',
+      value: 1,
+      labels: {
+        task_type: taskType,
+        brand: brand || 'none'
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+
   /**
    * Record API request metric
    */
@@ -132,14 +160,8 @@ class MetricsManager {
       // For now, we'll just log them since we didn't include a metrics table in our schema
       console.log(`Flushing ${metricsToFlush.length} metrics`);
       
-      // This is where we would insert the metrics into the database
-      // For example:
-      // const { error } = await this.db.from('metrics').insert(metricsToFlush);
-      // if (error) {
-      //   console.error('Failed to flush metrics:', error);
-      //   // Put the metrics back in the queue
-      //   this.metrics = [...metricsToFlush, ...this.metrics];
-      // }
+      // This is where we would insert the metrics through a metrics repository
+      // on the storage adapter (see src/db/types.ts)
     } catch (error) {
       console.error('Error flushing metrics:', error);
       // Put the metrics back in the queue
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createEmptyTables, MemoryStorage, MemoryTables } from './memory';
+import { StorageDriver } from './types';
+
+/**
+ * Load tables from a JSON snapshot, falling back to empty tables
+ */
+function loadTables(filePath: string): MemoryTables {
+  const tables = createEmptyTables();
+
+  if (!fs.existsSync(filePath)) {
+    return tables;
+  }
+
+  try {
+    const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return { ...tables, ...snapshot };
+  } catch (error) {
+    throw new Error(`Failed to load storage file ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Storage adapter that keeps state in memory and persists it to a JSON file.
+ * Suitable for local and air-gapped single-node deployments.
+ */
+export class FileStorage extends MemoryStorage {
+  public readonly driver: StorageDriver = 'file';
+  private filePath: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  constructor(filePath: string) {
+    super(loadTables(filePath));
+    this.filePath = filePath;
+  }
+
+  public async ping(): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.access(path.dirname(this.filePath), fs.constants.W_OK);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Wait until all pending writes have reached disk
+   */
+  public async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  protected handleChange(): void {
+    // Coalesce bursts of writes into a single snapshot
+    if (this.dirty) {
+      return;
+    }
+
+    this.dirty = true;
+    this.pendingWrite = this.pendingWrite.then(() => this.persist());
+  }
+
+  private async persist(): Promise<void> {
+    this.dirty = false;
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify(this.tables), 'utf8');
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to persist storage file ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+}
+
+export default {
+  FileStorage,
+};
@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+import { FileStorage } from './file';
+import { MemoryStorage } from './memory';
+import { SupabaseStorage } from './supabase';
+import { StorageAdapter, StorageDriver } from './types';
+
+// Load environment variables
+dotenv.config();
+
+let storageInstance: StorageAdapter | null = null;
+
+/**
+ * Create a storage adapter for the given driver
+ */
+export function createStorage(driver: StorageDriver): StorageAdapter {
+  switch (driver) {
+    case 'supabase':
+      return new SupabaseStorage();
+    case 'memory':
+      return new MemoryStorage();
+    case 'file':
+      return new FileStorage(process.env.STORAGE_FILE_PATH || 'data/agent-hub.json');
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+/**
+ * Get the active storage adapter, creating it from STORAGE_DRIVER on first use
+ */
+export function getStorage(): StorageAdapter {
+  if (!storageInstance) {
+    const driver = (process.env.STORAGE_DRIVER || 'supabase') as StorageDriver;
+    storageInstance = createStorage(driver);
+  }
+
+  return storageInstance;
+}
+
+/**
+ * Replace the active storage adapter (used by tests and embedding applications)
+ */
+export function setStorage(storage: StorageAdapter): void {
+  storageInstance = storage;
+}
+
+/**
+ * Initialize the storage layer and verify it is reachable
+ */
+export async function initializeDatabase(): Promise<void> {
+  const storage = getStorage();
+
+  if (!(await storage.ping())) {
+    throw new Error(`Storage driver '${storage.driver}' is not reachable`);
+  }
+
+  console.log(`Using ${storage.driver} storage`);
+}
+
+/**
+ * Create task definitions for the given task types.
+ * Local drivers have no migrations, so definitions are derived from agent capabilities;
+ * Supabase definitions are managed by migrations and left untouched.
+ */
+export async function seedTaskDefinitions(taskTypes: string[]): Promise<void> {
+  const storage = getStorage();
+
+  if (storage.driver === 'supabase') {
+    return;
+  }
+
+  for (const type of new Set(taskTypes)) {
+    if (!(await storage.tasks.findByType(type))) {
+      await storage.tasks.upsert({ id: type, type, name: type });
+    }
+  }
+}
+
+export * from './types';
+
+export { MemoryStorage, FileStorage, SupabaseStorage };
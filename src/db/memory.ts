@@ -0,0 +1,524 @@
+import { deepClone } from '../utils/helpers';
+import {
+  AgentLogRecord,
+  BrandRecord,
+  BrandRepository,
+  ExecutionQuery,
+  ExecutionRecord,
+  ExecutionRepository,
+  LogRepository,
+  StorageAdapter,
+  StorageDriver,
+  TaskDefinitionRecord,
+  TaskDefinitionRepository,
+  WorkflowRunRecord,
+  WorkflowRunRepository,
+  ScheduleRecord,
+  ScheduleRepository,
+  DeadLetterRecord,
+  DeadLetterRepository,
+  WebhookDeliveryRecord,
+  WebhookDeliveryRepository,
+  BatchRecord,
+  BatchStatus,
+  BatchRepository,
+  LogQuery,
+} from './types';
+
+/**
+ * Plain, JSON-serializable tables holding all in-memory state
+ */
+export interface MemoryTables {
+  executions: Record<string, ExecutionRecord>;
+  logs: AgentLogRecord[];
+  brands: Record<string, BrandRecord>;
+  tasks: Record<string, TaskDefinitionRecord>;
+  workflowRuns: Record<string, WorkflowRunRecord>;
+  schedules: Record<string, ScheduleRecord>;
+  deadLetters: Record<string, DeadLetterRecord>;
+  webhookDeliveries: Record<string, WebhookDeliveryRecord>;
+  batches: Record<string, BatchRecord>;
+}
+
+/**
+ * Create an empty set of tables
+ */
+export function createEmptyTables(): MemoryTables {
+  return {
+    executions: {},
+    logs: [],
+    brands: {},
+    tasks: {},
+    workflowRuns: {},
+    schedules: {},
+    deadLetters: {},
+    webhookDeliveries: {},
+    batches: {},
+  };
+}
+
+type ChangeListener = () => void;
+
+class MemoryExecutionRepository implements ExecutionRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(record: ExecutionRecord): Promise<void> {
+    this.tables.executions[record.id] = deepClone(record);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<ExecutionRecord>): Promise<void> {
+    const existing = this.tables.executions[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.executions[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async findById(id: string): Promise<ExecutionRecord | null> {
+    const record = this.tables.executions[id];
+    return record ? deepClone(record) : null;
+  }
+
+  public async findByIdempotencyKey(
+    scope: string,
+    key: string,
+    createdAfter: string,
+  ): Promise<ExecutionRecord | null> {
+    const record = Object.values(this.tables.executions)
+      .filter(execution => execution.idempotencyScope === scope)
+      .filter(execution => execution.idempotencyKey === key)
+      .filter(execution => execution.createdAt > createdAfter)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+
+    return record ? deepClone(record) : null;
+  }
+
+  public async findByFingerprint(
+    fingerprint: string,
+    completedAfter: string,
+  ): Promise<ExecutionRecord | null> {
+    const record = Object.values(this.tables.executions)
+      .filter(execution => execution.fingerprint === fingerprint && !execution.cachedFrom)
+      .filter(execution => execution.status === 'completed')
+      .filter(execution => !!execution.completedAt && execution.completedAt > completedAfter)
+      .sort((a, b) => (b.completedAt as string).localeCompare(a.completedAt as string))[0];
+
+    return record ? deepClone(record) : null;
+  }
+
+  public async list(query: ExecutionQuery): Promise<ExecutionRecord[]> {
+    const { sortBy, after } = query;
+    const direction = query.order === 'asc' ? 1 : -1;
+
+    // Compare by sort value, then ID, in the requested direction
+    const compare = (value: string, id: string, other: ExecutionRecord) =>
+      direction * (value.localeCompare(other[sortBy] as string) || id.localeCompare(other.id));
+
+    return Object.values(this.tables.executions)
+      .filter(execution => Boolean(execution[sortBy]))
+      .filter(execution => !query.brand || execution.brand === query.brand)
+      .filter(execution => !query.taskId || execution.taskId === query.taskId)
+      .filter(execution => !query.status || query.status.includes(execution.status))
+      .filter(execution => !query.agentId || execution.agentId === query.agentId)
+      .filter(execution => !query.createdFrom || execution.createdAt >= query.createdFrom)
+      .filter(execution => !query.createdTo || execution.createdAt <= query.createdTo)
+      .filter(execution => !after || compare(after.value, after.id, execution) < 0)
+      .sort((a, b) => compare(a[sortBy] as string, a.id, b))
+      .slice(0, query.limit)
+      .map(execution => deepClone(execution));
+  }
+}
+
+class MemoryLogRepository implements LogRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async append(entry: AgentLogRecord): Promise<void> {
+    this.tables.logs.push(deepClone(entry));
+    this.onChange();
+  }
+
+  public async findByExecution(executionId: string): Promise<AgentLogRecord[]> {
+    return this.tables.logs
+      .filter(entry => entry.executionId === executionId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .map(entry => deepClone(entry));
+  }
+
+  public async list(query: LogQuery): Promise<AgentLogRecord[]> {
+    const { after } = query;
+
+    const compare = (timestamp: string, id: string, other: AgentLogRecord) =>
+      timestamp.localeCompare(other.timestamp) || id.localeCompare(other.id);
+
+    return this.tables.logs
+      .filter(entry => entry.executionId === query.executionId)
+      .filter(entry => !query.levels || query.levels.includes(entry.level))
+      .filter(entry => !after || compare(after.timestamp, after.id, entry) < 0)
+      .sort((a, b) => compare(a.timestamp, a.id, b))
+      .slice(0, query.limit)
+      .map(entry => deepClone(entry));
+  }
+}
+
+class MemoryBrandRepository implements BrandRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async findByKey(key: string): Promise<BrandRecord | null> {
+    const brand = this.tables.brands[key];
+    return brand ? deepClone(brand) : null;
+  }
+
+  public async findByApiKey(apiKey: string): Promise<BrandRecord | null> {
+    const brand = Object.values(this.tables.brands).find(
+      candidate =>
+        candidate.api_key === apiKey ||
+        (Array.isArray(candidate.apiKeys) && candidate.apiKeys.includes(apiKey)),
+    );
+
+    return brand ? deepClone(brand) : null;
+  }
+
+  public async list(): Promise<BrandRecord[]> {
+    return Object.values(this.tables.brands).map(brand => deepClone(brand));
+  }
+
+  public async create(brand: BrandRecord): Promise<void> {
+    this.tables.brands[brand.key] = deepClone(brand);
+    this.onChange();
+  }
+
+  public async update(key: string, brand: BrandRecord): Promise<void> {
+    if (!this.tables.brands[key]) {
+      return;
+    }
+
+    this.tables.brands[key] = deepClone({ ...brand, key });
+    this.onChange();
+  }
+}
+
+class MemoryTaskDefinitionRepository implements TaskDefinitionRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async findByType(type: string): Promise<TaskDefinitionRecord | null> {
+    const definition = this.tables.tasks[type];
+    return definition ? deepClone(definition) : null;
+  }
+
+  public async list(): Promise<TaskDefinitionRecord[]> {
+    return Object.values(this.tables.tasks).map(definition => deepClone(definition));
+  }
+
+  public async upsert(definition: TaskDefinitionRecord): Promise<void> {
+    this.tables.tasks[definition.type] = deepClone(definition);
+    this.onChange();
+  }
+}
+
+class MemoryWorkflowRunRepository implements WorkflowRunRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(run: WorkflowRunRecord): Promise<void> {
+    this.tables.workflowRuns[run.id] = deepClone(run);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<WorkflowRunRecord>): Promise<void> {
+    const existing = this.tables.workflowRuns[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.workflowRuns[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async claim(
+    id: string,
+    leaseExpiresAt: string | null,
+    changes: Partial<WorkflowRunRecord>,
+  ): Promise<boolean> {
+    const existing = this.tables.workflowRuns[id];
+    if (
+      !existing ||
+      existing.status !== 'running' ||
+      (existing.leaseExpiresAt ?? null) !== leaseExpiresAt
+    ) {
+      return false;
+    }
+
+    await this.update(id, changes);
+    return true;
+  }
+
+  public async findById(id: string): Promise<WorkflowRunRecord | null> {
+    const run = this.tables.workflowRuns[id];
+    return run ? deepClone(run) : null;
+  }
+
+  public async list(
+    filter: { status?: WorkflowRunRecord['status'] } = {},
+  ): Promise<WorkflowRunRecord[]> {
+    return Object.values(this.tables.workflowRuns)
+      .filter(run => !filter.status || run.status === filter.status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(run => deepClone(run));
+  }
+}
+
+class MemoryScheduleRepository implements ScheduleRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(schedule: ScheduleRecord): Promise<void> {
+    this.tables.schedules[schedule.id] = deepClone(schedule);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<ScheduleRecord>): Promise<void> {
+    const existing = this.tables.schedules[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.schedules[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async claim(
+    id: string,
+    nextRunAt: string,
+    changes: Partial<ScheduleRecord>,
+  ): Promise<boolean> {
+    const existing = this.tables.schedules[id];
+    if (!existing || existing.nextRunAt !== nextRunAt) {
+      return false;
+    }
+
+    await this.update(id, changes);
+    return true;
+  }
+
+  public async delete(id: string): Promise<void> {
+    delete this.tables.schedules[id];
+    this.onChange();
+  }
+
+  public async findById(id: string): Promise<ScheduleRecord | null> {
+    const schedule = this.tables.schedules[id];
+    return schedule ? deepClone(schedule) : null;
+  }
+
+  public async list(filter: { brand?: string } = {}): Promise<ScheduleRecord[]> {
+    return Object.values(this.tables.schedules)
+      .filter(schedule => !filter.brand || schedule.brand === filter.brand)
+      .map(schedule => deepClone(schedule));
+  }
+}
+
+class MemoryDeadLetterRepository implements DeadLetterRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(entry: DeadLetterRecord): Promise<void> {
+    this.tables.deadLetters[entry.id] = deepClone(entry);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<DeadLetterRecord>): Promise<void> {
+    const existing = this.tables.deadLetters[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.deadLetters[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async delete(id: string): Promise<void> {
+    delete this.tables.deadLetters[id];
+    this.onChange();
+  }
+
+  public async findById(id: string): Promise<DeadLetterRecord | null> {
+    const entry = this.tables.deadLetters[id];
+    return entry ? deepClone(entry) : null;
+  }
+
+  public async list(
+    filter: { brand?: string; taskType?: string } = {},
+  ): Promise<DeadLetterRecord[]> {
+    return Object.values(this.tables.deadLetters)
+      .filter(entry => !filter.brand || entry.brand === filter.brand)
+      .filter(entry => !filter.taskType || entry.taskType === filter.taskType)
+      .sort((a, b) => b.failedAt.localeCompare(a.failedAt))
+      .map(entry => deepClone(entry));
+  }
+}
+
+class MemoryWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(delivery: WebhookDeliveryRecord): Promise<void> {
+    this.tables.webhookDeliveries[delivery.id] = deepClone(delivery);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<WebhookDeliveryRecord>): Promise<void> {
+    const existing = this.tables.webhookDeliveries[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.webhookDeliveries[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async claim(
+    id: string,
+    updatedAt: string,
+    changes: Partial<WebhookDeliveryRecord>,
+  ): Promise<boolean> {
+    const existing = this.tables.webhookDeliveries[id];
+    if (!existing || existing.status !== 'pending' || existing.updatedAt !== updatedAt) {
+      return false;
+    }
+
+    await this.update(id, changes);
+    return true;
+  }
+
+  public async findById(id: string): Promise<WebhookDeliveryRecord | null> {
+    const delivery = this.tables.webhookDeliveries[id];
+    return delivery ? deepClone(delivery) : null;
+  }
+
+  public async list(
+    filter: { executionId?: string; status?: WebhookDeliveryRecord['status'] } = {},
+  ): Promise<WebhookDeliveryRecord[]> {
+    return Object.values(this.tables.webhookDeliveries)
+      .filter(delivery => !filter.executionId || delivery.executionId === filter.executionId)
+      .filter(delivery => !filter.status || delivery.status === filter.status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(delivery => deepClone(delivery));
+  }
+}
+
+class MemoryBatchRepository implements BatchRepository {
+  constructor(
+    private tables: MemoryTables,
+    private onChange: ChangeListener,
+  ) {}
+
+  public async create(batch: BatchRecord): Promise<void> {
+    this.tables.batches[batch.id] = deepClone(batch);
+    this.onChange();
+  }
+
+  public async update(id: string, changes: Partial<BatchRecord>): Promise<void> {
+    const existing = this.tables.batches[id];
+    if (!existing) {
+      return;
+    }
+
+    this.tables.batches[id] = { ...existing, ...deepClone(changes), id };
+    this.onChange();
+  }
+
+  public async settle(id: string, changes: Partial<BatchRecord>): Promise<boolean> {
+    const existing = this.tables.batches[id];
+    if (!existing || existing.status !== 'running') {
+      return false;
+    }
+
+    await this.update(id, changes);
+    return true;
+  }
+
+  public async findById(id: string): Promise<BatchRecord | null> {
+    const batch = this.tables.batches[id];
+    return batch ? deepClone(batch) : null;
+  }
+
+  public async list(filter: { status?: BatchStatus } = {}): Promise<BatchRecord[]> {
+    return Object.values(this.tables.batches)
+      .filter(batch => !filter.status || batch.status === filter.status)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(batch => deepClone(batch));
+  }
+}
+
+/**
+ * Storage adapter that keeps all state in process memory.
+ * Intended for tests and single-node local runs; state is lost on exit.
+ */
+export class MemoryStorage implements StorageAdapter {
+  public readonly driver: StorageDriver = 'memory';
+  public executions: ExecutionRepository;
+  public logs: LogRepository;
+  public brands: BrandRepository;
+  public tasks: TaskDefinitionRepository;
+  public workflowRuns: WorkflowRunRepository;
+  public schedules: ScheduleRepository;
+  public deadLetters: DeadLetterRepository;
+  public webhookDeliveries: WebhookDeliveryRepository;
+  public batches: BatchRepository;
+
+  protected tables: MemoryTables;
+
+  constructor(tables: MemoryTables = createEmptyTables()) {
+    this.tables = tables;
+
+    const onChange = () => this.handleChange();
+    this.executions = new MemoryExecutionRepository(this.tables, onChange);
+    this.logs = new MemoryLogRepository(this.tables, onChange);
+    this.brands = new MemoryBrandRepository(this.tables, onChange);
+    this.tasks = new MemoryTaskDefinitionRepository(this.tables, onChange);
+    this.workflowRuns = new MemoryWorkflowRunRepository(this.tables, onChange);
+    this.schedules = new MemoryScheduleRepository(this.tables, onChange);
+    this.deadLetters = new MemoryDeadLetterRepository(this.tables, onChange);
+    this.webhookDeliveries = new MemoryWebhookDeliveryRepository(this.tables, onChange);
+    this.batches = new MemoryBatchRepository(this.tables, onChange);
+  }
+
+  public async ping(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Called after every write; subclasses use it to persist the tables
+   */
+  protected handleChange(): void {
+    // Nothing to persist for pure in-memory storage
+  }
+}
+
+export default {
+  MemoryStorage,
+  createEmptyTables,
+};
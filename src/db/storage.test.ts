@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from './file';
+import { MemoryStorage } from './memory';
+import { ExecutionRecord } from './types';
+
+const execution = (id: string): ExecutionRecord => ({
+  id,
+  taskId: 'validateFile',
+  agentId: 'agent-1',
+  brand: 'mysticArcana',
+  parameters: { filePath: '/tmp/deck.json' },
+  status: 'pending',
+  priority: 'medium',
+  createdAt: new Date().toISOString(),
+});
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('should create, update and read executions', async () => {
+    await storage.executions.create(execution('exec-1'));
+    await storage.executions.update('exec-1', { status: 'completed', result: { valid: true } });
+
+    const record = await storage.executions.findById('exec-1');
+
+    expect(record?.status).toBe('completed');
+    expect(record?.result).toEqual({ valid: true });
+    expect(record?.parameters).toEqual({ filePath: '/tmp/deck.json' });
+  });
+
+  it('should return null for unknown executions', async () => {
+    expect(await storage.executions.findById('missing')).toBeNull();
+  });
+
+  it('should not leak references to stored records', async () => {
+    await storage.executions.create(execution('exec-1'));
+
+    const record = await storage.executions.findById('exec-1');
+    record!.parameters.filePath = '/changed';
+
+    expect((await storage.executions.findById('exec-1'))?.parameters.filePath).toBe(
+      '/tmp/deck.json',
+    );
+  });
+
+  it('should return logs for one execution in timestamp order', async () => {
+    const entry = (id: string, executionId: string, timestamp: string) => ({
+      id,
+      executionId,
+      agentId: null,
+      level: 'info',
+      message: id,
+      metadata: {},
+      timestamp,
+    });
+
+    await storage.logs.append(entry('b', 'exec-1', '2024-01-01T00:00:02.000Z'));
+    await storage.logs.append(entry('a', 'exec-1', '2024-01-01T00:00:01.000Z'));
+    await storage.logs.append(entry('c', 'exec-2', '2024-01-01T00:00:00.000Z'));
+
+    const logs = await storage.logs.findByExecution('exec-1');
+
+    expect(logs.map(log => log.id)).toEqual(['a', 'b']);
+  });
+
+  it('should find brands by API key', async () => {
+    await storage.brands.create({ key: 'edmShuffle', name: 'EDM Shuffle', apiKeys: ['secret'] });
+
+    expect((await storage.brands.findByApiKey('secret'))?.key).toBe('edmShuffle');
+    expect(await storage.brands.findByApiKey('other')).toBeNull();
+  });
+});
+
+describe('FileStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-hub-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist state across instances', async () => {
+    const filePath = path.join(dir, 'nested', 'store.json');
+    const storage = new FileStorage(filePath);
+
+    await storage.executions.create(execution('exec-1'));
+    await storage.tasks.upsert({ id: 'validateFile', type: 'validateFile' });
+    await storage.flush();
+
+    const reloaded = new FileStorage(filePath);
+
+    expect((await reloaded.executions.findById('exec-1'))?.brand).toBe('mysticArcana');
+    expect((await reloaded.tasks.findByType('validateFile'))?.id).toBe('validateFile');
+  });
+});
@@ -0,0 +1,1005 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseError } from '../core/errors';
+import { checkSupabaseConnection, getSupabaseClient } from './client';
+import {
+  AgentLogRecord,
+  BrandRecord,
+  BrandRepository,
+  ExecutionQuery,
+  ExecutionRecord,
+  ExecutionRepository,
+  ExecutionSortField,
+  LogRepository,
+  StorageAdapter,
+  TaskDefinitionRecord,
+  TaskDefinitionRepository,
+  WorkflowRunRecord,
+  WorkflowRunRepository,
+  ScheduleRecord,
+  ScheduleRepository,
+  DeadLetterRecord,
+  DeadLetterRepository,
+  WebhookDeliveryRecord,
+  WebhookDeliveryRepository,
+  BatchRecord,
+  BatchStatus,
+  BatchRepository,
+  LogQuery,
+} from './types';
+
+/**
+ * Map an execution record to task_executions columns
+ */
+function toExecutionRow(record: Partial<ExecutionRecord>): Record<string, any> {
+  const columns: Record<keyof ExecutionRecord, string> = {
+    id: 'id',
+    taskId: 'task_id',
+    agentId: 'agent_id',
+    brand: 'brand',
+    parameters: 'parameters',
+    status: 'status',
+    priority: 'priority',
+    result: 'result',
+    error: 'error',
+    createdAt: 'created_at',
+    startedAt: 'started_at',
+    completedAt: 'completed_at',
+    attempts: 'attempts',
+    progress: 'progress',
+    idempotencyKey: 'idempotency_key',
+    idempotencyScope: 'idempotency_scope',
+    fingerprint: 'fingerprint',
+    cachedFrom: 'cached_from',
+  };
+
+  const row: Record<string, any> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (value !== undefined) {
+      row[columns[field as keyof ExecutionRecord] || field] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Map a task_executions row to an execution record
+ */
+function fromExecutionRow(row: any): ExecutionRecord {
+  return {
+    id: row.id,
+    taskId: row.task_id ?? null,
+    agentId: row.agent_id ?? null,
+    brand: row.brand ?? null,
+    parameters: row.parameters || {},
+    status: row.status,
+    priority: row.priority,
+    result: row.result,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? null,
+    completedAt: row.completed_at ?? null,
+    attempts: row.attempts || [],
+    progress: row.progress ?? null,
+    idempotencyKey: row.idempotency_key ?? null,
+    idempotencyScope: row.idempotency_scope ?? null,
+    fingerprint: row.fingerprint ?? null,
+    cachedFrom: row.cached_from ?? null,
+  };
+}
+
+/**
+ * Map an agent_logs row to a log record
+ */
+function fromLogRow(row: any): AgentLogRecord {
+  return {
+    id: row.id,
+    executionId: row.execution_id,
+    agentId: row.agent_id ?? null,
+    level: row.level,
+    message: row.message,
+    metadata: row.metadata || {},
+    timestamp: row.timestamp,
+  };
+}
+
+/**
+ * Map a workflow run record to workflow_runs columns
+ */
+function toWorkflowRunRow(run: Partial<WorkflowRunRecord>): Record<string, any> {
+  const row: Record<string, any> = { ...run };
+
+  if (run.createdAt !== undefined) {
+    row.created_at = run.createdAt;
+    delete row.createdAt;
+  }
+
+  if (run.completedAt !== undefined) {
+    row.completed_at = run.completedAt;
+    delete row.completedAt;
+  }
+
+  if (run.ownerId !== undefined) {
+    row.owner_id = run.ownerId;
+    delete row.ownerId;
+  }
+
+  if (run.leaseExpiresAt !== undefined) {
+    row.lease_expires_at = run.leaseExpiresAt;
+    delete row.leaseExpiresAt;
+  }
+
+  return row;
+}
+
+/**
+ * Map a workflow_runs row to a workflow run record
+ */
+function fromWorkflowRunRow(row: any): WorkflowRunRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? null,
+    definition: row.definition || {},
+    input: row.input || {},
+    status: row.status,
+    steps: row.steps || {},
+    ownerId: row.owner_id ?? null,
+    leaseExpiresAt: row.lease_expires_at ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+const scheduleColumns: Record<string, string> = {
+  taskType: 'task_type',
+  missedRunPolicy: 'missed_run_policy',
+  lastRunAt: 'last_run_at',
+  lastExecutionId: 'last_execution_id',
+  nextRunAt: 'next_run_at',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+/**
+ * Map a schedule record to schedules columns
+ */
+function toScheduleRow(schedule: Partial<ScheduleRecord>): Record<string, any> {
+  const row: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(schedule)) {
+    if (value !== undefined) {
+      row[scheduleColumns[field] || field] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Map a schedules row to a schedule record
+ */
+function fromScheduleRow(row: any): ScheduleRecord {
+  return {
+    id: row.id,
+    brand: row.brand,
+    source: row.source,
+    cron: row.cron,
+    taskType: row.task_type,
+    parameters: row.parameters || {},
+    priority: row.priority ?? null,
+    enabled: row.enabled,
+    missedRunPolicy: row.missed_run_policy,
+    lastRunAt: row.last_run_at ?? null,
+    lastExecutionId: row.last_execution_id ?? null,
+    nextRunAt: row.next_run_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const deadLetterColumns: Record<string, string> = {
+  executionId: 'execution_id',
+  taskType: 'task_type',
+  errorCode: 'error_code',
+  failedAt: 'failed_at',
+  replayedAt: 'replayed_at',
+  replayExecutionId: 'replay_execution_id',
+};
+
+/**
+ * Map a dead letter record to dead_letters columns
+ */
+function toDeadLetterRow(entry: Partial<DeadLetterRecord>): Record<string, any> {
+  const row: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(entry)) {
+    if (value !== undefined) {
+      row[deadLetterColumns[field] || field] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Map a dead_letters row to a dead letter record
+ */
+function fromDeadLetterRow(row: any): DeadLetterRecord {
+  return {
+    id: row.id,
+    executionId: row.execution_id,
+    taskType: row.task_type,
+    brand: row.brand ?? null,
+    context: row.context || { parameters: {}, priority: 'medium' },
+    error: row.error,
+    errorCode: row.error_code ?? null,
+    attempts: row.attempts || [],
+    failedAt: row.failed_at,
+    replayedAt: row.replayed_at ?? null,
+    replayExecutionId: row.replay_execution_id ?? null,
+  };
+}
+
+const webhookDeliveryColumns: Record<string, string> = {
+  executionId: 'execution_id',
+  maxAttempts: 'max_attempts',
+  nextAttemptAt: 'next_attempt_at',
+  redeliveryOf: 'redelivery_of',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  deliveredAt: 'delivered_at',
+};
+
+/**
+ * Map a webhook delivery record to webhook_deliveries columns
+ */
+function toWebhookDeliveryRow(delivery: Partial<WebhookDeliveryRecord>): Record<string, any> {
+  const row: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(delivery)) {
+    if (value !== undefined) {
+      row[webhookDeliveryColumns[field] || field] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Map a webhook_deliveries row to a webhook delivery record
+ */
+function fromWebhookDeliveryRow(row: any): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    executionId: row.execution_id,
+    brand: row.brand ?? null,
+    url: row.url,
+    payload: row.payload || {},
+    status: row.status,
+    attempts: row.attempts || [],
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at ?? null,
+    redeliveryOf: row.redelivery_of ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deliveredAt: row.delivered_at ?? null,
+  };
+}
+
+/**
+ * Map a batch record to batches columns
+ */
+function toBatchRow(batch: Partial<BatchRecord>): Record<string, any> {
+  const columns: Record<string, string> = {
+    createdAt: 'created_at',
+    completedAt: 'completed_at',
+  };
+  const row: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(batch)) {
+    if (value !== undefined) {
+      row[columns[field] || field] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Map a batches row to a batch record
+ */
+function fromBatchRow(row: any): BatchRecord {
+  return {
+    id: row.id,
+    brand: row.brand ?? null,
+    items: row.items || [],
+    status: row.status,
+    callback: row.callback ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+const executionSortColumns: Record<ExecutionSortField, string> = {
+  createdAt: 'created_at',
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+};
+
+class SupabaseExecutionRepository implements ExecutionRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(record: ExecutionRecord): Promise<void> {
+    const { error } = await this.db.from('task_executions').insert(toExecutionRow(record));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create task execution: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<ExecutionRecord>): Promise<void> {
+    const { error } = await this.db
+      .from('task_executions')
+      .update(toExecutionRow(changes))
+      .eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update task execution: ${error.message}`);
+    }
+  }
+
+  public async findById(id: string): Promise<ExecutionRecord | null> {
+    const { data, error } = await this.db
+      .from('task_executions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get task execution: ${error.message}`);
+    }
+
+    return data ? fromExecutionRow(data) : null;
+  }
+
+  public async findByIdempotencyKey(
+    scope: string,
+    key: string,
+    createdAfter: string,
+  ): Promise<ExecutionRecord | null> {
+    const { data, error } = await this.db
+      .from('task_executions')
+      .select('*')
+      .eq('idempotency_scope', scope)
+      .eq('idempotency_key', key)
+      .gt('created_at', createdAfter)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get task execution: ${error.message}`);
+    }
+
+    return data ? fromExecutionRow(data) : null;
+  }
+
+  public async findByFingerprint(
+    fingerprint: string,
+    completedAfter: string,
+  ): Promise<ExecutionRecord | null> {
+    const { data, error } = await this.db
+      .from('task_executions')
+      .select('*')
+      .eq('fingerprint', fingerprint)
+      .is('cached_from', null)
+      .eq('status', 'completed')
+      .gt('completed_at', completedAfter)
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get task execution: ${error.message}`);
+    }
+
+    return data ? fromExecutionRow(data) : null;
+  }
+
+  public async list(query: ExecutionQuery): Promise<ExecutionRecord[]> {
+    const column = executionSortColumns[query.sortBy];
+    const ascending = query.order === 'asc';
+
+    let request = this.db.from('task_executions').select('*').not(column, 'is', null);
+
+    if (query.brand) {
+      request = request.eq('brand', query.brand);
+    }
+
+    if (query.taskId) {
+      request = request.eq('task_id', query.taskId);
+    }
+
+    if (query.status && query.status.length > 0) {
+      request = request.in('status', query.status);
+    }
+
+    if (query.agentId) {
+      request = request.eq('agent_id', query.agentId);
+    }
+
+    if (query.createdFrom) {
+      request = request.gte('created_at', query.createdFrom);
+    }
+
+    if (query.createdTo) {
+      request = request.lte('created_at', query.createdTo);
+    }
+
+    if (query.after) {
+      // Keyset condition: past the cursor's sort value, or equal to it with a later ID
+      const op = ascending ? 'gt' : 'lt';
+      const value = `"${query.after.value}"`;
+      request = request.or(
+        `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${query.after.id})`,
+      );
+    }
+
+    const { data, error } = await request
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(query.limit);
+
+    if (error) {
+      throw new DatabaseError(`Failed to list task executions: ${error.message}`);
+    }
+
+    return (data || []).map(fromExecutionRow);
+  }
+}
+
+class SupabaseLogRepository implements LogRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async append(entry: AgentLogRecord): Promise<void> {
+    const { error } = await this.db.from('agent_logs').insert({
+      id: entry.id,
+      execution_id: entry.executionId,
+      agent_id: entry.agentId,
+      level: entry.level,
+      message: entry.message,
+      metadata: entry.metadata,
+      timestamp: entry.timestamp,
+    });
+
+    if (error) {
+      throw new DatabaseError(`Failed to write agent log: ${error.message}`);
+    }
+  }
+
+  public async findByExecution(executionId: string): Promise<AgentLogRecord[]> {
+    const { data, error } = await this.db
+      .from('agent_logs')
+      .select('*')
+      .eq('execution_id', executionId)
+      .order('timestamp', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get agent logs: ${error.message}`);
+    }
+
+    return (data || []).map(fromLogRow);
+  }
+
+  public async list(query: LogQuery): Promise<AgentLogRecord[]> {
+    let request = this.db.from('agent_logs').select('*').eq('execution_id', query.executionId);
+
+    if (query.levels && query.levels.length > 0) {
+      request = request.in('level', query.levels);
+    }
+
+    if (query.after) {
+      // Keyset condition: a later timestamp, or the same timestamp with a later ID
+      const timestamp = `"${query.after.timestamp}"`;
+      request = request.or(
+        `timestamp.gt.${timestamp},and(timestamp.eq.${timestamp},id.gt.${query.after.id})`,
+      );
+    }
+
+    const { data, error } = await request
+      .order('timestamp', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(query.limit);
+
+    if (error) {
+      throw new DatabaseError(`Failed to get agent logs: ${error.message}`);
+    }
+
+    return (data || []).map(fromLogRow);
+  }
+}
+
+class SupabaseBrandRepository implements BrandRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async findByKey(key: string): Promise<BrandRecord | null> {
+    const { data, error } = await this.db.from('brands').select('*').eq('key', key).maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get brand: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async findByApiKey(apiKey: string): Promise<BrandRecord | null> {
+    const { data, error } = await this.db
+      .from('brands')
+      .select('*')
+      .eq('api_key', apiKey)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get brand by API key: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async list(): Promise<BrandRecord[]> {
+    const { data, error } = await this.db.from('brands').select('*');
+
+    if (error) {
+      throw new DatabaseError(`Failed to get brands: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  public async create(brand: BrandRecord): Promise<void> {
+    const { error } = await this.db.from('brands').insert(brand);
+
+    if (error) {
+      throw new DatabaseError(`Failed to create brand: ${error.message}`);
+    }
+  }
+
+  public async update(key: string, brand: BrandRecord): Promise<void> {
+    const { error } = await this.db.from('brands').update(brand).eq('key', key);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update brand: ${error.message}`);
+    }
+  }
+}
+
+class SupabaseTaskDefinitionRepository implements TaskDefinitionRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async findByType(type: string): Promise<TaskDefinitionRecord | null> {
+    const { data, error } = await this.db.from('tasks').select('*').eq('type', type).maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get task definition: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  public async list(): Promise<TaskDefinitionRecord[]> {
+    const { data, error } = await this.db.from('tasks').select('*');
+
+    if (error) {
+      throw new DatabaseError(`Failed to get task definitions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  public async upsert(definition: TaskDefinitionRecord): Promise<void> {
+    const { error } = await this.db.from('tasks').upsert(definition, { onConflict: 'type' });
+
+    if (error) {
+      throw new DatabaseError(`Failed to save task definition: ${error.message}`);
+    }
+  }
+}
+
+class SupabaseWorkflowRunRepository implements WorkflowRunRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(run: WorkflowRunRecord): Promise<void> {
+    const { error } = await this.db.from('workflow_runs').insert(toWorkflowRunRow(run));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create workflow run: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<WorkflowRunRecord>): Promise<void> {
+    const { error } = await this.db
+      .from('workflow_runs')
+      .update(toWorkflowRunRow(changes))
+      .eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update workflow run: ${error.message}`);
+    }
+  }
+
+  public async claim(
+    id: string,
+    leaseExpiresAt: string | null,
+    changes: Partial<WorkflowRunRecord>,
+  ): Promise<boolean> {
+    let query = this.db
+      .from('workflow_runs')
+      .update(toWorkflowRunRow(changes))
+      .eq('id', id)
+      .eq('status', 'running');
+
+    query =
+      leaseExpiresAt === null
+        ? query.is('lease_expires_at', null)
+        : query.eq('lease_expires_at', leaseExpiresAt);
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to claim workflow run: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  public async findById(id: string): Promise<WorkflowRunRecord | null> {
+    const { data, error } = await this.db
+      .from('workflow_runs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get workflow run: ${error.message}`);
+    }
+
+    return data ? fromWorkflowRunRow(data) : null;
+  }
+
+  public async list(
+    filter: { status?: WorkflowRunRecord['status'] } = {},
+  ): Promise<WorkflowRunRecord[]> {
+    let query = this.db.from('workflow_runs').select('*');
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get workflow runs: ${error.message}`);
+    }
+
+    return (data || []).map(fromWorkflowRunRow);
+  }
+}
+
+class SupabaseScheduleRepository implements ScheduleRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(schedule: ScheduleRecord): Promise<void> {
+    const { error } = await this.db.from('schedules').insert(toScheduleRow(schedule));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create schedule: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<ScheduleRecord>): Promise<void> {
+    const { error } = await this.db.from('schedules').update(toScheduleRow(changes)).eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update schedule: ${error.message}`);
+    }
+  }
+
+  public async claim(
+    id: string,
+    nextRunAt: string,
+    changes: Partial<ScheduleRecord>,
+  ): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('schedules')
+      .update(toScheduleRow(changes))
+      .eq('id', id)
+      .eq('next_run_at', nextRunAt)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to claim schedule: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  public async delete(id: string): Promise<void> {
+    const { error } = await this.db.from('schedules').delete().eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to delete schedule: ${error.message}`);
+    }
+  }
+
+  public async findById(id: string): Promise<ScheduleRecord | null> {
+    const { data, error } = await this.db.from('schedules').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get schedule: ${error.message}`);
+    }
+
+    return data ? fromScheduleRow(data) : null;
+  }
+
+  public async list(filter: { brand?: string } = {}): Promise<ScheduleRecord[]> {
+    let query = this.db.from('schedules').select('*');
+
+    if (filter.brand) {
+      query = query.eq('brand', filter.brand);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get schedules: ${error.message}`);
+    }
+
+    return (data || []).map(fromScheduleRow);
+  }
+}
+
+class SupabaseDeadLetterRepository implements DeadLetterRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(entry: DeadLetterRecord): Promise<void> {
+    const { error } = await this.db.from('dead_letters').insert(toDeadLetterRow(entry));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create dead letter: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<DeadLetterRecord>): Promise<void> {
+    const { error } = await this.db
+      .from('dead_letters')
+      .update(toDeadLetterRow(changes))
+      .eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update dead letter: ${error.message}`);
+    }
+  }
+
+  public async delete(id: string): Promise<void> {
+    const { error } = await this.db.from('dead_letters').delete().eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to delete dead letter: ${error.message}`);
+    }
+  }
+
+  public async findById(id: string): Promise<DeadLetterRecord | null> {
+    const { data, error } = await this.db
+      .from('dead_letters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get dead letter: ${error.message}`);
+    }
+
+    return data ? fromDeadLetterRow(data) : null;
+  }
+
+  public async list(
+    filter: { brand?: string; taskType?: string } = {},
+  ): Promise<DeadLetterRecord[]> {
+    let query = this.db.from('dead_letters').select('*');
+
+    if (filter.brand) {
+      query = query.eq('brand', filter.brand);
+    }
+
+    if (filter.taskType) {
+      query = query.eq('task_type', filter.taskType);
+    }
+
+    const { data, error } = await query.order('failed_at', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get dead letters: ${error.message}`);
+    }
+
+    return (data || []).map(fromDeadLetterRow);
+  }
+}
+
+class SupabaseWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(delivery: WebhookDeliveryRecord): Promise<void> {
+    const { error } = await this.db
+      .from('webhook_deliveries')
+      .insert(toWebhookDeliveryRow(delivery));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create webhook delivery: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<WebhookDeliveryRecord>): Promise<void> {
+    const { error } = await this.db
+      .from('webhook_deliveries')
+      .update(toWebhookDeliveryRow(changes))
+      .eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update webhook delivery: ${error.message}`);
+    }
+  }
+
+  public async claim(
+    id: string,
+    updatedAt: string,
+    changes: Partial<WebhookDeliveryRecord>,
+  ): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('webhook_deliveries')
+      .update(toWebhookDeliveryRow(changes))
+      .eq('id', id)
+      .eq('status', 'pending')
+      .eq('updated_at', updatedAt)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to claim webhook delivery: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  public async findById(id: string): Promise<WebhookDeliveryRecord | null> {
+    const { data, error } = await this.db
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get webhook delivery: ${error.message}`);
+    }
+
+    return data ? fromWebhookDeliveryRow(data) : null;
+  }
+
+  public async list(
+    filter: { executionId?: string; status?: WebhookDeliveryRecord['status'] } = {},
+  ): Promise<WebhookDeliveryRecord[]> {
+    let query = this.db.from('webhook_deliveries').select('*');
+
+    if (filter.executionId) {
+      query = query.eq('execution_id', filter.executionId);
+    }
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get webhook deliveries: ${error.message}`);
+    }
+
+    return (data || []).map(fromWebhookDeliveryRow);
+  }
+}
+
+class SupabaseBatchRepository implements BatchRepository {
+  constructor(private db: SupabaseClient) {}
+
+  public async create(batch: BatchRecord): Promise<void> {
+    const { error } = await this.db.from('batches').insert(toBatchRow(batch));
+
+    if (error) {
+      throw new DatabaseError(`Failed to create batch: ${error.message}`);
+    }
+  }
+
+  public async update(id: string, changes: Partial<BatchRecord>): Promise<void> {
+    const { error } = await this.db.from('batches').update(toBatchRow(changes)).eq('id', id);
+
+    if (error) {
+      throw new DatabaseError(`Failed to update batch: ${error.message}`);
+    }
+  }
+
+  public async settle(id: string, changes: Partial<BatchRecord>): Promise<boolean> {
+    const { data, error } = await this.db
+      .from('batches')
+      .update(toBatchRow(changes))
+      .eq('id', id)
+      .eq('status', 'running')
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to settle batch: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  public async findById(id: string): Promise<BatchRecord | null> {
+    const { data, error } = await this.db.from('batches').select('*').eq('id', id).maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get batch: ${error.message}`);
+    }
+
+    return data ? fromBatchRow(data) : null;
+  }
+
+  public async list(filter: { status?: BatchStatus } = {}): Promise<BatchRecord[]> {
+    let query = this.db.from('batches').select('*');
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError(`Failed to get batches: ${error.message}`);
+    }
+
+    return (data || []).map(fromBatchRow);
+  }
+}
+
+/**
+ * Storage adapter backed by a Supabase project
+ */
+export class SupabaseStorage implements StorageAdapter {
+  public readonly driver = 'supabase' as const;
+  public executions: ExecutionRepository;
+  public logs: LogRepository;
+  public brands: BrandRepository;
+  public tasks: TaskDefinitionRepository;
+  public workflowRuns: WorkflowRunRepository;
+  public schedules: ScheduleRepository;
+  public deadLetters: DeadLetterRepository;
+  public webhookDeliveries: WebhookDeliveryRepository;
+  public batches: BatchRepository;
+
+  constructor(db: SupabaseClient = getSupabaseClient()) {
+    this.executions = new SupabaseExecutionRepository(db);
+    this.logs = new SupabaseLogRepository(db);
+    this.brands = new SupabaseBrandRepository(db);
+    this.tasks = new SupabaseTaskDefinitionRepository(db);
+    this.workflowRuns = new SupabaseWorkflowRunRepository(db);
+    this.schedules = new SupabaseScheduleRepository(db);
+    this.deadLetters = new SupabaseDeadLetterRepository(db);
+    this.webhookDeliveries = new SupabaseWebhookDeliveryRepository(db);
+    this.batches = new SupabaseBatchRepository(db);
+  }
+
+  public async ping(): Promise<boolean> {
+    return checkSupabaseConnection();
+  }
+}
+
+export default {
+  SupabaseStorage,
+};
@@ -0,0 +1,395 @@
+/**
+ * Storage records and repository interfaces shared by all storage drivers
+ */
+
+export type StorageDriver = 'supabase' | 'memory' | 'file';
+
+/**
+ * One attempt at running an execution; retried executions have several
+ */
+export interface ExecutionAttempt {
+  attempt: number;
+  status: 'completed' | 'failed' | 'timed_out';
+  error?: string;
+  errorCode?: string;
+  retryable?: boolean;
+  startedAt: string;
+  completedAt: string;
+  durationMs: number;
+}
+
+/**
+ * Latest progress reported by the agent running an execution
+ */
+export interface ExecutionProgress {
+  percent?: number;
+  stage?: string;
+  current?: number;
+  total?: number;
+  message?: string;
+  updatedAt: string;
+}
+
+/**
+ * A single task execution (task_executions table)
+ */
+export interface ExecutionRecord {
+  id: string;
+  taskId: string | null;
+  agentId: string | null;
+  brand: string | null;
+  parameters: Record<string, any>;
+  status: string;
+  priority: string;
+  result?: any;
+  error?: string | null;
+  createdAt: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  attempts?: ExecutionAttempt[];
+  progress?: ExecutionProgress | null;
+  /** Client-supplied key that makes resubmissions return this execution */
+  idempotencyKey?: string | null;
+  /** Brand or API key the idempotency key is unique within */
+  idempotencyScope?: string | null;
+  /** Fingerprint of the task's inputs, for agents that make their results cacheable */
+  fingerprint?: string | null;
+  /** Execution whose cached result this execution returned instead of running */
+  cachedFrom?: string | null;
+}
+
+/**
+ * A log entry written by an agent during an execution (agent_logs table)
+ */
+export interface AgentLogRecord {
+  id: string;
+  executionId: string;
+  agentId: string | null;
+  level: string;
+  message: string;
+  metadata: Record<string, any>;
+  timestamp: string;
+}
+
+/**
+ * A stored brand configuration (brands table)
+ */
+export type BrandRecord = Record<string, any> & {
+  key: string;
+  name: string;
+};
+
+/**
+ * A task type definition (tasks table)
+ */
+export interface TaskDefinitionRecord {
+  id: string;
+  type: string;
+  name?: string;
+  description?: string;
+  [key: string]: any;
+}
+
+/**
+ * State of a single step within a workflow run
+ */
+export interface WorkflowStepState {
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  executionId?: string;
+  output?: any;
+  error?: string;
+  reason?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * A run of a multi-step workflow (workflow_runs table)
+ */
+export interface WorkflowRunRecord {
+  id: string;
+  name: string;
+  brand: string | null;
+  definition: Record<string, any>;
+  input: Record<string, any>;
+  status: 'running' | 'completed' | 'failed';
+  steps: Record<string, WorkflowStepState>;
+  /** Process that advances the run while it is running */
+  ownerId?: string | null;
+  /** Until when the owner holds the run; other processes take it over afterwards */
+  leaseExpiresAt?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+/**
+ * How a schedule handles occurrences that passed while the scheduler was not running
+ */
+export type MissedRunPolicy = 'skip' | 'runOnce' | 'runAll';
+
+/**
+ * A recurring task declared in a brand configuration or created through the API (schedules table)
+ */
+export interface ScheduleRecord {
+  id: string;
+  brand: string;
+  source: 'brand' | 'api';
+  cron: string;
+  taskType: string;
+  parameters: Record<string, any>;
+  priority?: string | null;
+  enabled: boolean;
+  missedRunPolicy: MissedRunPolicy;
+  lastRunAt?: string | null;
+  lastExecutionId?: string | null;
+  nextRunAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An execution that failed for good, kept for inspection and replay (dead_letters table)
+ */
+export interface DeadLetterRecord {
+  id: string;
+  executionId: string;
+  taskType: string;
+  brand: string | null;
+  /** What is needed to submit the task again */
+  context: {
+    parameters: Record<string, any>;
+    priority: string;
+    callback?: string;
+    taskConfig?: Record<string, any>;
+  };
+  error: string;
+  errorCode?: string | null;
+  attempts: ExecutionAttempt[];
+  failedAt: string;
+  replayedAt?: string | null;
+  replayExecutionId?: string | null;
+}
+
+/**
+ * One HTTP attempt at delivering a webhook
+ */
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  statusCode?: number;
+  error?: string;
+  attemptedAt: string;
+  durationMs: number;
+}
+
+/**
+ * A signed callback POSTed to a client's webhook URL (webhook_deliveries table)
+ */
+export interface WebhookDeliveryRecord {
+  id: string;
+  executionId: string;
+  brand: string | null;
+  url: string;
+  /** Body sent on every attempt, so redeliveries are byte-for-byte identical */
+  payload: Record<string, any>;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  maxAttempts: number;
+  nextAttemptAt?: string | null;
+  /** Set on manual redeliveries to the delivery they repeat */
+  redeliveryOf?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string | null;
+}
+
+/**
+ * One task of a batch and the execution it was submitted as
+ */
+export interface BatchItem {
+  index: number;
+  task: string;
+  brand: string | null;
+  /** Null when the task was rejected before an execution was created */
+  executionId: string | null;
+  error?: { code: string; message: string; details?: any } | null;
+}
+
+export type BatchStatus = 'running' | 'completed' | 'partially_failed' | 'failed';
+
+/**
+ * Tasks submitted together and tracked as one unit (batches table)
+ */
+export interface BatchRecord {
+  id: string;
+  /** Brand the batch was submitted for, when authenticated */
+  brand: string | null;
+  items: BatchItem[];
+  status: BatchStatus;
+  /** Notified once when every task has finished */
+  callback?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
+export type ExecutionSortField = 'createdAt' | 'startedAt' | 'completedAt';
+
+/**
+ * Filters, ordering and keyset position for listing executions
+ */
+export interface ExecutionQuery {
+  brand?: string;
+  taskId?: string;
+  /** Matches any of the statuses */
+  status?: string[];
+  agentId?: string;
+  /** Inclusive bounds on createdAt */
+  createdFrom?: string;
+  createdTo?: string;
+  /** Executions without a value for the sort field are left out */
+  sortBy: ExecutionSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  /** Return executions after this sort value and ID, in the query's order */
+  after?: { value: string; id: string };
+}
+
+export interface ExecutionRepository {
+  create(record: ExecutionRecord): Promise<void>;
+  update(id: string, changes: Partial<ExecutionRecord>): Promise<void>;
+  findById(id: string): Promise<ExecutionRecord | null>;
+  /** Newest execution with the key in the scope created after the given time */
+  findByIdempotencyKey(
+    scope: string,
+    key: string,
+    createdAfter: string,
+  ): Promise<ExecutionRecord | null>;
+  /**
+   * Newest execution with the fingerprint that ran to completion after the given time;
+   * executions served from cache are skipped so cached results never outlive their TTL
+   */
+  findByFingerprint(fingerprint: string, completedAfter: string): Promise<ExecutionRecord | null>;
+  /** Executions matching the query, ordered by the sort field then ID */
+  list(query: ExecutionQuery): Promise<ExecutionRecord[]>;
+}
+
+/**
+ * Filters and keyset position for reading an execution's logs, oldest first
+ */
+export interface LogQuery {
+  executionId: string;
+  /** Matches any of the levels */
+  levels?: string[];
+  limit: number;
+  /** Return entries after this timestamp and ID */
+  after?: { timestamp: string; id: string };
+}
+
+export interface LogRepository {
+  append(entry: AgentLogRecord): Promise<void>;
+  findByExecution(executionId: string): Promise<AgentLogRecord[]>;
+  /** Entries matching the query, ordered by timestamp then ID */
+  list(query: LogQuery): Promise<AgentLogRecord[]>;
+}
+
+export interface BrandRepository {
+  findByKey(key: string): Promise<BrandRecord | null>;
+  findByApiKey(apiKey: string): Promise<BrandRecord | null>;
+  list(): Promise<BrandRecord[]>;
+  create(brand: BrandRecord): Promise<void>;
+  update(key: string, brand: BrandRecord): Promise<void>;
+}
+
+export interface TaskDefinitionRepository {
+  findByType(type: string): Promise<TaskDefinitionRecord | null>;
+  list(): Promise<TaskDefinitionRecord[]>;
+  upsert(definition: TaskDefinitionRecord): Promise<void>;
+}
+
+export interface WorkflowRunRepository {
+  create(run: WorkflowRunRecord): Promise<void>;
+  update(id: string, changes: Partial<WorkflowRunRecord>): Promise<void>;
+  /**
+   * Apply changes only if the run is still running and its lease is unchanged since
+   * leaseExpiresAt. Returns false when another process changed it first.
+   */
+  claim(
+    id: string,
+    leaseExpiresAt: string | null,
+    changes: Partial<WorkflowRunRecord>,
+  ): Promise<boolean>;
+  findById(id: string): Promise<WorkflowRunRecord | null>;
+  /** Oldest first */
+  list(filter?: { status?: WorkflowRunRecord['status'] }): Promise<WorkflowRunRecord[]>;
+}
+
+export interface ScheduleRepository {
+  create(schedule: ScheduleRecord): Promise<void>;
+  update(id: string, changes: Partial<ScheduleRecord>): Promise<void>;
+  /**
+   * Apply changes only if nextRunAt is unchanged since it was read.
+   * Returns false when another process moved the schedule on first.
+   */
+  claim(id: string, nextRunAt: string, changes: Partial<ScheduleRecord>): Promise<boolean>;
+  delete(id: string): Promise<void>;
+  findById(id: string): Promise<ScheduleRecord | null>;
+  list(filter?: { brand?: string }): Promise<ScheduleRecord[]>;
+}
+
+export interface DeadLetterRepository {
+  create(entry: DeadLetterRecord): Promise<void>;
+  update(id: string, changes: Partial<DeadLetterRecord>): Promise<void>;
+  delete(id: string): Promise<void>;
+  findById(id: string): Promise<DeadLetterRecord | null>;
+  /** Newest first */
+  list(filter?: { brand?: string; taskType?: string }): Promise<DeadLetterRecord[]>;
+}
+
+export interface BatchRepository {
+  create(batch: BatchRecord): Promise<void>;
+  update(id: string, changes: Partial<BatchRecord>): Promise<void>;
+  /**
+   * Apply changes only if the batch is still running.
+   * Returns false when another process settled it first.
+   */
+  settle(id: string, changes: Partial<BatchRecord>): Promise<boolean>;
+  findById(id: string): Promise<BatchRecord | null>;
+  /** Oldest first */
+  list(filter?: { status?: BatchStatus }): Promise<BatchRecord[]>;
+}
+
+export interface WebhookDeliveryRepository {
+  create(delivery: WebhookDeliveryRecord): Promise<void>;
+  update(id: string, changes: Partial<WebhookDeliveryRecord>): Promise<void>;
+  /**
+   * Apply changes only if the delivery is still pending and unchanged since updatedAt.
+   * Returns false when another process changed it first.
+   */
+  claim(id: string, updatedAt: string, changes: Partial<WebhookDeliveryRecord>): Promise<boolean>;
+  findById(id: string): Promise<WebhookDeliveryRecord | null>;
+  /** Oldest first */
+  list(filter?: {
+    executionId?: string;
+    status?: WebhookDeliveryRecord['status'];
+  }): Promise<WebhookDeliveryRecord[]>;
+}
+
+/**
+ * Entry point to all persisted state, implemented once per storage driver
+ */
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+  executions: ExecutionRepository;
+  logs: LogRepository;
+  brands: BrandRepository;
+  tasks: TaskDefinitionRepository;
+  workflowRuns: WorkflowRunRepository;
+  schedules: ScheduleRepository;
+  deadLetters: DeadLetterRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  batches: BatchRepository;
+
+  /**
+   * Check that the underlying store is reachable
+   */
+  ping(): Promise<boolean>;
+}
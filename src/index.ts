@@ -1,13 +1,18 @@
 import cors from 'cors';
 import dotenv from 'dotenv';
 import express from 'express';
+import { Server } from 'http';
 import { setupRoutes } from './api';
 import { initializeBrands } from './brands';
 import { errorHandler } from './core/errors';
 import { setupLogger } from './core/logger';
 import { initializeDatabase } from './db';
-import { initializeOrchestrator } from './orchestrator';
-import { initializeRegistry } from './registry';
+import { initializeBatches, initializeOrchestrator, taskQueue, taskWorker } from './orchestrator';
+import { initializeRegistry, registry } from './registry';
+import { pluginManager } from './registry/plugins';
+import { initializeScheduler } from './scheduler';
+import { initializeWebhooks } from './webhooks';
+import { initializeWorkflows } from './workflows';
 
 // Load environment variables
 dotenv.config();
@@ -15,6 +20,11 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// api serves requests, worker runs queued tasks, combined does both
+type AppMode = 'api' | 'worker' | 'combined';
+
+const MODE = (process.env.APP_MODE || 'combined') as AppMode;
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -26,6 +36,10 @@ setupLogger(app);
 // Initialize components
 (async () => {
   try {
+    if (!['api', 'worker', 'combined'].includes(MODE)) {
+      throw new Error(`Unknown APP_MODE: ${MODE} (expected api, worker or combined)`);
+    }
+
     // Initialize database connection
     await initializeDatabase();
     console.log('Database connection established');
@@ -42,16 +56,60 @@ setupLogger(app);
     await initializeOrchestrator();
     console.log('Task orchestrator initialized');
 
-    // Setup API routes
-    setupRoutes(app);
+    // Resume webhook deliveries interrupted by a restart
+    await initializeWebhooks();
+
+    // Every process resumes workflow runs and batches left by stopped processes; runs are
+    // claimed with a lease in storage and batches settle once, so each is handled once
+    await initializeWorkflows();
+    await initializeBatches();
+
+    let server: Server | null = null;
+
+    if (MODE !== 'worker') {
+      // Start submitting scheduled tasks
+      await initializeScheduler();
+
+      // Setup API routes
+      setupRoutes(app);
+
+      // Error handling middleware
+      app.use(errorHandler);
+
+      // Start server
+      server = app.listen(PORT, () => {
+        console.log(`Unified Agent Framework running on port ${PORT}`);
+      });
+
+      if (MODE === 'api' && taskQueue.getBackendType() === 'memory') {
+        console.warn('APP_MODE=api with the memory queue backend: submitted tasks never run');
+      }
+    }
+
+    if (MODE !== 'api') {
+      // Take queued tasks of the task types and brands selected by WORKER_* settings
+      const jobNames = await taskWorker.start();
+      console.log(`Worker processing ${jobNames.length} task queues`);
+    }
+
+    // Stop taking requests and tasks, let running tasks finish, then release agent resources
+    const shutdown = async (signal: string) => {
+      console.log(`${signal} received, shutting down`);
+      server?.close();
+      pluginManager.stopWatching();
+
+      if (MODE === 'api') {
+        await taskQueue.close();
+      } else {
+        await taskWorker.drain();
+      }
 
-    // Error handling middleware
-    app.use(errorHandler);
+      await registry.shutdownAgents();
+      process.exit(0);
+    };
 
-    // Start server
-    app.listen(PORT, () => {
-      console.log(`Unified Agent Framework running on port ${PORT}`);
-    });
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+    process.once('SIGINT', () => shutdown('SIGINT'));
   } catch (error) {
     console.error('Failed to initialize application:', error);
     process.exit(1);
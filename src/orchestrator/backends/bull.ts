@@ -0,0 +1,203 @@
+import Queue from 'bull';
+import Redis from 'ioredis';
+import { isRetryableError } from '../../core/errors';
+import {
+  ErrorListener,
+  FailedListener,
+  JobProcessor,
+  JobState,
+  QueueBackend,
+  QueueJob,
+  QueueJobOptions,
+} from './types';
+
+// Bull requires these on subscriber and blocking connections
+const subscriberOptions = { maxRetriesPerRequest: null, enableReadyCheck: false };
+
+/**
+ * Wrap a Bull job in the backend-independent job shape
+ */
+function toQueueJob(job: Queue.Job): QueueJob {
+  return {
+    id: String(job.id),
+    name: job.name,
+    data: job.data,
+    opts: job.opts as QueueJobOptions,
+    attemptsMade: job.attemptsMade,
+  };
+}
+
+/**
+ * Queue backend backed by Bull and Redis. Each job name gets its own Redis queue
+ * (`tasks:<name>`), so that workers only take the jobs they registered processors for.
+ * The queues share one command and one subscriber connection; only queues with a
+ * processor open a blocking connection of their own.
+ */
+export class BullQueueBackend implements QueueBackend {
+  public readonly type = 'bull' as const;
+  private queues: Map<string, Queue.Queue> = new Map();
+  private client: Redis | null = null;
+  private subscriber: Redis | null = null;
+  private blockingClients: Redis[] = [];
+  private failedListeners: FailedListener[] = [];
+  private errorListeners: ErrorListener[] = [];
+
+  constructor(
+    private redisUrl: string,
+    private defaultJobOptions: QueueJobOptions,
+  ) {}
+
+  public async add(name: string, data: any, opts: QueueJobOptions = {}): Promise<QueueJob> {
+    const job = await this.getQueue(name).add(name, data, opts);
+    return toQueueJob(job);
+  }
+
+  public process(name: string, concurrency: number, processor: JobProcessor): void {
+    if (name === '*') {
+      throw new Error('The Bull queue backend needs a processor for each job name');
+    }
+
+    this.getQueue(name).process(name, concurrency, async (job: Queue.Job) => {
+      try {
+        return await processor(toQueueJob(job));
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          // Tell Bull not to schedule the remaining attempts
+          await job.discard();
+        }
+        throw error;
+      }
+    });
+  }
+
+  public async getJob(jobId: string, name?: string): Promise<QueueJob | null> {
+    const job = name ? await this.getQueue(name).getJob(jobId) : null;
+    return job ? toQueueJob(job) : null;
+  }
+
+  public async getJobState(jobId: string, name?: string): Promise<JobState> {
+    const job = name ? await this.getQueue(name).getJob(jobId) : null;
+
+    if (!job) {
+      return 'not_found';
+    }
+
+    const state = await job.getState();
+    return state === 'paused' || state === 'stuck' ? 'waiting' : (state as JobState);
+  }
+
+  public async removeJob(jobId: string, name?: string): Promise<boolean> {
+    const job = name ? await this.getQueue(name).getJob(jobId) : null;
+
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+
+    if (state === 'completed' || state === 'failed' || state === 'active') {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  public onFailed(listener: FailedListener): void {
+    this.failedListeners.push(listener);
+
+    for (const queue of this.queues.values()) {
+      this.attachFailed(queue, listener);
+    }
+  }
+
+  public onError(listener: ErrorListener): void {
+    this.errorListeners.push(listener);
+
+    for (const queue of this.queues.values()) {
+      queue.on('error', listener);
+    }
+  }
+
+  /**
+   * Ping Redis through an open queue, or a short-lived one if nothing was queued yet
+   */
+  public async ping(): Promise<boolean> {
+    const open: Queue.Queue | undefined = this.queues.values().next().value;
+    const queue = open || new Queue('tasks:ping', this.redisUrl);
+
+    try {
+      await queue.isReady();
+      return (await queue.client.ping()) === 'PONG';
+    } finally {
+      if (!open) {
+        await queue.close();
+      }
+    }
+  }
+
+  public acceptsRetries(): boolean {
+    return true;
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all(Array.from(this.queues.values()).map(queue => queue.close()));
+
+    // Bull leaves connections it did not create open
+    this.blockingClients.forEach(client => client.disconnect());
+    await Promise.all([this.client?.quit(), this.subscriber?.quit()]);
+  }
+
+  /**
+   * Get the Redis queue for a job name, opening it on first use
+   */
+  private getQueue(name: string): Queue.Queue {
+    let queue = this.queues.get(name);
+
+    if (!queue) {
+      queue = new Queue(`tasks:${name}`, this.redisUrl, {
+        defaultJobOptions: this.defaultJobOptions,
+        createClient: type => this.createClient(type),
+      });
+
+      for (const listener of this.failedListeners) {
+        this.attachFailed(queue, listener);
+      }
+      for (const listener of this.errorListeners) {
+        queue.on('error', listener);
+      }
+
+      this.queues.set(name, queue);
+    }
+
+    return queue;
+  }
+
+  /**
+   * Redis connection for a queue: the shared command or subscriber connection, or a new
+   * blocking connection for the queue to wait for jobs on
+   */
+  private createClient(type: 'client' | 'subscriber' | 'bclient'): Redis {
+    if (type === 'client') {
+      this.client = this.client || new Redis(this.redisUrl);
+      return this.client;
+    }
+
+    if (type === 'subscriber') {
+      this.subscriber = this.subscriber || new Redis(this.redisUrl, subscriberOptions);
+      return this.subscriber;
+    }
+
+    const client = new Redis(this.redisUrl, subscriberOptions);
+    this.blockingClients.push(client);
+    return client;
+  }
+
+  private attachFailed(queue: Queue.Queue, listener: FailedListener): void {
+    queue.on('failed', (job: Queue.Job, error: Error) => listener(toQueueJob(job), error));
+  }
+}
+
+export default {
+  BullQueueBackend,
+};
@@ -0,0 +1,27 @@
+import { BullQueueBackend } from './bull';
+import { MemoryQueueBackend } from './memory';
+import { QueueBackend, QueueBackendType, QueueJobOptions } from './types';
+
+/**
+ * Create a queue backend of the given type
+ */
+export function createQueueBackend(
+  type: QueueBackendType,
+  defaultJobOptions: QueueJobOptions,
+): QueueBackend {
+  switch (type) {
+    case 'bull':
+      return new BullQueueBackend(
+        process.env.REDIS_URL || 'redis://localhost:6379',
+        defaultJobOptions,
+      );
+    case 'memory':
+      return new MemoryQueueBackend(defaultJobOptions);
+    default:
+      throw new Error(`Unknown queue backend: ${type}`);
+  }
+}
+
+export * from './types';
+
+export { BullQueueBackend, MemoryQueueBackend };
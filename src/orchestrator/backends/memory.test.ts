@@ -0,0 +1,128 @@
+import { TaskValidationError } from '../../core/errors';
+import { MemoryQueueBackend } from './memory';
+import { QueueJob } from './types';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('MemoryQueueBackend', () => {
+  let backend: MemoryQueueBackend;
+
+  beforeEach(() => {
+    backend = new MemoryQueueBackend();
+  });
+
+  afterEach(async () => {
+    await backend.close();
+  });
+
+  it('should process jobs in priority order', async () => {
+    const processed: string[] = [];
+
+    await backend.add('task', { label: 'low' }, { priority: 15 });
+    await backend.add('task', { label: 'highest' }, { priority: 1 });
+    await backend.add('task', { label: 'medium' }, { priority: 10 });
+
+    backend.process('*', 1, async (job: QueueJob) => {
+      processed.push(job.data.label);
+    });
+
+    await waitFor(() => processed.length === 3);
+    expect(processed).toEqual(['highest', 'medium', 'low']);
+  });
+
+  it('should retry failed jobs with exponential backoff', async () => {
+    const attemptTimes: number[] = [];
+    const failures: number[] = [];
+
+    backend.onFailed(job => failures.push(job.attemptsMade));
+    backend.process('task', 1, async () => {
+      attemptTimes.push(Date.now());
+      if (attemptTimes.length < 3) {
+        throw new Error('transient');
+      }
+    });
+
+    const job = await backend.add(
+      'task',
+      {},
+      { attempts: 3, backoff: { type: 'exponential', delay: 20 } },
+    );
+
+    await waitFor(() => attemptTimes.length === 3);
+    await waitFor(() => failures.length === 2);
+
+    expect(failures).toEqual([1, 2]);
+    expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(15);
+    expect(attemptTimes[2] - attemptTimes[1]).toBeGreaterThanOrEqual(35);
+    await waitFor(() => job.attemptsMade === 2);
+    expect(await backend.getJobState(job.id)).toBe('completed');
+  });
+
+  it('should mark jobs failed after the last attempt', async () => {
+    backend.process('task', 1, async () => {
+      throw new Error('permanent');
+    });
+
+    const job = await backend.add('task', {}, { attempts: 2 });
+
+    await waitFor(() => job.attemptsMade === 2);
+    expect(await backend.getJobState(job.id)).toBe('failed');
+  });
+
+  it('should not retry errors that are not retryable', async () => {
+    backend.process('task', 1, async () => {
+      throw new TaskValidationError('Deck ID and base path are required');
+    });
+
+    const job = await backend.add('task', {}, { attempts: 3 });
+
+    await waitFor(() => job.attemptsMade === 1);
+    expect(await backend.getJobState(job.id)).toBe('failed');
+  });
+
+  it('should cancel jobs that have not started', async () => {
+    const processed: string[] = [];
+    const job = await backend.add('task', { label: 'cancelled' }, { jobId: 'exec-1' });
+
+    expect(job.id).toBe('exec-1');
+    expect(await backend.removeJob('exec-1')).toBe(true);
+
+    backend.process('task', 1, async (queued: QueueJob) => {
+      processed.push(queued.data.label);
+    });
+    await backend.add('task', { label: 'kept' });
+
+    await waitFor(() => processed.length === 1);
+    expect(processed).toEqual(['kept']);
+    expect(await backend.getJobState('exec-1')).toBe('not_found');
+  });
+
+  it('should respect processor concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    let done = 0;
+
+    backend.process('*', 2, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+      done++;
+    });
+
+    for (let i = 0; i < 5; i++) {
+      await backend.add('task', { index: i });
+    }
+
+    await waitFor(() => done === 5);
+    expect(maxActive).toBe(2);
+  });
+});
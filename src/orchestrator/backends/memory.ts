@@ -0,0 +1,252 @@
+import { EventEmitter } from 'events';
+import { isRetryableError } from '../../core/errors';
+import {
+  ErrorListener,
+  FailedListener,
+  JobProcessor,
+  JobState,
+  QueueBackend,
+  QueueJob,
+  QueueJobOptions,
+} from './types';
+
+interface StoredJob {
+  job: QueueJob;
+  state: JobState;
+  sequence: number;
+  retryTimer?: NodeJS.Timeout;
+}
+
+interface RegisteredProcessor {
+  name: string;
+  concurrency: number;
+  active: number;
+  processor: JobProcessor;
+}
+
+/**
+ * In-process queue backend with priorities, retries with backoff,
+ * cancellation and per-processor concurrency. Jobs are lost on exit.
+ */
+export class MemoryQueueBackend implements QueueBackend {
+  public readonly type = 'memory' as const;
+  private jobs: Map<string, StoredJob> = new Map();
+  private processors: RegisteredProcessor[] = [];
+  private events = new EventEmitter();
+  private nextId = 1;
+  private nextSequence = 1;
+  private closed = false;
+  private running: Set<Promise<void>> = new Set();
+
+  constructor(private defaultJobOptions: QueueJobOptions = {}) {}
+
+  public async add(name: string, data: any, opts: QueueJobOptions = {}): Promise<QueueJob> {
+    const jobOptions = { ...this.defaultJobOptions, ...opts };
+    const id = jobOptions.jobId || String(this.nextId++);
+
+    // Like Bull, adding a job with an existing ID is a no-op
+    const existing = this.jobs.get(id);
+    if (existing) {
+      return existing.job;
+    }
+
+    const job: QueueJob = { id, name, data, opts: jobOptions, attemptsMade: 0 };
+    this.jobs.set(id, { job, state: 'waiting', sequence: this.nextSequence++ });
+    this.scheduleDrain();
+
+    return job;
+  }
+
+  public process(name: string, concurrency: number, processor: JobProcessor): void {
+    this.processors.push({ name, concurrency: Math.max(1, concurrency), active: 0, processor });
+    this.scheduleDrain();
+  }
+
+  public async getJob(jobId: string): Promise<QueueJob | null> {
+    return this.jobs.get(jobId)?.job || null;
+  }
+
+  public async getJobState(jobId: string): Promise<JobState> {
+    return this.jobs.get(jobId)?.state || 'not_found';
+  }
+
+  public async removeJob(jobId: string): Promise<boolean> {
+    const stored = this.jobs.get(jobId);
+
+    if (!stored || (stored.state !== 'waiting' && stored.state !== 'delayed')) {
+      return false;
+    }
+
+    if (stored.retryTimer) {
+      clearTimeout(stored.retryTimer);
+    }
+
+    this.jobs.delete(jobId);
+    return true;
+  }
+
+  public onFailed(listener: FailedListener): void {
+    this.events.on('failed', listener);
+  }
+
+  public onError(listener: ErrorListener): void {
+    this.events.on('error', listener);
+  }
+
+  public async ping(): Promise<boolean> {
+    return !this.closed;
+  }
+
+  public acceptsRetries(): boolean {
+    return !this.closed;
+  }
+
+  /**
+   * Stop picking up jobs and wait for active jobs to finish
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+
+    for (const stored of this.jobs.values()) {
+      if (stored.retryTimer) {
+        clearTimeout(stored.retryTimer);
+      }
+    }
+
+    await Promise.all(Array.from(this.running));
+  }
+
+  private scheduleDrain(): void {
+    setImmediate(() => this.drain());
+  }
+
+  /**
+   * Start as many waiting jobs as processor concurrency allows
+   */
+  private drain(): void {
+    if (this.closed) {
+      return;
+    }
+
+    for (const registered of this.processors) {
+      while (registered.active < registered.concurrency) {
+        const next = this.nextWaitingJob(registered.name);
+
+        if (!next) {
+          break;
+        }
+
+        this.run(registered, next);
+      }
+    }
+  }
+
+  /**
+   * Pick the waiting job with the best priority, oldest first
+   */
+  private nextWaitingJob(processorName: string): StoredJob | undefined {
+    let best: StoredJob | undefined;
+
+    for (const stored of this.jobs.values()) {
+      if (stored.state !== 'waiting') {
+        continue;
+      }
+
+      if (processorName !== '*' && stored.job.name !== processorName) {
+        continue;
+      }
+
+      if (
+        !best ||
+        this.priorityOf(stored) < this.priorityOf(best) ||
+        (this.priorityOf(stored) === this.priorityOf(best) && stored.sequence < best.sequence)
+      ) {
+        best = stored;
+      }
+    }
+
+    return best;
+  }
+
+  private priorityOf(stored: StoredJob): number {
+    return stored.job.opts.priority ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  private run(registered: RegisteredProcessor, stored: StoredJob): void {
+    stored.state = 'active';
+    registered.active++;
+
+    const execution = registered
+      .processor(stored.job)
+      .then(
+        () => this.handleCompleted(stored),
+        error => this.handleFailed(stored, error),
+      )
+      .finally(() => {
+        registered.active--;
+        this.running.delete(execution);
+        this.scheduleDrain();
+      });
+
+    this.running.add(execution);
+  }
+
+  private handleCompleted(stored: StoredJob): void {
+    stored.state = 'completed';
+
+    if (stored.job.opts.removeOnComplete) {
+      this.jobs.delete(stored.job.id);
+    }
+  }
+
+  private handleFailed(stored: StoredJob, error: any): void {
+    const { job } = stored;
+    job.attemptsMade++;
+
+    const maxAttempts = job.opts.attempts || 1;
+
+    if (job.attemptsMade < maxAttempts && this.acceptsRetries() && isRetryableError(error)) {
+      // Wait for the backoff delay before making the job available again
+      stored.state = 'delayed';
+      stored.retryTimer = setTimeout(() => {
+        stored.retryTimer = undefined;
+        stored.state = 'waiting';
+        this.drain();
+      }, this.backoffDelay(job));
+    } else {
+      stored.state = 'failed';
+
+      if (job.opts.removeOnFail) {
+        this.jobs.delete(job.id);
+      }
+    }
+
+    this.emitFailed(job, error instanceof Error ? error : new Error(String(error)));
+  }
+
+  private backoffDelay(job: QueueJob): number {
+    const backoff = job.opts.backoff;
+
+    if (!backoff) {
+      return 0;
+    }
+
+    if (backoff.type === 'fixed') {
+      return backoff.delay;
+    }
+
+    return backoff.delay * Math.pow(2, job.attemptsMade - 1);
+  }
+
+  private emitFailed(job: QueueJob, error: Error): void {
+    try {
+      this.events.emit('failed', job, error);
+    } catch (listenerError) {
+      this.events.emit('error', listenerError);
+    }
+  }
+}
+
+export default {
+  MemoryQueueBackend,
+};
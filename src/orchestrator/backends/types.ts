@@ -0,0 +1,92 @@
+/**
+ * Queue backend contracts shared by the Bull and in-memory implementations
+ */
+
+export type QueueBackendType = 'bull' | 'memory';
+
+export type JobState = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed' | 'not_found';
+
+export interface JobBackoffOptions {
+  type: 'exponential' | 'fixed';
+  delay: number;
+}
+
+export interface QueueJobOptions {
+  jobId?: string;
+  priority?: number;
+  attempts?: number;
+  backoff?: JobBackoffOptions;
+  removeOnComplete?: boolean;
+  removeOnFail?: boolean;
+}
+
+/**
+ * A job as seen by task processors, independent of the backend
+ */
+export interface QueueJob<T = any> {
+  id: string;
+  name: string;
+  data: T;
+  opts: QueueJobOptions;
+
+  /**
+   * Number of attempts that have already failed
+   */
+  attemptsMade: number;
+}
+
+export type JobProcessor = (job: QueueJob) => Promise<any>;
+
+export type FailedListener = (job: QueueJob, error: Error) => void;
+
+export type ErrorListener = (error: Error) => void;
+
+export interface QueueBackend {
+  readonly type: QueueBackendType;
+
+  /**
+   * Add a job; processors registered for `name` (or `*`) will pick it up.
+   * The Bull backend keeps a separate Redis queue for each name.
+   */
+  add(name: string, data: any, opts?: QueueJobOptions): Promise<QueueJob>;
+
+  /**
+   * Register a processor for a job name, or `*` for all jobs (memory backend only).
+   * Up to `concurrency` jobs of that name run at once.
+   * A processor error that is not retryable (see isRetryableError) fails the job
+   * without using its remaining attempts.
+   */
+  process(name: string, concurrency: number, processor: JobProcessor): void;
+
+  /**
+   * Find a job by ID; the Bull backend also needs the name it was added with
+   */
+  getJob(jobId: string, name?: string): Promise<QueueJob | null>;
+
+  getJobState(jobId: string, name?: string): Promise<JobState>;
+
+  /**
+   * Remove a job that has not started yet. Returns false if it cannot be removed.
+   */
+  removeJob(jobId: string, name?: string): Promise<boolean>;
+
+  onFailed(listener: FailedListener): void;
+
+  onError(listener: ErrorListener): void;
+
+  /**
+   * Whether the backend can accept and hand out jobs
+   */
+  ping(): Promise<boolean>;
+
+  /**
+   * Whether a job failing now would get its remaining attempts. False once the memory
+   * backend is closing, since it drops retries; Bull keeps them in Redis for other workers.
+   */
+  acceptsRetries(): boolean;
+
+  /**
+   * Stop picking up jobs and wait for active jobs to finish
+   */
+  close(): Promise<void>;
+}
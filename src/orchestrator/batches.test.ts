@@ -0,0 +1,198 @@
+import { BatchNotFoundError } from '../core/errors';
+import { ExecutionRecord, MemoryStorage, setStorage, WebhookDeliveryRecord } from '../db';
+import { metricsManager } from '../core/metrics';
+import { webhookDispatcher } from '../webhooks';
+import { MemoryQueueBackend } from './backends';
+import { BatchManager, batchManager } from './batches';
+import { taskExecutor } from './executor';
+import { taskQueue } from './queue';
+
+const agent = {
+  getInfo: () => ({ id: 'agent-1', name: 'agent-1', version: '1.0.0', priority: 0 }),
+  executeTask: jest.fn(),
+  getParameterSchema: jest.fn(),
+};
+
+jest.mock('../registry', () => ({
+  registry: {
+    findAgentForTask: () => agent,
+    getAgent: () => agent,
+    getAgentsByCapability: () => [agent],
+    isHealthy: () => true,
+  },
+}));
+
+let storage: MemoryStorage;
+
+const execution = (id: string, status: string): ExecutionRecord => ({
+  id,
+  taskId: 'task-1',
+  agentId: 'agent-1',
+  brand: null,
+  parameters: {},
+  status,
+  priority: 'medium',
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Store a running batch as a previous process would have left it
+ */
+async function createRunningBatch(executionIds: string[]) {
+  await storage.batches.create({
+    id: 'batch-1',
+    brand: null,
+    items: executionIds.map((executionId, index) => ({
+      index,
+      task: 'validateDirectory',
+      brand: null,
+      executionId,
+    })),
+    status: 'running',
+    createdAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Wait until a batch has settled
+ */
+async function settled(batchId: string) {
+  for (let i = 0; i < 100; i++) {
+    const summary = await batchManager.getBatchResults(batchId);
+    if (summary.batch.status !== 'running') {
+      return summary;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  throw new Error(`Batch ${batchId} is still running`);
+}
+
+beforeAll(() => {
+  process.env.AGENT_MAX_RETRIES = '0';
+  taskQueue.setBackend(new MemoryQueueBackend());
+  taskQueue.processTask('*', 5, job => taskExecutor.processJob(job));
+});
+
+afterAll(async () => {
+  delete process.env.AGENT_MAX_RETRIES;
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  await storage.tasks.upsert({ id: 'task-1', type: 'validateDirectory' });
+  agent.executeTask.mockReset();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('BatchManager', () => {
+  it('should run every task and report results', async () => {
+    agent.executeTask.mockImplementation(async context => ({
+      directory: context.parameters.directoryPath,
+    }));
+
+    const batch = await batchManager.submitBatch({
+      entries: [
+        { request: { task: 'validateDirectory', parameters: { directoryPath: '/a' } } },
+        { request: { task: 'validateDirectory', parameters: { directoryPath: '/b' } } },
+      ],
+    });
+    const summary = await settled(batch.id);
+
+    expect(summary.batch.status).toBe('completed');
+    expect(summary.counts).toEqual({ completed: 2 });
+    expect(summary.items.map(item => item.result)).toEqual([
+      { directory: '/a' },
+      { directory: '/b' },
+    ]);
+  });
+
+  it('should report rejected and failed tasks without stopping the rest', async () => {
+    agent.executeTask
+      .mockResolvedValueOnce({ valid: true })
+      .mockRejectedValueOnce(new Error('disk unavailable'));
+
+    const batch = await batchManager.submitBatch({
+      entries: [
+        { request: { task: 'validateDirectory', parameters: { directoryPath: '/a' } } },
+        { request: { task: 'validateDirectory', parameters: { directoryPath: '/b' } } },
+        { request: { task: 'unknownTask', parameters: {} } },
+        { task: 'validateDirectory', error: { code: 'VALIDATION_ERROR', message: 'Bad item' } },
+      ],
+    });
+
+    expect(batch.items.map(item => Boolean(item.executionId))).toEqual([true, true, false, false]);
+    expect(batch.items[2].error?.code).toBe('TASK_NOT_FOUND');
+
+    const summary = await settled(batch.id);
+
+    expect(summary.batch.status).toBe('partially_failed');
+    expect(summary.counts).toEqual({ completed: 1, failed: 1, rejected: 2 });
+  });
+
+  it('should fail a batch where nothing could be submitted', async () => {
+    const batch = await batchManager.submitBatch({
+      entries: [{ error: { code: 'VALIDATION_ERROR', message: 'Bad item' } }],
+    });
+
+    expect((await batchManager.getBatchStatus(batch.id)).batch.status).toBe('failed');
+  });
+
+  it('should settle batches whose tasks finished without a watcher when read', async () => {
+    await storage.executions.create(execution('execution-1', 'completed'));
+    await storage.executions.create(execution('execution-2', 'failed'));
+    await createRunningBatch(['execution-1', 'execution-2']);
+
+    const summary = await batchManager.getBatchStatus('batch-1');
+
+    expect(summary.batch.status).toBe('partially_failed');
+    expect((await storage.batches.findById('batch-1'))?.status).toBe('partially_failed');
+  });
+
+  it("should not find other brands' batches", async () => {
+    await createRunningBatch([]);
+    await storage.batches.update('batch-1', { brand: 'tarotDecks' });
+
+    await expect(batchManager.getBatchStatus('batch-1', 'edmShuffle')).rejects.toBeInstanceOf(
+      BatchNotFoundError,
+    );
+    await expect(batchManager.getBatchResults('batch-1', 'tarotDecks')).resolves.toBeDefined();
+  });
+
+  it('should settle running batches once their tasks finished on resume', async () => {
+    await storage.executions.create(execution('execution-1', 'completed'));
+    await storage.executions.create(execution('execution-2', 'running'));
+    await createRunningBatch(['execution-1', 'execution-2']);
+
+    expect(await batchManager.resumeBatches()).toBe(0);
+    expect((await storage.batches.findById('batch-1'))?.status).toBe('running');
+
+    await storage.executions.update('execution-2', { status: 'completed' });
+
+    expect(await batchManager.resumeBatches()).toBe(1);
+    expect((await storage.batches.findById('batch-1'))?.status).toBe('completed');
+  });
+
+  it('should send the callback once when several processes settle a batch', async () => {
+    const deliver = jest
+      .spyOn(webhookDispatcher, 'deliver')
+      .mockResolvedValue({ id: 'delivery-1' } as WebhookDeliveryRecord);
+    await storage.executions.create(execution('execution-1', 'completed'));
+    await createRunningBatch(['execution-1']);
+    await storage.batches.update('batch-1', { callback: 'https://example.com/hook' });
+
+    const settled = await Promise.all([
+      new BatchManager().resumeBatches(),
+      new BatchManager().resumeBatches(),
+    ]);
+
+    expect(settled.sort()).toEqual([0, 1]);
+    expect(deliver).toHaveBeenCalledTimes(1);
+  });
+});
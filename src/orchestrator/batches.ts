@@ -0,0 +1,392 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AgentFrameworkError, BatchNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { BatchItem, BatchRecord, BatchStatus, ExecutionRecord, getStorage } from '../db';
+import { webhookDispatcher } from '../webhooks';
+import { isTerminalStatus } from './events';
+import { taskExecutor } from './executor';
+
+const logger = new AgentLogger('BatchManager');
+
+// How often running batches are checked for items that finished without a watcher
+const BATCH_SWEEP_INTERVAL_MS = 10000;
+
+/**
+ * A validated task request, shaped like the body of POST /agent/run
+ */
+export interface BatchTaskRequest {
+  task: string;
+  brand?: string;
+  parameters: Record<string, any>;
+  priority?: string;
+  callback?: string;
+  idempotencyKey?: string;
+  force?: boolean;
+}
+
+export type BatchItemError = NonNullable<BatchItem['error']>;
+
+/**
+ * A task to submit, or the reason it was rejected before submission
+ */
+export type BatchEntry = { request: BatchTaskRequest } | { error: BatchItemError; task?: string };
+
+/**
+ * A batch item joined with the current state of its execution
+ */
+export interface BatchItemState extends BatchItem {
+  status: string;
+  result?: any;
+}
+
+export interface BatchSummary {
+  batch: BatchRecord;
+  /** Number of items per execution status; rejected items count as `rejected` */
+  counts: Record<string, number>;
+  items: BatchItemState[];
+}
+
+/**
+ * Submits groups of tasks through the task executor, reports on them as a unit and
+ * sends the batch callback once every task has finished
+ */
+export class BatchManager {
+  private batchLocks: Map<string, Promise<unknown>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Create a batch and submit its tasks. Tasks that are rejected or fail to submit are
+   * recorded with their error; the rest of the batch still runs.
+   */
+  public async submitBatch(params: {
+    entries: BatchEntry[];
+    brand?: string | null;
+    callback?: string;
+  }): Promise<BatchRecord> {
+    const batchId = uuidv4();
+    const items: BatchItem[] = [];
+
+    for (const [index, entry] of params.entries.entries()) {
+      if ('error' in entry) {
+        items.push({
+          index,
+          task: entry.task || '',
+          brand: null,
+          executionId: null,
+          error: entry.error,
+        });
+        continue;
+      }
+
+      const { request } = entry;
+
+      try {
+        const executionId = await taskExecutor.submitTask({
+          taskType: request.task,
+          brand: request.brand,
+          parameters: request.parameters,
+          priority: request.priority,
+          callback: request.callback,
+          idempotencyKey: request.idempotencyKey,
+          idempotencyScope: params.brand ?? request.brand,
+          force: request.force,
+        });
+
+        items.push({ index, task: request.task, brand: request.brand || null, executionId });
+      } catch (error) {
+        items.push({
+          index,
+          task: request.task,
+          brand: request.brand || null,
+          executionId: null,
+          error: {
+            code: error instanceof AgentFrameworkError ? error.code : 'TASK_SUBMISSION_ERROR',
+            message: (error as Error).message,
+            details: error instanceof AgentFrameworkError ? error.details : undefined,
+          },
+        });
+      }
+    }
+
+    const batch: BatchRecord = {
+      id: batchId,
+      brand: params.brand || null,
+      items,
+      status: 'running',
+      callback: params.callback || null,
+      createdAt: new Date().toISOString(),
+    };
+
+    await getStorage().batches.create(batch);
+
+    const submitted = items.filter(item => item.executionId);
+    logger.info(`Submitted batch ${batchId}`, {
+      submitted: submitted.length,
+      rejected: items.length - submitted.length,
+    });
+
+    for (const item of submitted) {
+      this.watchItem(batchId, item.executionId as string);
+    }
+
+    // Settles straight away when nothing was submitted
+    await this.refresh(batchId);
+
+    return batch;
+  }
+
+  /**
+   * Get a batch with per-item status and aggregate counts.
+   * Batches of other brands than the one given are not found.
+   */
+  public async getBatchStatus(batchId: string, brand?: string): Promise<BatchSummary> {
+    return this.read(batchId, false, brand);
+  }
+
+  /**
+   * Get a batch with the result or error of every item.
+   * Batches of other brands than the one given are not found.
+   */
+  public async getBatchResults(batchId: string, brand?: string): Promise<BatchSummary> {
+    return this.read(batchId, true, brand);
+  }
+
+  /**
+   * Settle finished batches now and keep checking for them periodically.
+   * Returns the number of batches settled now.
+   */
+  public async start(): Promise<number> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.resumeBatches().catch(error => {
+          logger.error(`Error resuming batches: ${(error as Error).message}`);
+        });
+      }, BATCH_SWEEP_INTERVAL_MS);
+      this.timer.unref();
+    }
+
+    return this.resumeBatches();
+  }
+
+  /**
+   * Stop checking running batches
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Settle running batches whose items all finished without a watcher noticing, e.g.
+   * because the process that submitted them stopped. Every process may do this; the
+   * settle is conditional, so only one of them sends the callback.
+   * Returns the number of batches settled.
+   */
+  public async resumeBatches(): Promise<number> {
+    const batches = await getStorage().batches.list({ status: 'running' });
+    let settled = 0;
+
+    for (const batch of batches) {
+      if (await this.refresh(batch.id)) {
+        settled++;
+      }
+    }
+
+    if (settled > 0) {
+      logger.info(`Settled ${settled} finished batches`);
+    }
+
+    return settled;
+  }
+
+  /**
+   * Summarize a batch, settling it first when its items finished without a watcher
+   * in this process noticing (e.g. they ran in another process)
+   */
+  private async read(
+    batchId: string,
+    withResults: boolean,
+    brand?: string,
+  ): Promise<BatchSummary> {
+    const summary = await this.summarize(batchId, withResults, brand);
+
+    if (summary.batch.status !== 'running' || !this.isFinished(summary.items)) {
+      return summary;
+    }
+
+    await this.refresh(batchId);
+    return this.summarize(batchId, withResults);
+  }
+
+  private isFinished(items: BatchItemState[]): boolean {
+    return items.every(item => item.status === 'rejected' || isTerminalStatus(item.status));
+  }
+
+  private async summarize(
+    batchId: string,
+    withResults: boolean,
+    brand?: string,
+  ): Promise<BatchSummary> {
+    const batch = await this.getBatch(batchId, brand);
+    const executions = await this.loadExecutions(batch);
+    const items = batch.items.map(item => this.toItemState(item, executions, withResults));
+
+    const counts: Record<string, number> = {};
+    for (const item of items) {
+      counts[item.status] = (counts[item.status] || 0) + 1;
+    }
+
+    return { batch, counts, items };
+  }
+
+  /**
+   * Get a batch record. Batches of other brands than the one given are not found.
+   */
+  public async getBatch(batchId: string, brand?: string): Promise<BatchRecord> {
+    const batch = await getStorage().batches.findById(batchId);
+
+    if (!batch || (brand && batch.brand !== brand)) {
+      throw new BatchNotFoundError(batchId);
+    }
+
+    return batch;
+  }
+
+  private async loadExecutions(batch: BatchRecord): Promise<Map<string, ExecutionRecord>> {
+    const executions = new Map<string, ExecutionRecord>();
+
+    for (const item of batch.items) {
+      if (item.executionId) {
+        const execution = await getStorage().executions.findById(item.executionId);
+        if (execution) {
+          executions.set(item.executionId, execution);
+        }
+      }
+    }
+
+    return executions;
+  }
+
+  private toItemState(
+    item: BatchItem,
+    executions: Map<string, ExecutionRecord>,
+    withResults: boolean,
+  ): BatchItemState {
+    if (!item.executionId) {
+      return { ...item, status: 'rejected' };
+    }
+
+    const execution = executions.get(item.executionId);
+    const status = execution?.status || 'unknown';
+    const state: BatchItemState = { ...item, status };
+
+    if (execution?.error) {
+      state.error = { code: 'EXECUTION_ERROR', message: execution.error };
+    }
+
+    if (withResults && execution?.status === 'completed') {
+      state.result = execution.result;
+    }
+
+    return state;
+  }
+
+  /**
+   * Wait for one execution of a batch and settle the batch if it was the last
+   */
+  private async watchItem(batchId: string, executionId: string): Promise<void> {
+    try {
+      await taskExecutor.waitForCompletion(executionId);
+    } catch (error) {
+      logger.error(`Error waiting for batch item: ${(error as Error).message}`, {
+        batchId,
+        executionId,
+      });
+    }
+
+    await this.refresh(batchId).catch(error => {
+      logger.error(`Error updating batch: ${(error as Error).message}`, { batchId });
+    });
+  }
+
+  /**
+   * Mark the batch finished and send its callback once every item is final.
+   * Resolves to true when this call settled the batch.
+   */
+  private refresh(batchId: string): Promise<boolean> {
+    return this.withBatchLock(batchId, async () => {
+      const { batch, items } = await this.summarize(batchId, false);
+
+      if (batch.status !== 'running' || !this.isFinished(items)) {
+        return false;
+      }
+
+      const completed = items.filter(item => item.status === 'completed').length;
+      let status: BatchStatus = 'partially_failed';
+
+      if (completed === items.length) {
+        status = 'completed';
+      } else if (completed === 0) {
+        status = 'failed';
+      }
+
+      // Another process may settle the same batch; only the one that wins sends the callback
+      const completedAt = new Date().toISOString();
+      if (!(await getStorage().batches.settle(batchId, { status, completedAt }))) {
+        return false;
+      }
+
+      logger.info(`Batch ${batchId} finished`, { status, completed, total: items.length });
+
+      if (batch.callback) {
+        await webhookDispatcher.deliver({
+          executionId: batchId,
+          brand: batch.brand,
+          url: batch.callback,
+          payload: {
+            batchId,
+            status,
+            completedAt,
+            items: items.map(item => ({
+              index: item.index,
+              executionId: item.executionId,
+              status: item.status,
+              error: item.error?.message,
+            })),
+          },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Serialize updates to a batch so concurrent completions in this process settle it once
+   */
+  private withBatchLock<T>(batchId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.batchLocks.get(batchId) || Promise.resolve();
+    const next = previous.then(fn, fn);
+
+    const cleanup = () => {
+      if (this.batchLocks.get(batchId) === next) {
+        this.batchLocks.delete(batchId);
+      }
+    };
+
+    this.batchLocks.set(batchId, next);
+    next.then(cleanup, cleanup);
+
+    return next;
+  }
+}
+
+// Export singleton instance
+export const batchManager = new BatchManager();
+
+export default {
+  BatchManager,
+  batchManager,
+};
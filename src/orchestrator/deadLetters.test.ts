@@ -0,0 +1,61 @@
+import { MemoryStorage, setStorage } from '../db';
+import { DeadLetterNotFoundError } from '../core/errors';
+import { deadLetterQueue } from './deadLetters';
+import { taskExecutor } from './executor';
+
+jest.mock('./executor', () => ({
+  taskExecutor: { submitTask: jest.fn() },
+}));
+
+const submitTask = taskExecutor.submitTask as jest.Mock;
+
+let storage: MemoryStorage;
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  submitTask.mockReset().mockResolvedValue('execution-2');
+
+  await storage.deadLetters.create({
+    id: 'dead-1',
+    executionId: 'execution-1',
+    taskType: 'validateDirectory',
+    brand: 'mysticArcana',
+    context: { parameters: { directoryPath: '/decks' }, priority: 'high' },
+    error: 'connection reset',
+    attempts: [],
+    failedAt: '2026-01-01T00:00:00.000Z',
+  });
+});
+
+describe('DeadLetterQueue', () => {
+  it('should replay an entry with its original context', async () => {
+    const entry = await deadLetterQueue.replay('dead-1');
+
+    expect(submitTask).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskType: 'validateDirectory',
+        brand: 'mysticArcana',
+        parameters: { directoryPath: '/decks' },
+        priority: 'high',
+      }),
+    );
+    expect(entry.replayExecutionId).toBe('execution-2');
+    expect((await storage.deadLetters.findById('dead-1'))?.replayedAt).toBeDefined();
+  });
+
+  it('should replay an entry with edited parameters', async () => {
+    await deadLetterQueue.replay('dead-1', { parameters: { directoryPath: '/cards' } });
+
+    expect(submitTask).toHaveBeenCalledWith(
+      expect.objectContaining({ parameters: { directoryPath: '/cards' }, priority: 'high' }),
+    );
+  });
+
+  it('should purge an entry', async () => {
+    await deadLetterQueue.purge('dead-1');
+
+    expect(await storage.deadLetters.list()).toEqual([]);
+    await expect(deadLetterQueue.get('dead-1')).rejects.toBeInstanceOf(DeadLetterNotFoundError);
+  });
+});
@@ -0,0 +1,82 @@
+import { DeadLetterNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { DeadLetterRecord, getStorage } from '../db';
+import { taskExecutor } from './executor';
+
+const logger = new AgentLogger('DeadLetterQueue');
+
+/**
+ * Inspection, replay and purging of executions that failed for good.
+ * Entries are written by the task executor once an execution has no attempts left.
+ */
+export class DeadLetterQueue {
+  /**
+   * List dead letters, newest first
+   */
+  public async list(
+    filter: { brand?: string; taskType?: string } = {},
+  ): Promise<DeadLetterRecord[]> {
+    return getStorage().deadLetters.list(filter);
+  }
+
+  /**
+   * Get a dead letter by ID
+   */
+  public async get(id: string): Promise<DeadLetterRecord> {
+    const entry = await getStorage().deadLetters.findById(id);
+
+    if (!entry) {
+      throw new DeadLetterNotFoundError(id);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Submit the task again as a new execution, optionally with edited parameters.
+   * The entry is kept with a reference to the replay.
+   */
+  public async replay(
+    id: string,
+    overrides: { parameters?: Record<string, any>; priority?: string } = {},
+  ): Promise<DeadLetterRecord> {
+    const entry = await this.get(id);
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: entry.taskType,
+      brand: entry.brand || undefined,
+      parameters: overrides.parameters || entry.context.parameters,
+      priority: overrides.priority || entry.context.priority,
+      callback: entry.context.callback,
+    });
+
+    const changes = { replayedAt: new Date().toISOString(), replayExecutionId: executionId };
+    await getStorage().deadLetters.update(id, changes);
+
+    logger.info(`Replayed dead letter ${id}`, {
+      originalExecutionId: entry.executionId,
+      executionId,
+      editedParameters: Boolean(overrides.parameters),
+    });
+
+    return { ...entry, ...changes };
+  }
+
+  /**
+   * Remove a dead letter
+   */
+  public async purge(id: string): Promise<void> {
+    await this.get(id);
+    await getStorage().deadLetters.delete(id);
+
+    logger.info(`Purged dead letter ${id}`);
+  }
+}
+
+// Export singleton instance
+export const deadLetterQueue = new DeadLetterQueue();
+
+export default {
+  DeadLetterQueue,
+  deadLetterQueue,
+};
@@ -0,0 +1,91 @@
+import { EventEmitter } from 'events';
+import { ExecutionProgress } from '../db/types';
+
+/**
+ * Execution statuses after which an execution will not change again
+ */
+export const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled', 'timed_out'];
+
+/**
+ * Check whether an execution status is final
+ */
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export interface ExecutionStatusEvent {
+  executionId: string;
+  status: string;
+  taskType?: string;
+  brand?: string | null;
+  result?: any;
+  error?: string;
+  timestamp: string;
+}
+
+export interface ExecutionProgressEvent extends ExecutionProgress {
+  executionId: string;
+}
+
+type StatusListener = (event: ExecutionStatusEvent) => void;
+type ProgressListener = (event: ExecutionProgressEvent) => void;
+
+/**
+ * In-process bus for execution lifecycle and progress events.
+ * Listeners only see executions processed by this process; use storage for the rest.
+ */
+export class ExecutionEvents {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every waiting client or workflow step adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish a status transition
+   */
+  public emitStatus(event: Omit<ExecutionStatusEvent, 'timestamp'>): void {
+    const fullEvent = { ...event, timestamp: new Date().toISOString() };
+    this.emitter.emit('status', fullEvent);
+    this.emitter.emit(`status:${event.executionId}`, fullEvent);
+  }
+
+  /**
+   * Listen to status transitions of all executions, or of one execution.
+   * Returns a function that removes the listener.
+   */
+  public onStatus(listener: StatusListener, executionId?: string): () => void {
+    const eventName = executionId ? `status:${executionId}` : 'status';
+    this.emitter.on(eventName, listener);
+    return () => this.emitter.off(eventName, listener);
+  }
+
+  /**
+   * Publish a progress report from an agent
+   */
+  public emitProgress(event: ExecutionProgressEvent): void {
+    this.emitter.emit('progress', event);
+    this.emitter.emit(`progress:${event.executionId}`, event);
+  }
+
+  /**
+   * Listen to progress reports of all executions, or of one execution.
+   * Returns a function that removes the listener.
+   */
+  public onProgress(listener: ProgressListener, executionId?: string): () => void {
+    const eventName = executionId ? `progress:${executionId}` : 'progress';
+    this.emitter.on(eventName, listener);
+    return () => this.emitter.off(eventName, listener);
+  }
+}
+
+// Export singleton instance
+export const executionEvents = new ExecutionEvents();
+
+export default {
+  ExecutionEvents,
+  executionEvents,
+  TERMINAL_STATUSES,
+  isTerminalStatus,
+};
@@ -0,0 +1,606 @@
+import Joi from 'joi';
+import { MemoryStorage, setStorage } from '../db';
+import { metricsManager } from '../core/metrics';
+import { TaskContext } from '../core/agent';
+import { TaskCancelledError, TaskNotFoundError, TaskValidationError } from '../core/errors';
+import { MemoryQueueBackend } from './backends';
+import { taskExecutor } from './executor';
+import { taskQueue } from './queue';
+
+const agent = {
+  getInfo: () => ({ id: 'agent-1', name: 'agent-1', version: '1.0.0', priority: 0 }),
+  executeTask: jest.fn(),
+  getParameterSchema: jest.fn(),
+  getFingerprint: jest.fn(),
+};
+
+jest.mock('../registry', () => ({
+  registry: {
+    findAgentForTask: () => agent,
+    getAgent: () => agent,
+    getAgentsByCapability: () => [agent],
+    isHealthy: () => true,
+  },
+}));
+
+let storage: MemoryStorage;
+
+// Cursors only carry UUIDs, like the IDs storage assigns
+const executionId = (index: number) => `00000000-0000-4000-8000-00000000000${index}`;
+const logId = (index: number) => `00000000-0000-4000-9000-00000000000${index}`;
+
+beforeAll(() => {
+  process.env.AGENT_DEFAULT_TIMEOUT = '50';
+  process.env.AGENT_MAX_RETRIES = '0';
+  taskQueue.setBackend(new MemoryQueueBackend());
+  taskQueue.processTask('*', 5, job => taskExecutor.processJob(job));
+});
+
+afterAll(async () => {
+  delete process.env.AGENT_DEFAULT_TIMEOUT;
+  delete process.env.AGENT_MAX_RETRIES;
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  await storage.tasks.upsert({ id: 'task-1', type: 'validateDirectory' });
+  agent.executeTask.mockReset();
+  agent.getParameterSchema.mockReset();
+  agent.getFingerprint.mockReset();
+});
+
+describe('TaskExecutor timeouts', () => {
+  it('should abort the agent and mark the execution timed_out', async () => {
+    let signal: AbortSignal | undefined;
+    agent.executeTask.mockImplementation(
+      (context: TaskContext) =>
+        new Promise((_, reject) => {
+          signal = context.signal;
+          context.signal?.addEventListener('abort', () => reject(context.signal?.reason));
+        }),
+    );
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(signal?.aborted).toBe(true);
+    expect(execution?.status).toBe('timed_out');
+    expect(execution?.error).toBe('Task timed out after 50ms');
+  });
+
+  it('should discard late results from agents that ignore the signal', async () => {
+    agent.executeTask.mockImplementation(
+      () => new Promise(resolve => setTimeout(() => resolve({ valid: true }), 200)),
+    );
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('timed_out');
+    expect(execution?.result).toBeUndefined();
+  });
+
+  it('should leave fast tasks alone', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('completed');
+    expect(execution?.result).toEqual({ valid: true });
+  });
+});
+
+describe('TaskExecutor cancellation', () => {
+  beforeAll(() => {
+    process.env.AGENT_DEFAULT_TIMEOUT = '2000';
+  });
+
+  afterAll(() => {
+    process.env.AGENT_DEFAULT_TIMEOUT = '50';
+  });
+
+  const submitRunning = async (
+    run: (context: TaskContext) => Promise<any>,
+  ): Promise<string> => {
+    let started: () => void = () => undefined;
+    const running = new Promise<void>(resolve => (started = resolve));
+    agent.executeTask.mockImplementation((context: TaskContext) => {
+      started();
+      return run(context);
+    });
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    await running;
+    return executionId;
+  };
+
+  it('should abort the running agent and keep the execution cancelled', async () => {
+    let signal: AbortSignal | undefined;
+    const executionId = await submitRunning(
+      context =>
+        new Promise((_, reject) => {
+          signal = context.signal;
+          context.signal?.addEventListener('abort', () => reject(context.signal?.reason));
+        }),
+    );
+
+    expect(await taskExecutor.cancelTask(executionId)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(signal?.reason).toBeInstanceOf(TaskCancelledError);
+    const execution = await storage.executions.findById(executionId);
+    expect(execution?.status).toBe('cancelled');
+    expect(execution?.attempts || []).toEqual([]);
+    expect(await storage.deadLetters.list()).toEqual([]);
+  });
+
+  it('should not record results of agents that finish after cancellation', async () => {
+    const executionId = await submitRunning(
+      () => new Promise(resolve => setTimeout(() => resolve({ valid: true }), 50)),
+    );
+
+    expect(await taskExecutor.cancelTask(executionId)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const execution = await storage.executions.findById(executionId);
+    expect(execution?.status).toBe('cancelled');
+    expect(execution?.result).toBeUndefined();
+  });
+});
+
+describe('TaskExecutor retries', () => {
+  beforeAll(() => {
+    process.env.AGENT_MAX_RETRIES = '2';
+  });
+
+  afterAll(() => {
+    process.env.AGENT_MAX_RETRIES = '0';
+  });
+
+  it('should retry transient errors and record each attempt', async () => {
+    agent.executeTask
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce({ valid: true });
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('completed');
+    expect(execution?.error).toBeNull();
+    expect(execution?.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, status: 'failed', error: 'connection reset' }),
+      expect.objectContaining({ attempt: 2, status: 'completed' }),
+    ]);
+  });
+
+  it('should fail fast on errors that are not retryable', async () => {
+    agent.executeTask.mockRejectedValue(new TaskValidationError('Directory path is required'));
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: {},
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('failed');
+    expect(agent.executeTask).toHaveBeenCalledTimes(1);
+    expect(execution?.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, errorCode: 'VALIDATION_ERROR', retryable: false }),
+    ]);
+  });
+
+  it('should stop after the configured number of retries', async () => {
+    agent.executeTask.mockRejectedValue(new Error('connection reset'));
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(execution?.status).toBe('failed');
+    expect(execution?.attempts).toHaveLength(3);
+  });
+
+  it('should fail instead of retrying while a memory backend drains', async () => {
+    const acceptsRetries = jest
+      .spyOn(MemoryQueueBackend.prototype, 'acceptsRetries')
+      .mockReturnValue(false);
+    agent.executeTask.mockRejectedValue(new Error('connection reset'));
+
+    try {
+      const executionId = await taskExecutor.submitTask({
+        taskType: 'validateDirectory',
+        parameters: { directoryPath: '/decks' },
+      });
+      const execution = await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+      expect(execution?.status).toBe('failed');
+      expect(execution?.completedAt).toEqual(expect.any(String));
+      expect(agent.executeTask).toHaveBeenCalledTimes(1);
+
+      // The backend makes the same call once the job has finished failing
+      let jobStatus = await taskQueue.getJobStatus(executionId, 'validateDirectory');
+      for (let i = 0; jobStatus === 'active' && i < 50; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        jobStatus = await taskQueue.getJobStatus(executionId, 'validateDirectory');
+      }
+      expect(jobStatus).toBe('failed');
+    } finally {
+      acceptsRetries.mockRestore();
+    }
+  });
+});
+
+describe('TaskExecutor dead letters', () => {
+  it('should move executions that failed for good to the dead-letter queue', async () => {
+    agent.executeTask.mockRejectedValue(new Error('connection reset'));
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    // The entry is written just after the final status
+    let deadLetters = await storage.deadLetters.list();
+    for (let i = 0; deadLetters.length === 0 && i < 50; i++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      deadLetters = await storage.deadLetters.list();
+    }
+
+    expect(deadLetters).toEqual([
+      expect.objectContaining({
+        executionId,
+        taskType: 'validateDirectory',
+        brand: null,
+        error: 'connection reset',
+        context: expect.objectContaining({ parameters: { directoryPath: '/decks' } }),
+        attempts: [expect.objectContaining({ attempt: 1, status: 'failed' })],
+      }),
+    ]);
+  });
+
+  it('should not dead-letter completed executions', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+    await taskExecutor.waitForCompletion(executionId, { timeoutMs: 2000 });
+
+    expect(await storage.deadLetters.list()).toEqual([]);
+  });
+});
+
+describe('TaskExecutor idempotency', () => {
+  const submit = (idempotencyKey: string, idempotencyScope?: string) =>
+    taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+      idempotencyKey,
+      idempotencyScope,
+    });
+
+  beforeEach(() => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+  });
+
+  afterEach(() => {
+    delete process.env.IDEMPOTENCY_RETENTION_MS;
+  });
+
+  it('should return the original execution for a repeated key', async () => {
+    const first = await submit('key-1');
+    const second = await submit('key-1');
+
+    expect(second).toBe(first);
+    expect((await storage.executions.findById(first))?.idempotencyKey).toBe('key-1');
+  });
+
+  it('should create a single execution for concurrent submissions', async () => {
+    const [first, second] = await Promise.all([submit('key-1'), submit('key-1')]);
+
+    expect(second).toBe(first);
+  });
+
+  it('should keep keys from different scopes apart', async () => {
+    const first = await submit('key-1', 'mysticArcana');
+    const second = await submit('key-1', 'edmShuffle');
+
+    expect(second).not.toBe(first);
+  });
+
+  it('should accept a key again after the retention window', async () => {
+    process.env.IDEMPOTENCY_RETENTION_MS = '1';
+
+    const first = await submit('key-1');
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(await submit('key-1')).not.toBe(first);
+  });
+});
+
+describe('TaskExecutor execution listing', () => {
+  beforeEach(async () => {
+    const statuses = ['completed', 'failed', 'completed', 'running', 'completed'];
+
+    for (const [index, status] of statuses.entries()) {
+      await storage.executions.create({
+        id: executionId(index),
+        taskId: 'task-1',
+        agentId: 'agent-1',
+        brand: index % 2 === 0 ? 'mysticArcana' : 'edmShuffle',
+        parameters: {},
+        status,
+        priority: 'medium',
+        createdAt: new Date(Date.UTC(2024, 0, index + 1)).toISOString(),
+      });
+    }
+  });
+
+  it('should page through executions newest first', async () => {
+    const next = (cursor: string | null) =>
+      taskExecutor.listExecutions({ limit: 2, cursor: cursor as string });
+
+    const first = await taskExecutor.listExecutions({ limit: 2 });
+    const second = await next(first.nextCursor);
+    const third = await next(second.nextCursor);
+
+    expect(
+      [...first.executions, ...second.executions, ...third.executions].map(({ id }) => id),
+    ).toEqual([4, 3, 2, 1, 0].map(executionId));
+    expect(first.executions[0].taskType).toBe('validateDirectory');
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('should filter by brand, status and date range', async () => {
+    const page = await taskExecutor.listExecutions({
+      brand: 'mysticArcana',
+      status: ['completed'],
+      from: '2024-01-02T00:00:00.000Z',
+      order: 'asc',
+    });
+
+    expect(page.executions.map(({ id }) => id)).toEqual([executionId(2), executionId(4)]);
+  });
+
+  it('should return nothing for unknown task types', async () => {
+    expect((await taskExecutor.listExecutions({ taskType: 'unknown' })).executions).toEqual([]);
+  });
+
+  it('should reject cursors from a listing with a different order', async () => {
+    const { nextCursor } = await taskExecutor.listExecutions({ limit: 1 });
+
+    await expect(
+      taskExecutor.listExecutions({ order: 'asc', cursor: nextCursor as string }),
+    ).rejects.toBeInstanceOf(TaskValidationError);
+  });
+
+  it('should reject cursors that do not hold a timestamp and execution ID', async () => {
+    const cursor = Buffer.from(
+      JSON.stringify({
+        value: '2024-01-01T00:00:00.000Z",id.gt.0',
+        id: executionId(0),
+        sortBy: 'createdAt',
+        order: 'desc',
+      }),
+    ).toString('base64url');
+
+    await expect(taskExecutor.listExecutions({ cursor })).rejects.toBeInstanceOf(
+      TaskValidationError,
+    );
+  });
+});
+
+describe('TaskExecutor execution logs', () => {
+  beforeEach(async () => {
+    await storage.executions.create({
+      id: 'execution-1',
+      taskId: 'task-1',
+      agentId: 'agent-1',
+      brand: 'mysticArcana',
+      parameters: {},
+      status: 'failed',
+      priority: 'medium',
+      createdAt: new Date().toISOString(),
+    });
+
+    const levels = ['info', 'debug', 'warn', 'error', 'info'];
+
+    for (const [index, level] of levels.entries()) {
+      await storage.logs.append({
+        id: logId(index),
+        executionId: 'execution-1',
+        agentId: 'agent-1',
+        level,
+        message: `Entry ${index}`,
+        metadata: {},
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString(),
+      });
+    }
+  });
+
+  it('should page through logs oldest first', async () => {
+    const first = await taskExecutor.getExecutionLogs('execution-1', { limit: 3 });
+    const second = await taskExecutor.getExecutionLogs('execution-1', {
+      limit: 3,
+      cursor: first.nextCursor as string,
+    });
+
+    expect([...first.logs, ...second.logs].map(({ id }) => id)).toEqual(
+      [0, 1, 2, 3, 4].map(logId),
+    );
+    expect(first.hasMore).toBe(true);
+    expect(second.hasMore).toBe(false);
+    expect(second.executionStatus).toBe('failed');
+  });
+
+  it('should return entries at or above the requested level', async () => {
+    const page = await taskExecutor.getExecutionLogs('execution-1', { level: 'warn' });
+
+    expect(page.logs.map(({ level }) => level)).toEqual(['warn', 'error']);
+  });
+
+  it('should hide executions of other brands', async () => {
+    await expect(
+      taskExecutor.getExecutionLogs('execution-1', { brand: 'edmShuffle' }),
+    ).rejects.toBeInstanceOf(TaskNotFoundError);
+  });
+});
+
+describe('TaskExecutor parameter validation', () => {
+  beforeEach(async () => {
+    await storage.tasks.upsert({ id: 'task-2', type: 'validateTarotDeck' });
+
+    agent.getParameterSchema.mockReturnValue(
+      Joi.object({
+        deckId: Joi.string().required(),
+        validateImages: Joi.boolean().required(),
+        strict: Joi.boolean().default(false),
+      }),
+    );
+  });
+
+  it('should reject parameters that do not match the schema with field details', async () => {
+    const error = await taskExecutor
+      .submitTask({ taskType: 'validateTarotDeck', parameters: { deckId: 7 } })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(TaskValidationError);
+    expect(error.details).toEqual([
+      expect.objectContaining({ field: 'parameters.deckId', type: 'string.base' }),
+      expect.objectContaining({ field: 'parameters.validateImages', type: 'any.required' }),
+    ]);
+    expect(agent.executeTask).not.toHaveBeenCalled();
+  });
+
+  it('should validate after brand defaults are merged and store the defaults applied', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateTarotDeck',
+      brand: 'mysticArcana',
+      parameters: { deckId: 'thoth' },
+    });
+
+    const execution = await storage.executions.findById(executionId);
+    expect(execution?.parameters).toEqual({ deckId: 'thoth', validateImages: true, strict: false });
+    await taskExecutor.waitForCompletion(executionId, { timeoutMs: 1000 });
+  });
+});
+
+describe('TaskExecutor in-process runs', () => {
+  it('should return the output without recording or queueing the task', async () => {
+    agent.executeTask.mockResolvedValue({ valid: true });
+    agent.getParameterSchema.mockReturnValue(
+      Joi.object({
+        directoryPath: Joi.string().required(),
+        recursive: Joi.boolean().default(false),
+      }),
+    );
+
+    const result = await taskExecutor.runTaskInProcess({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+    });
+
+    expect(result).toEqual({ valid: true });
+    expect(agent.executeTask.mock.calls[0][0].parameters).toEqual({
+      directoryPath: '/decks',
+      recursive: false,
+    });
+    const executions = await storage.executions.list({
+      sortBy: 'createdAt',
+      order: 'desc',
+      limit: 10,
+    });
+    expect(executions).toEqual([]);
+  });
+});
+
+describe('TaskExecutor result cache', () => {
+  const run = async (force?: boolean) => {
+    const executionId = await taskExecutor.submitTask({
+      taskType: 'validateDirectory',
+      parameters: { directoryPath: '/decks' },
+      force,
+    });
+    await taskExecutor.waitForCompletion(executionId, { timeoutMs: 1000 });
+    return executionId;
+  };
+
+  beforeEach(() => {
+    process.env.RESULT_CACHE_TTL_MS = '60000';
+    agent.getFingerprint.mockResolvedValue('inputs-1');
+    agent.executeTask.mockResolvedValue({ valid: true });
+  });
+
+  afterEach(() => {
+    delete process.env.RESULT_CACHE_TTL_MS;
+  });
+
+  it('should return the result of a matching execution without running the agent', async () => {
+    const first = await run();
+    const second = await run();
+
+    expect(agent.executeTask).toHaveBeenCalledTimes(1);
+    expect(await taskExecutor.getTaskResult(second)).toMatchObject({
+      status: 'completed',
+      result: { valid: true },
+      cached: true,
+      cachedFrom: first,
+    });
+  });
+
+  it('should run again when the inputs change or the run is forced', async () => {
+    await run();
+    agent.getFingerprint.mockResolvedValue('inputs-2');
+    await run();
+    await run(true);
+
+    expect(agent.executeTask).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not reuse results older than the TTL', async () => {
+    const first = await run();
+    await storage.executions.update(first, {
+      completedAt: new Date(Date.now() - 120000).toISOString(),
+    });
+
+    const second = await run();
+
+    expect(agent.executeTask).toHaveBeenCalledTimes(2);
+    expect((await taskExecutor.getTaskResult(second)).cached).toBeUndefined();
+  });
+
+  it('should not fingerprint tasks when the cache is off', async () => {
+    delete process.env.RESULT_CACHE_TTL_MS;
+
+    await run();
+    await run();
+
+    expect(agent.getFingerprint).not.toHaveBeenCalled();
+    expect(agent.executeTask).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,32 +1,249 @@
 import { v4 as uuidv4 } from 'uuid';
-import { getSupabaseClient } from '../db/client';
+import {
+  AgentLogRecord,
+  DeadLetterRecord,
+  ExecutionAttempt,
+  ExecutionRecord,
+  ExecutionSortField,
+  getStorage
+} from '../db';
 import { registry } from '../registry';
-import { taskQueue } from './queue';
+import { QueueJob } from './backends';
+import { buildJobOptions, taskQueue } from './queue';
 import { taskRouter } from './router';
-import { AgentLogger } from '../core/logger';
-import { TaskExecutionError, TaskNotFoundError, AgentNotFoundError } from '../core/errors';
+import { AgentLogger, levelsAtOrAbove } from '../core/logger';
+import {
+  TaskExecutionError,
+  TaskNotFoundError,
+  AgentNotFoundError,
+  AgentUnavailableError,
+  AgentFrameworkError,
+  TaskTimeoutError,
+  TaskCancelledError,
+  TaskValidationError,
+  isRetryableError
+} from '../core/errors';
+import { BaseAgent, TaskContext } from '../core/agent';
 import { brandConfig } from '../brands';
 import { metricsManager } from '../core/metrics';
+import { webhookDispatcher } from '../webhooks';
+import { validateTaskParameters } from '../utils/validation';
+import { hashValue } from '../utils/fingerprint';
+import { executionEvents, isTerminalStatus } from './events';
 
 const logger = new AgentLogger('TaskExecutor');
 
+export interface SubmitTaskParams {
+  taskType: string;
+  brand?: string;
+  parameters: Record<string, any>;
+  priority?: string;
+  callback?: string;
+  idempotencyKey?: string;
+  /** Defaults to the brand, so keys from different brands never collide */
+  idempotencyScope?: string;
+  /** Run the task even if a cached result matches its fingerprint */
+  force?: boolean;
+}
+
+/**
+ * Filters and paging for listing executions
+ */
+export interface ExecutionListOptions {
+  brand?: string;
+  taskType?: string;
+  status?: string[];
+  agentId?: string;
+  /** ISO timestamps bounding createdAt, inclusive */
+  from?: string;
+  to?: string;
+  sortBy?: ExecutionSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  /** Opaque cursor from the previous page's nextCursor */
+  cursor?: string;
+}
+
+export interface ExecutionPage {
+  executions: Array<ExecutionRecord & { taskType: string | null }>;
+  nextCursor: string | null;
+}
+
+/**
+ * Level filter and paging for reading an execution's logs
+ */
+export interface ExecutionLogOptions {
+  /** Minimum severity, e.g. warn returns warn and error entries */
+  level?: string;
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+  /** Treat executions of other brands as not found */
+  brand?: string;
+}
+
+export interface ExecutionLogPage {
+  executionId: string;
+  /** Execution status when the page was read */
+  executionStatus: string;
+  logs: AgentLogRecord[];
+  /** Position after the last entry; pass it back to page on or to pick up new entries */
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * How long an idempotency key keeps returning the original execution
+ */
+export function getIdempotencyRetentionMs(): number {
+  return Number(process.env.IDEMPOTENCY_RETENTION_MS) || 24 * 60 * 60 * 1000;
+}
+
+/**
+ * How long a completed result can be reused for tasks with the same fingerprint.
+ * Brands set cacheTtlMs in their task settings; RESULT_CACHE_TTL_MS applies otherwise.
+ * Zero, the default, disables the cache.
+ */
+export function getResultCacheTtlMs(taskConfig: { cacheTtlMs?: number } = {}): number {
+  return taskConfig.cacheTtlMs ?? (Number(process.env.RESULT_CACHE_TTL_MS) || 0);
+}
+
+interface ExecutionCursor {
+  value: string;
+  id: string;
+  sortBy: ExecutionSortField;
+  order: 'asc' | 'desc';
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Cursor positions end up in storage filters, so only well-formed ones are accepted
+ */
+function isCursorPosition(timestamp: unknown, id: unknown): boolean {
+  return (
+    typeof timestamp === 'string' &&
+    ISO_TIMESTAMP.test(timestamp) &&
+    !Number.isNaN(Date.parse(timestamp)) &&
+    typeof id === 'string' &&
+    UUID.test(id)
+  );
+}
+
+function encodeCursor(cursor: ExecutionCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Read a cursor, which must come from a listing with the same sort field and order
+ */
+function decodeCursor(
+  cursor: string,
+  sortBy: ExecutionSortField,
+  order: 'asc' | 'desc'
+): { value: string; id: string } {
+  try {
+    const decoded: ExecutionCursor = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+
+    if (
+      decoded.sortBy === sortBy &&
+      decoded.order === order &&
+      isCursorPosition(decoded.value, decoded.id)
+    ) {
+      return { value: decoded.value, id: decoded.id };
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new TaskValidationError('Invalid cursor', [
+    { message: 'cursor does not match this listing; start again without a cursor' }
+  ]);
+}
+
+function encodeLogCursor(entry: AgentLogRecord): string {
+  return Buffer.from(JSON.stringify({ timestamp: entry.timestamp, id: entry.id })).toString(
+    'base64url'
+  );
+}
+
+function decodeLogCursor(cursor: string): { timestamp: string; id: string } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+
+    if (isCursorPosition(decoded.timestamp, decoded.id)) {
+      return { timestamp: decoded.timestamp, id: decoded.id };
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new TaskValidationError('Invalid cursor', [
+    { message: 'cursor is not from a log listing; start again without a cursor' }
+  ]);
+}
+
 export class TaskExecutor {
-  private db = getSupabaseClient();
+  private idempotentSubmissions = new Map<string, Promise<string>>();
+  /** Aborts tasks running in this process, by execution ID */
+  private runningTasks = new Map<string, AbortController>();
   
-  constructor() {
-    this.setupTaskProcessors();
+  /**
+   * Submit a new task for execution. With an idempotency key, a submission repeating
+   * the key within the retention window returns the original execution ID instead.
+   */
+  public async submitTask(params: SubmitTaskParams): Promise<string> {
+    const { idempotencyKey } = params;
+
+    if (!idempotencyKey) {
+      return this.createExecution(params);
+    }
+
+    const scope = params.idempotencyScope ?? params.brand ?? '';
+    const lockKey = `${scope}:${idempotencyKey}`;
+
+    // Concurrent submissions with the same key share one lookup and execution
+    const inFlight = this.idempotentSubmissions.get(lockKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const submission = (async () => {
+      const existing = await this.findByIdempotencyKey(scope, idempotencyKey);
+
+      if (existing) {
+        logger.info(`Returning execution ${existing.id} for repeated idempotency key`, {
+          taskType: params.taskType,
+          scope
+        });
+        return existing.id;
+      }
+
+      return this.createExecution({ ...params, idempotencyScope: scope });
+    })();
+
+    this.idempotentSubmissions.set(lockKey, submission);
+
+    try {
+      return await submission;
+    } finally {
+      this.idempotentSubmissions.delete(lockKey);
+    }
   }
-  
+
   /**
-   * Submit a new task for execution
+   * Find an execution submitted with an idempotency key within the retention window
    */
-  public async submitTask(params: {
-    taskType: string;
-    brand?: string;
-    parameters: Record<string, any>;
-    priority: string;
-    callback?: string;
-  }): Promise<string> {
+  public async findByIdempotencyKey(scope: string, key: string): Promise<ExecutionRecord | null> {
+    const createdAfter = new Date(Date.now() - getIdempotencyRetentionMs()).toISOString();
+    return getStorage().executions.findByIdempotencyKey(scope, key, createdAfter);
+  }
+
+  /**
+   * Record a new execution and queue it
+   */
+  private async createExecution(params: SubmitTaskParams): Promise<string> {
     const { taskType, brand, parameters, priority, callback } = params;
     
     // Generate execution ID
@@ -49,33 +266,65 @@ export class TaskExecutor {
       // Route the task to appropriate agent and apply brand-specific settings
       const { agentId, taskConfig } = await taskRouter.routeTask(taskType, brand);
       
-      // Process parameters with brand-specific defaults
-      const processedParameters = await taskRouter.processTaskParameters(taskType, parameters, brand);
+      // Process parameters with brand-specific defaults, then check them against the agent's schema
+      const brandParameters = await taskRouter.processTaskParameters(taskType, parameters, brand);
+      const processedParameters = this.validateParameters(agentId, taskType, brandParameters);
       
       // Calculate effective priority
       const effectivePriority = priority || taskConfig.priority || 'medium';
+
+      // Reuse a recent result for the same inputs unless the caller forces a run
+      const fingerprint = await this.fingerprintTask(agentId, taskType, brand, processedParameters, taskConfig);
+      if (fingerprint && !params.force) {
+        const completedAfter = new Date(Date.now() - getResultCacheTtlMs(taskConfig)).toISOString();
+        const cached = await getStorage().executions.findByFingerprint(fingerprint, completedAfter);
+
+        metricsManager.recordCacheLookup(taskType, brand || null, !!cached);
+
+        if (cached) {
+          await this.completeFromCache(cached, {
+            id: executionId,
+            taskId: taskDefinition.id,
+            agentId,
+            brand: brand || null,
+            parameters: processedParameters,
+            status: 'completed',
+            priority: effectivePriority,
+            createdAt: new Date().toISOString(),
+            idempotencyKey: params.idempotencyKey || null,
+            idempotencyScope: params.idempotencyKey ? params.idempotencyScope : null,
+            fingerprint
+          }, taskType, callback);
+
+          return executionId;
+        }
+      }
       
-      // Record task execution in database
-      await this.db.from('task_executions').insert({
+      // Record task execution in storage
+      await getStorage().executions.create({
         id: executionId,
-        task_id: taskDefinition.id,
-        agent_id: agentId,
+        taskId: taskDefinition.id,
+        agentId,
         brand: brand || null,
         parameters: processedParameters,
         status: 'pending',
         priority: effectivePriority,
-        created_at: new Date().toISOString()
+        createdAt: new Date().toISOString(),
+        idempotencyKey: params.idempotencyKey || null,
+        idempotencyScope: params.idempotencyKey ? params.idempotencyScope : null,
+        fingerprint
       });
       
       // Add task to queue
       await taskQueue.addTask(taskType, executionId, {
         taskType,
         brand,
+        agentId,
         parameters: processedParameters,
         callback,
         priority: effectivePriority,
         config: taskConfig
-      }, effectivePriority);
+      }, effectivePriority, buildJobOptions(taskConfig));
       
       return executionId;
     } catch (error) {
@@ -84,39 +333,156 @@ export class TaskExecutor {
         taskType
       });
       
-      if (error instanceof TaskNotFoundError || error instanceof AgentNotFoundError) {
+      if (
+        error instanceof TaskNotFoundError ||
+        error instanceof AgentNotFoundError ||
+        error instanceof AgentUnavailableError ||
+        error instanceof TaskValidationError
+      ) {
         throw error;
       }
       
       throw new TaskExecutionError(`Failed to submit task: ${(error as Error).message}`);
     }
   }
-  
+
+  /**
+   * Run a task in this process and return its output, without recording an execution or
+   * queueing it. Brand settings, parameter validation and the timeout apply as on submission.
+   */
+  public async runTaskInProcess(params: SubmitTaskParams): Promise<any> {
+    const { taskType, brand, parameters, priority } = params;
+
+    const { agentId, taskConfig } = await taskRouter.routeTask(taskType, brand);
+    const agent = registry.getAgent(agentId);
+    if (!agent) {
+      throw new AgentNotFoundError(`No agent available to execute task type: ${taskType}`);
+    }
+
+    const brandParameters = await taskRouter.processTaskParameters(taskType, parameters, brand);
+    const processedParameters = this.validateParameters(agentId, taskType, brandParameters);
+    const brandData = brand ? await brandConfig.getBrandConfig(brand) : null;
+
+    return this.executeWithTimeout(agent, {
+      executionId: uuidv4(),
+      taskType,
+      brand,
+      parameters: processedParameters,
+      priority: priority || taskConfig.priority || 'medium',
+      brandConfig: brandData?.config,
+      taskConfig
+    }, taskConfig.timeout);
+  }
+
   /**
-   * Get the status of a task
+   * Record an execution that returns the result of an earlier one instead of running,
+   * and notify listeners and the callback as if it had just completed
    */
-  public async getTaskStatus(executionId: string): Promise<any> {
+  private async completeFromCache(
+    cached: ExecutionRecord,
+    record: ExecutionRecord,
+    taskType: string,
+    callback?: string
+  ): Promise<void> {
+    const executionId = record.id;
+    const brand = record.brand || undefined;
+
+    await getStorage().executions.create({
+      ...record,
+      result: cached.result,
+      error: null,
+      startedAt: record.createdAt,
+      completedAt: record.createdAt,
+      cachedFrom: cached.id
+    });
+
+    logger.info(`Returning cached result of ${cached.id} for task ${taskType}`, {
+      executionId,
+      taskType,
+      brand
+    });
+
+    executionEvents.emitStatus({ executionId, status: 'completed', taskType, brand, result: cached.result });
+
+    if (callback) {
+      await this.sendCallback(callback, brand, {
+        executionId,
+        status: 'completed',
+        result: cached.result,
+        cached: true
+      });
+    }
+  }
+
+  /**
+   * Cache key for a task: the agent's fingerprint of its inputs combined with the agent
+   * version and the brand configuration. Null when caching is off for the task, the agent
+   * does not fingerprint it, or fingerprinting fails.
+   */
+  private async fingerprintTask(
+    agentId: string,
+    taskType: string,
+    brand: string | undefined,
+    parameters: Record<string, any>,
+    taskConfig: any
+  ): Promise<string | null> {
+    const agent = registry.getAgent(agentId);
+    if (!agent || getResultCacheTtlMs(taskConfig) <= 0) {
+      return null;
+    }
+
     try {
-      const { data, error } = await this.db
-        .from('task_executions')
-        .select('status, created_at, started_at, completed_at')
-        .eq('id', executionId)
-        .single();
-      
-      if (error) {
-        logger.error(`Failed to get task status: ${error.message}`, { executionId });
-        throw new TaskExecutionError(`Failed to get task status: ${error.message}`);
+      const brandData = brand ? await brandConfig.getBrandConfig(brand) : null;
+      const inputs = await agent.getFingerprint({
+        taskType,
+        brand,
+        parameters,
+        brandConfig: brandData?.config
+      });
+
+      if (!inputs) {
+        return null;
       }
+
+      const { name, version } = agent.getInfo();
+      return hashValue({ taskType, agent: { name, version }, brand: brand || null, brandData, inputs });
+    } catch (error) {
+      logger.warn(`Could not fingerprint task ${taskType}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Validate parameters against the schema the routed agent declares for the task type.
+   * Tasks without a declared schema are passed through unchanged.
+   */
+  private validateParameters(
+    agentId: string,
+    taskType: string,
+    parameters: Record<string, any>
+  ): Record<string, any> {
+    const schema = registry.getAgent(agentId)?.getParameterSchema(taskType);
+    return schema ? validateTaskParameters(parameters, schema) : parameters;
+  }
+  
+  /**
+   * Get the status of a task. Executions of other brands than the one given are not found.
+   */
+  public async getTaskStatus(executionId: string, brand?: string): Promise<any> {
+    try {
+      const data = await getStorage().executions.findById(executionId);
       
-      if (!data) {
+      if (!data || (brand && data.brand !== brand)) {
         throw new TaskNotFoundError(`Task execution not found: ${executionId}`);
       }
       
       return {
         status: data.status,
-        createdAt: data.created_at,
-        startedAt: data.started_at,
-        completedAt: data.completed_at
+        createdAt: data.createdAt,
+        startedAt: data.startedAt,
+        completedAt: data.completedAt,
+        progress: data.progress || null,
+        ...(data.cachedFrom ? { cached: true, cachedFrom: data.cachedFrom } : {})
       };
     } catch (error) {
       if (error instanceof TaskNotFoundError) {
@@ -128,27 +494,105 @@ export class TaskExecutor {
     }
   }
   
+  /**
+   * List executions, newest first by default, one page at a time
+   */
+  public async listExecutions(options: ExecutionListOptions = {}): Promise<ExecutionPage> {
+    const storage = getStorage();
+    const sortBy = options.sortBy || 'createdAt';
+    const order = options.order || 'desc';
+    const limit = options.limit || 20;
+
+    let taskId: string | undefined;
+    if (options.taskType) {
+      const definition = await storage.tasks.findByType(options.taskType);
+      if (!definition) {
+        return { executions: [], nextCursor: null };
+      }
+      taskId = definition.id;
+    }
+
+    // Fetch one extra row to tell whether there is another page
+    const records = await storage.executions.list({
+      brand: options.brand,
+      taskId,
+      status: options.status,
+      agentId: options.agentId,
+      createdFrom: options.from,
+      createdTo: options.to,
+      sortBy,
+      order,
+      limit: limit + 1,
+      after: options.cursor ? decodeCursor(options.cursor, sortBy, order) : undefined
+    });
+
+    const page = records.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const taskTypes = new Map<string, string>();
+    for (const definition of await storage.tasks.list()) {
+      taskTypes.set(definition.id, definition.type);
+    }
+
+    return {
+      executions: page.map(record => ({
+        ...record,
+        taskType: record.taskId ? taskTypes.get(record.taskId) || null : null
+      })),
+      nextCursor: records.length > limit
+        ? encodeCursor({ value: last[sortBy] as string, id: last.id, sortBy, order })
+        : null
+    };
+  }
+
+  /**
+   * Read an execution's logs, oldest first, one page at a time
+   */
+  public async getExecutionLogs(
+    executionId: string,
+    options: ExecutionLogOptions = {}
+  ): Promise<ExecutionLogPage> {
+    const storage = getStorage();
+    const limit = options.limit || 100;
+    const after = options.cursor ? decodeLogCursor(options.cursor) : undefined;
+
+    const execution = await storage.executions.findById(executionId);
+    if (!execution || (options.brand && execution.brand !== options.brand)) {
+      throw new TaskNotFoundError(`Task execution not found: ${executionId}`);
+    }
+
+    // Fetch one extra entry to tell whether there is another page
+    const entries = await storage.logs.list({
+      executionId,
+      levels: options.level ? levelsAtOrAbove(options.level) : undefined,
+      limit: limit + 1,
+      after
+    });
+
+    const logs = entries.slice(0, limit);
+    const last = logs[logs.length - 1];
+
+    return {
+      executionId,
+      executionStatus: execution.status,
+      logs,
+      nextCursor: last ? encodeLogCursor(last) : options.cursor || null,
+      hasMore: entries.length > limit
+    };
+  }
+
   /**
    * Get the result of a completed task
    */
   public async getTaskResult(executionId: string): Promise<any> {
     try {
-      const { data, error } = await this.db
-        .from('task_executions')
-        .select('status, result, error, completed_at')
-        .eq('id', executionId)
-        .single();
-      
-      if (error) {
-        logger.error(`Failed to get task result: ${error.message}`, { executionId });
-        throw new TaskExecutionError(`Failed to get task result: ${error.message}`);
-      }
+      const data = await getStorage().executions.findById(executionId);
       
       if (!data) {
         throw new TaskNotFoundError(`Task execution not found: ${executionId}`);
       }
       
-      if (data.status !== 'completed' && data.status !== 'failed') {
+      if (!isTerminalStatus(data.status)) {
         return {
           status: data.status,
           message: 'Task execution is still in progress'
@@ -159,7 +603,8 @@ export class TaskExecutor {
         status: data.status,
         result: data.result,
         error: data.error,
-        completedAt: data.completed_at
+        completedAt: data.completedAt,
+        ...(data.cachedFrom ? { cached: true, cachedFrom: data.cachedFrom } : {})
       };
     } catch (error) {
       if (error instanceof TaskNotFoundError) {
@@ -176,17 +621,10 @@ export class TaskExecutor {
    */
   public async cancelTask(executionId: string): Promise<boolean> {
     try {
-      // Get current task status
-      const { data, error } = await this.db
-        .from('task_executions')
-        .select('status')
-        .eq('id', executionId)
-        .single();
+      const storage = getStorage();
       
-      if (error) {
-        logger.error(`Failed to get task: ${error.message}`, { executionId });
-        throw new TaskExecutionError(`Failed to get task: ${error.message}`);
-      }
+      // Get current task status
+      const data = await storage.executions.findById(executionId);
       
       if (!data) {
         throw new TaskNotFoundError(`Task execution not found: ${executionId}`);
@@ -197,33 +635,23 @@ export class TaskExecutor {
         return false;
       }
       
-      // Get job ID from task
-      const { data: taskData, error: taskError } = await this.db
-        .from('agent_logs')
-        .select('metadata')
-        .eq('execution_id', executionId)
-        .eq('message', 'Task added to queue')
-        .single();
-      
-      if (!taskError && taskData && taskData.metadata && taskData.metadata.jobId) {
-        // Remove from queue if we have the job ID
-        await taskQueue.cancelJob(taskData.metadata.jobId);
+      // Remove from queue if it has not started yet (jobs are keyed by execution ID)
+      const definition = (await storage.tasks.list()).find(task => task.id === data.taskId);
+      if (definition) {
+        await taskQueue.cancelJob(executionId, definition.type, data.brand);
       }
       
       // Update task status
-      const { error: updateError } = await this.db
-        .from('task_executions')
-        .update({
-          status: 'cancelled',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', executionId);
-      
-      if (updateError) {
-        logger.error(`Failed to update task status: ${updateError.message}`, { executionId });
-        throw new TaskExecutionError(`Failed to update task status: ${updateError.message}`);
-      }
+      await storage.executions.update(executionId, {
+        status: 'cancelled',
+        completedAt: new Date().toISOString()
+      });
       
+      executionEvents.emitStatus({ executionId, status: 'cancelled' });
+
+      // Stop the agent if this process is running the task; its outcome is discarded
+      this.runningTasks.get(executionId)?.abort(new TaskCancelledError(executionId));
+
       logger.info(`Task ${executionId} cancelled successfully`);
       return true;
     } catch (error) {
@@ -237,139 +665,352 @@ export class TaskExecutor {
   }
   
   /**
-   * Setup task processors for different task types
+   * Wait until an execution reaches a terminal status.
+   * Listens for in-process events and polls storage for executions processed elsewhere.
+   * Resolves with null if the execution is still running after timeoutMs.
    */
-  private setupTaskProcessors(): void {
-    // Register a generic processor for all task types
-    taskQueue.processTask('*', 5, async (job) => {
-      const { executionId, taskType, brand, parameters, priority, config } = job.data;
+  public async waitForCompletion(
+    executionId: string,
+    options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+  ): Promise<ExecutionRecord | null> {
+    const { timeoutMs, pollIntervalMs = 1000 } = options;
+    const storage = getStorage();
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let pollTimer: NodeJS.Timeout | null = null;
+      let timeoutTimer: NodeJS.Timeout | null = null;
+
+      const finish = (record: ExecutionRecord | null, error?: Error) => {
+        if (settled) {
+          return;
+        }
+
+        settled = true;
+        unsubscribe();
+        if (pollTimer) clearTimeout(pollTimer);
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(record);
+        }
+      };
+
+      const check = async () => {
+        try {
+          const record = await storage.executions.findById(executionId);
+
+          if (!record) {
+            finish(null, new TaskNotFoundError(`Task execution not found: ${executionId}`));
+          } else if (isTerminalStatus(record.status)) {
+            finish(record);
+          } else if (!settled) {
+            pollTimer = setTimeout(check, pollIntervalMs);
+          }
+        } catch (error) {
+          finish(null, error as Error);
+        }
+      };
+
+      const unsubscribe = executionEvents.onStatus(event => {
+        if (isTerminalStatus(event.status)) {
+          if (pollTimer) clearTimeout(pollTimer);
+          check();
+        }
+      }, executionId);
+
+      if (timeoutMs !== undefined) {
+        timeoutTimer = setTimeout(() => finish(null), timeoutMs);
+      }
+
+      check();
+    });
+  }
+
+  /**
+   * Run a queued task on its agent and record the attempt; workers call this for each job
+   */
+  public async processJob(job: QueueJob): Promise<any> {
+    const { executionId, taskType, brand, agentId, parameters, priority, config } = job.data;
+
+    logger.info(`Processing task ${taskType}`, {
+      executionId,
+      jobId: job.id,
+      taskType,
+      brand
+    });
+
+    const startTime = Date.now();
+    const startedAt = new Date(startTime).toISOString();
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts || 1;
+
+    try {
+      // Tasks cancelled before the job could be removed from the queue do not run
+      if ((await getStorage().executions.findById(executionId))?.status === 'cancelled') {
+        logger.info(`Skipping cancelled task ${taskType}`, { executionId, jobId: job.id });
+        return null;
+      }
+
+      // Update task status to running; startedAt is kept from the first attempt
+      await getStorage().executions.update(executionId, {
+        status: 'running',
+        ...(attempt === 1 ? { startedAt } : {})
+      });
+
+      executionEvents.emitStatus({ executionId, status: 'running', taskType, brand });
+
+      // Run the agent the router picked; jobs queued before routing was recorded fall back
+      const agent = agentId ? registry.getAgent(agentId) : registry.findAgentForTask(taskType);
+      if (!agent) {
+        throw new AgentNotFoundError(
+          agentId
+            ? `Agent ${agentId} selected for task type ${taskType} is not registered`
+            : `No agent available to execute task type: ${taskType}`
+        );
+      }
+
+      // Retryable, so the attempt is repeated once the agent recovers
+      if (!registry.isHealthy(agent.getInfo().id)) {
+        throw new AgentUnavailableError(`Agent ${agent.getInfo().name} is unhealthy`);
+      }
       
-      logger.info(`Processing task ${taskType}`, {
+      // Get brand-specific configuration if needed
+      let brandData = null;
+      if (brand) {
+        brandData = await brandConfig.getBrandConfig(brand);
+      }
+
+      // Execute the task, aborting it if it runs past the configured timeout
+      const result = await this.executeWithTimeout(agent, {
         executionId,
-        jobId: job.id,
         taskType,
-        brand
-      });
+        brand,
+        parameters,
+        priority: priority || 'medium',
+        brandConfig: brandData?.config,
+        taskConfig: config
+      }, config?.timeout);
       
-      const startTime = Date.now();
+      // Update task status to completed
+      const recorded = await this.recordAttempt(executionId, {
+        attempt,
+        status: 'completed',
+        startedAt,
+        completedAt: new Date().toISOString(),
+        durationMs: Date.now() - startTime
+      }, {
+        status: 'completed',
+        result,
+        error: null,
+        completedAt: new Date().toISOString()
+      });
+
+      if (!recorded) {
+        return null;
+      }
       
-      try {
-        // Update task status to running
-        await this.db
-          .from('task_executions')
-          .update({
-            status: 'running',
-            started_at: new Date().toISOString()
-          })
-          .eq('id', executionId);
-        
-        // Find an agent that can execute this task
-        const agent = registry.findAgentForTask(taskType);
-        if (!agent) {
-          throw new AgentNotFoundError(`No agent available to execute task type: ${taskType}`);
-        }
-        
-        // Get brand-specific configuration if needed
-        let brandData = null;
-        if (brand) {
-          brandData = await brandConfig.getBrandConfig(brand);
-        }
-        
-        // Execute the task
-        const result = await agent.executeTask({
+      executionEvents.emitStatus({ executionId, status: 'completed', taskType, brand, result });
+
+      // Record metrics
+      const duration = Date.now() - startTime;
+      metricsManager.recordTaskExecutionTime(taskType, brand, duration);
+      metricsManager.recordTaskResult(taskType, brand, true);
+
+      logger.info(`Task ${taskType} completed successfully`, {
+        executionId,
+        jobId: job.id,
+        duration
+      });
+
+      // Send callback if provided
+      if (job.data.callback) {
+        await this.sendCallback(job.data.callback, brand, {
           executionId,
-          taskType,
-          brand,
+          status: 'completed',
+          result
+        });
+      }
+
+      return result;
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      const timedOut = error instanceof TaskTimeoutError;
+      const retryable = isRetryableError(error);
+      const attemptStatus = timedOut ? 'timed_out' : 'failed';
+
+      // The queue makes another attempt only for retryable errors with attempts left,
+      // and not once a draining memory backend stops retrying
+      const willRetry = retryable && attempt < maxAttempts && taskQueue.acceptsRetries();
+      const status = willRetry ? 'retrying' : attemptStatus;
+
+      logger.error(`Task ${taskType} ${timedOut ? 'timed out' : 'failed'}: ${errorMessage}`, {
+        executionId,
+        jobId: job.id,
+        error: errorMessage,
+        attempt,
+        maxAttempts,
+        retryable
+      });
+
+      // Record the attempt; the execution only fails or times out on its last attempt
+      const attempts = await this.recordAttempt(executionId, {
+        attempt,
+        status: attemptStatus,
+        error: errorMessage,
+        errorCode: error instanceof AgentFrameworkError ? error.code : undefined,
+        retryable,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        durationMs: Date.now() - startTime
+      }, {
+        status,
+        error: errorMessage,
+        ...(willRetry ? {} : { completedAt: new Date().toISOString() })
+      });
+
+      // Cancelled while running: not retried, dead-lettered or reported
+      if (!attempts) {
+        return null;
+      }
+
+      executionEvents.emitStatus({
+        executionId,
+        status,
+        taskType,
+        brand,
+        error: errorMessage
+      });
+
+      // Record metrics
+      const duration = Date.now() - startTime;
+      metricsManager.recordTaskExecutionTime(taskType, brand, duration);
+
+      if (timedOut) {
+        metricsManager.recordTaskTimeout(taskType, brand, error.details.timeoutMs);
+      }
+
+      if (willRetry) {
+        throw error;
+      }
+
+      metricsManager.recordTaskResult(taskType, brand, false);
+
+      await this.moveToDeadLetterQueue({
+        id: uuidv4(),
+        executionId,
+        taskType,
+        brand: brand || null,
+        context: {
           parameters,
           priority: priority || 'medium',
-          brandConfig: brandData?.config,
+          callback: job.data.callback,
           taskConfig: config
-        });
-        
-        // Update task status to completed
-        await this.db
-          .from('task_executions')
-          .update({
-            status: 'completed',
-            result,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', executionId);
-        
-        // Record metrics
-        const duration = Date.now() - startTime;
-        metricsManager.recordTaskExecutionTime(taskType, brand, duration);
-        metricsManager.recordTaskResult(taskType, brand, true);
-        
-        logger.info(`Task ${taskType} completed successfully`, {
-          executionId,
-          jobId: job.id,
-          duration
-        });
-        
-        // Send callback if provided
-        if (job.data.callback) {
-          await this.sendCallback(job.data.callback, {
-            executionId,
-            status: 'completed',
-            result
-          });
-        }
-        
-        return result;
-      } catch (error) {
-        const errorMessage = (error as Error).message;
-        
-        logger.error(`Task ${taskType} failed: ${errorMessage}`, {
+        },
+        error: errorMessage,
+        errorCode: error instanceof AgentFrameworkError ? error.code : null,
+        attempts,
+        failedAt: new Date().toISOString()
+      });
+
+      // Send callback if provided
+      if (job.data.callback) {
+        await this.sendCallback(job.data.callback, brand, {
           executionId,
-          jobId: job.id,
-          error: errorMessage
+          status,
+          error: errorMessage,
+          ...(timedOut ? { timeoutMs: error.details.timeoutMs } : {})
         });
-        
-        // Update task status to failed
-        await this.db
-          .from('task_executions')
-          .update({
-            status: 'failed',
-            error: errorMessage,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', executionId);
-        
-        // Record metrics
-        const duration = Date.now() - startTime;
-        metricsManager.recordTaskExecutionTime(taskType, brand, duration);
-        metricsManager.recordTaskResult(taskType, brand, false);
-        
-        // Send callback if provided
-        if (job.data.callback) {
-          await this.sendCallback(job.data.callback, {
-            executionId,
-            status: 'failed',
-            error: errorMessage
-          });
-        }
-        
-        throw error;
       }
-    });
+
+      throw error;
+    }
   }
   
+  /**
+   * Append an attempt to the execution's history and apply the status changes.
+   * Returns null without saving anything if the execution was cancelled meanwhile.
+   */
+  private async recordAttempt(
+    executionId: string,
+    entry: ExecutionAttempt,
+    changes: Partial<ExecutionRecord>
+  ): Promise<ExecutionAttempt[] | null> {
+    const storage = getStorage();
+    const execution = await storage.executions.findById(executionId);
+
+    if (execution?.status === 'cancelled') {
+      logger.info(`Discarding the outcome of cancelled execution ${executionId}`);
+      return null;
+    }
+
+    const attempts = [...(execution?.attempts || []), entry];
+
+    await storage.executions.update(executionId, { ...changes, attempts });
+
+    return attempts;
+  }
+
+  /**
+   * Keep an execution that failed for good so it can be inspected and replayed
+   */
+  private async moveToDeadLetterQueue(entry: DeadLetterRecord): Promise<void> {
+    try {
+      await getStorage().deadLetters.create(entry);
+
+      logger.warn(`Moved execution ${entry.executionId} to the dead-letter queue`, {
+        deadLetterId: entry.id,
+        taskType: entry.taskType
+      });
+    } catch (error) {
+      logger.error(`Failed to dead-letter execution: ${(error as Error).message}`, {
+        executionId: entry.executionId
+      });
+    }
+  }
+
+  /**
+   * Run a task on an agent with an AbortSignal that fires after timeoutMs or when the
+   * task is cancelled. Agents that ignore the signal are abandoned and their late result
+   * is discarded.
+   */
+  private async executeWithTimeout(
+    agent: BaseAgent,
+    context: TaskContext,
+    timeoutMs?: number
+  ): Promise<any> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+    });
+
+    if (timeoutMs && timeoutMs > 0) {
+      timer = setTimeout(() => controller.abort(new TaskTimeoutError(timeoutMs)), timeoutMs);
+    }
+
+    this.runningTasks.set(context.executionId, controller);
+
+    try {
+      return await Promise.race([
+        agent.executeTask({ ...context, signal: controller.signal }),
+        aborted
+      ]);
+    } finally {
+      clearTimeout(timer);
+      this.runningTasks.delete(context.executionId);
+    }
+  }
+
   /**
    * Get task definition from database
    */
   private async getTaskDefinition(taskType: string): Promise<any> {
     try {
-      const { data, error } = await this.db
-        .from('tasks')
-        .select('*')
-        .eq('type', taskType)
-        .single();
-      
-      if (error) {
-        logger.error(`Failed to get task definition: ${error.message}`, { taskType });
-        throw new TaskExecutionError(`Failed to get task definition: ${error.message}`);
-      }
+      const data = await getStorage().tasks.findByType(taskType);
       
       if (!data) {
         throw new TaskNotFoundError(taskType);
@@ -387,23 +1028,17 @@ export class TaskExecutor {
   }
   
   /**
-   * Send callback to notify of task completion
+   * Send callback to notify of task completion. Delivery, signing and retries happen
+   * in the background through the webhook dispatcher.
    */
-  private async sendCallback(url: string, data: any): Promise<void> {
+  private async sendCallback(url: string, brand: string | undefined, data: any): Promise<void> {
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(data)
+      await webhookDispatcher.deliver({
+        executionId: data.executionId,
+        brand,
+        url,
+        payload: data
       });
-      
-      if (!response.ok) {
-        logger.error(`Failed to send callback to ${url}: ${response.statusText}`);
-      } else {
-        logger.info(`Sent callback to ${url}`);
-      }
     } catch (error) {
       logger.error(`Error sending callback to ${url}: ${(error as Error).message}`);
     }
@@ -415,5 +1050,6 @@ export const taskExecutor = new TaskExecutor();
 
 export default {
   TaskExecutor,
-  taskExecutor
+  taskExecutor,
+  getIdempotencyRetentionMs
 };
\ No newline at end of file
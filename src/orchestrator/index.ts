@@ -1,12 +1,33 @@
-import { TaskExecutor, taskExecutor } from './executor';
+import {
+  TaskExecutor,
+  taskExecutor,
+  SubmitTaskParams,
+  ExecutionListOptions,
+  ExecutionPage,
+  ExecutionLogOptions,
+  ExecutionLogPage,
+} from './executor';
 import { TaskQueue, taskQueue, TaskPriority } from './queue';
+import { createQueueBackend, MemoryQueueBackend, BullQueueBackend } from './backends';
 import { TaskRouter, taskRouter } from './router';
+import { DeadLetterQueue, deadLetterQueue } from './deadLetters';
+import { BatchManager, batchManager } from './batches';
+import { TaskWorker, taskWorker, getWorkerOptions, WorkerOptions } from './worker';
 
 /**
  * Initialize the task orchestrator
  */
 export async function initializeOrchestrator(): Promise<void> {
   console.log('Initializing task orchestrator');
+  taskQueue.start();
+}
+
+/**
+ * Settle batches that finished while no process was watching, now and periodically
+ */
+export async function initializeBatches(): Promise<void> {
+  const settled = await batchManager.start();
+  console.log(`Batch manager ready (${settled} finished batches settled)`);
 }
 
 export {
@@ -15,6 +36,24 @@ export {
   TaskQueue,
   taskQueue,
   TaskPriority,
+  createQueueBackend,
+  MemoryQueueBackend,
+  BullQueueBackend,
   TaskRouter,
-  taskRouter
-};
\ No newline at end of file
+  taskRouter,
+  DeadLetterQueue,
+  deadLetterQueue,
+  BatchManager,
+  batchManager,
+  TaskWorker,
+  taskWorker,
+  getWorkerOptions,
+};
+export type {
+  SubmitTaskParams,
+  ExecutionListOptions,
+  ExecutionPage,
+  ExecutionLogOptions,
+  ExecutionLogPage,
+  WorkerOptions,
+};
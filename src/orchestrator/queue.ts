@@ -1,6 +1,13 @@
-import Queue from 'bull';
 import { AgentLogger } from '../core/logger';
 import { TaskExecutionError } from '../core/errors';
+import {
+  createQueueBackend,
+  JobProcessor,
+  QueueBackend,
+  QueueBackendType,
+  QueueJob,
+  QueueJobOptions,
+} from './backends';
 
 // Initialize logger
 const logger = new AgentLogger('TaskQueue');
@@ -14,32 +21,90 @@ export enum TaskPriority {
   LOWEST = 20,
 }
 
-// Define queue options
-const defaultQueueOptions = {
-  defaultJobOptions: {
-    attempts: Number(process.env.AGENT_MAX_RETRIES) || 3,
-    backoff: {
-      type: 'exponential',
-      delay: 5000,
-    },
-    removeOnComplete: true,
-    removeOnFail: false,
+/**
+ * Number of retries after the first attempt when a task has no retries setting
+ */
+export function getDefaultRetries(): number {
+  const retries = Number(process.env.AGENT_MAX_RETRIES ?? 3);
+  return Number.isInteger(retries) && retries >= 0 ? retries : 3;
+}
+
+/**
+ * Build job options for a task from its task config (brand taskSettings)
+ */
+export function buildJobOptions(taskConfig: { retries?: number } = {}): QueueJobOptions {
+  const retries = Number(taskConfig.retries);
+
+  return {
+    attempts: (Number.isInteger(retries) && retries >= 0 ? retries : getDefaultRetries()) + 1,
+  };
+}
+
+/**
+ * Name of the jobs for a task type and brand. Jobs with different names are queued
+ * separately, so that workers can choose the task types and brands they process.
+ */
+export function getJobName(taskType: string, brand?: string | null): string {
+  return brand ? `${taskType}:${brand}` : taskType;
+}
+
+// Define default job options
+const defaultJobOptions: QueueJobOptions = {
+  attempts: getDefaultRetries() + 1,
+  backoff: {
+    type: 'exponential',
+    delay: 5000,
   },
+  removeOnComplete: true,
+  removeOnFail: false,
 };
 
+interface RegisteredProcessor {
+  name: string;
+  concurrency: number;
+  processor: JobProcessor;
+}
+
 export class TaskQueue {
-  private queue: Queue.Queue;
+  private backend: QueueBackend | null = null;
+  private processors: RegisteredProcessor[] = [];
+
+  /**
+   * Get the queue backend, creating it from QUEUE_BACKEND on first use
+   * so that importing this module does not connect to Redis
+   */
+  private getBackend(): QueueBackend {
+    if (!this.backend) {
+      const type = (process.env.QUEUE_BACKEND || 'bull') as QueueBackendType;
+      this.setBackend(createQueueBackend(type, defaultJobOptions));
+    }
+
+    return this.backend as QueueBackend;
+  }
   
-  constructor() {
-    const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
-    this.queue = new Queue('tasks', redisUrl, defaultQueueOptions);
+  /**
+   * Create the queue backend and start processing registered task types
+   */
+  public start(): void {
+    this.getBackend();
+  }
+
+  /**
+   * Use a specific queue backend (must be called before tasks are added)
+   */
+  public setBackend(backend: QueueBackend): void {
+    this.backend = backend;
+
+    for (const { name, concurrency, processor } of this.processors) {
+      backend.process(name, concurrency, processor);
+    }
     
     // Handle queue errors
-    this.queue.on('error', (err: Error) => {
+    backend.onError((err: Error) => {
       logger.error(`Task queue error: ${err.message}`);
     });
     
-    this.queue.on('failed', (job: Queue.Job, err: Error) => {
+    backend.onFailed((job: QueueJob, err: Error) => {
       logger.error(`Job ${job.id} failed: ${err.message}`, {
         jobId: job.id,
         taskType: job.data.taskType,
@@ -47,6 +112,8 @@ export class TaskQueue {
         error: err.message,
       });
     });
+
+    logger.info(`Using ${backend.type} queue backend`);
   }
   
   /**
@@ -56,18 +123,22 @@ export class TaskQueue {
     taskType: string,
     executionId: string,
     data: any,
-    priority: string = 'medium'
+    priority: string = 'medium',
+    options: QueueJobOptions = {}
   ): Promise<string> {
     try {
       const numericPriority = this.getPriorityValue(priority);
       
-      const job = await this.queue.add(
-        taskType,
+      // Use the execution ID as job ID so the job can be found again for cancellation
+      const job = await this.getBackend().add(
+        getJobName(taskType, data.brand),
         {
           executionId,
           ...data,
         },
         {
+          ...options,
+          jobId: executionId,
           priority: numericPriority,
         }
       );
@@ -78,7 +149,7 @@ export class TaskQueue {
         jobId: job.id,
       });
       
-      return job.id as string;
+      return job.id;
     } catch (error) {
       logger.error(`Failed to add task to queue: ${(error as Error).message}`, {
         executionId,
@@ -90,58 +161,73 @@ export class TaskQueue {
   }
   
   /**
-   * Process tasks of a specific type
+   * Process jobs of a name from getJobName (or `*` for all jobs with the memory backend)
    */
   public processTask(
-    taskType: string,
+    name: string,
     concurrency: number,
-    processor: (job: Queue.Job) => Promise<any>
+    processor: JobProcessor
   ): void {
-    this.queue.process(taskType, concurrency, processor);
-    logger.info(`Registered processor for task type ${taskType} with concurrency ${concurrency}`);
+    this.processors.push({ name, concurrency, processor });
+
+    // Processors are attached when the backend is created
+    if (this.backend) {
+      this.backend.process(name, concurrency, processor);
+    }
+
+    logger.info(`Registered processor for ${name} jobs with concurrency ${concurrency}`);
   }
   
   /**
    * Get a task from the queue by ID
    */
-  public async getJob(jobId: string): Promise<Queue.Job | null> {
-    return this.queue.getJob(jobId);
+  public async getJob(
+    jobId: string,
+    taskType: string,
+    brand?: string | null
+  ): Promise<QueueJob | null> {
+    return this.getBackend().getJob(jobId, getJobName(taskType, brand));
   }
   
   /**
    * Get the status of a job
    */
-  public async getJobStatus(jobId: string): Promise<string> {
-    const job = await this.getJob(jobId);
-    
-    if (!job) {
-      return 'not_found';
-    }
-    
-    const state = await job.getState();
-    return state;
+  public async getJobStatus(
+    jobId: string,
+    taskType: string,
+    brand?: string | null
+  ): Promise<string> {
+    return this.getBackend().getJobState(jobId, getJobName(taskType, brand));
   }
   
   /**
    * Cancel a job by ID
    */
-  public async cancelJob(jobId: string): Promise<boolean> {
-    const job = await this.getJob(jobId);
-    
-    if (!job) {
-      return false;
-    }
-    
-    const state = await job.getState();
-    
-    if (state === 'completed' || state === 'failed') {
-      return false;
-    }
-    
-    await job.remove();
-    return true;
+  public async cancelJob(jobId: string, taskType: string, brand?: string | null): Promise<boolean> {
+    return this.getBackend().removeJob(jobId, getJobName(taskType, brand));
   }
   
+  /**
+   * Whether the queue backend is reachable
+   */
+  public async ping(): Promise<boolean> {
+    return this.getBackend().ping();
+  }
+
+  /**
+   * Whether a job failing now would be retried by the backend (see QueueBackend.acceptsRetries)
+   */
+  public acceptsRetries(): boolean {
+    return this.getBackend().acceptsRetries();
+  }
+
+  /**
+   * Get the backend type, creating the backend if needed
+   */
+  public getBackendType(): QueueBackendType {
+    return this.getBackend().type;
+  }
+
   /**
    * Convert string priority to numeric value
    */
@@ -163,10 +249,14 @@ export class TaskQueue {
   }
   
   /**
-   * Close the queue (used for cleanup)
+   * Close the queue, waiting for jobs this process is running to finish
    */
   public async close(): Promise<void> {
-    await this.queue.close();
+    if (!this.backend) {
+      return;
+    }
+
+    await this.backend.close();
     logger.info('Task queue closed');
   }
 }
@@ -178,4 +268,5 @@ export default {
   TaskQueue,
   taskQueue,
   TaskPriority,
+  getJobName,
 };
\ No newline at end of file
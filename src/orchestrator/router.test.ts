@@ -0,0 +1,134 @@
+import { AgentHealth, BaseAgent } from '../core/agent';
+import { AgentNotFoundError, AgentUnavailableError, TaskNotFoundError } from '../core/errors';
+import { MemoryStorage, setStorage } from '../db';
+import { registry } from '../registry';
+import { taskRouter } from './router';
+
+class ShuffleAgent extends BaseAgent {
+  public health: AgentHealth = { healthy: true };
+
+  constructor(name: string, version: string, priority = 0) {
+    super({
+      name,
+      description: 'Shuffles decks',
+      version,
+      priority,
+      capabilities: ['shuffleDeck'],
+    });
+  }
+
+  public async healthCheck(): Promise<AgentHealth> {
+    return this.health;
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+const fast = new ShuffleAgent('Fast Shuffler', '1.4.0');
+const careful = new ShuffleAgent('Careful Shuffler', '2.1.0');
+const legacy = new ShuffleAgent('Legacy Shuffler', '0.9.0', -1);
+const agents = [fast, careful, legacy];
+
+let storage: MemoryStorage;
+
+// Brand configs are cached once read, so every test uses its own brand key
+const createBrand = (key: string, routing: Record<string, any>) =>
+  storage.brands.create({ key, name: key, routing });
+
+const selectName = async (brand?: string) =>
+  (await taskRouter.selectAgent('shuffleDeck', brand)).getInfo().name;
+
+beforeAll(() => {
+  agents.forEach(agent => registry.registerAgent(agent));
+});
+
+afterAll(() => {
+  agents.forEach(agent => registry.unregisterAgent(agent.getInfo().id));
+  delete process.env.ROUTING_STRATEGY;
+});
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  delete process.env.ROUTING_STRATEGY;
+});
+
+describe('TaskRouter.selectAgent', () => {
+  it('picks the first registered agent among those with the highest priority', async () => {
+    expect(await selectName()).toBe('Fast Shuffler');
+  });
+
+  it('prefers the agent named by the brand, falling back when it is not registered', async () => {
+    await createBrand('preferCareful', { tasks: { shuffleDeck: { agent: 'Careful Shuffler' } } });
+    expect(await selectName('preferCareful')).toBe('Careful Shuffler');
+
+    await createBrand('preferMissing', { tasks: { shuffleDeck: { agent: 'Missing Shuffler' } } });
+    expect(await selectName('preferMissing')).toBe('Fast Shuffler');
+  });
+
+  it('only considers agents matching the version range', async () => {
+    await createBrand('legacyOnly', { tasks: { shuffleDeck: { version: '<1.0.0' } } });
+    expect(await selectName('legacyOnly')).toBe('Legacy Shuffler');
+
+    await createBrand('futureOnly', { tasks: { shuffleDeck: { version: '>=3.0.0' } } });
+    await expect(taskRouter.selectAgent('shuffleDeck', 'futureOnly')).rejects.toBeInstanceOf(
+      AgentNotFoundError,
+    );
+  });
+
+  it('rotates through equivalent agents with round-robin', async () => {
+    await createBrand('rotating', { strategy: 'round-robin' });
+
+    const picks = [];
+    for (let i = 0; i < 4; i++) {
+      picks.push(await selectName('rotating'));
+    }
+
+    expect(picks).toEqual([
+      'Fast Shuffler',
+      'Careful Shuffler',
+      'Fast Shuffler',
+      'Careful Shuffler',
+    ]);
+  });
+
+  it('picks the agent with the fewest in-flight executions with least-loaded', async () => {
+    process.env.ROUTING_STRATEGY = 'least-loaded';
+
+    for (const id of ['execution-1', 'execution-2']) {
+      await storage.executions.create({
+        id,
+        taskId: 'task-1',
+        agentId: fast.getInfo().id,
+        brand: null,
+        parameters: {},
+        status: 'running',
+        priority: 'medium',
+        createdAt: new Date().toISOString(),
+      });
+    }
+
+    expect(await selectName()).toBe('Careful Shuffler');
+  });
+
+  it('leaves unhealthy agents out', async () => {
+    fast.health = { healthy: false };
+    await registry.checkHealth();
+    expect(await selectName()).toBe('Careful Shuffler');
+
+    agents.forEach(agent => (agent.health = { healthy: false }));
+    await registry.checkHealth();
+    await expect(taskRouter.selectAgent('shuffleDeck')).rejects.toBeInstanceOf(
+      AgentUnavailableError,
+    );
+
+    agents.forEach(agent => (agent.health = { healthy: true }));
+    await registry.checkHealth();
+  });
+
+  it('rejects task types no agent can run', async () => {
+    await expect(taskRouter.selectAgent('unknownTask')).rejects.toBeInstanceOf(TaskNotFoundError);
+  });
+});
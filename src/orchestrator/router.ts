@@ -1,13 +1,38 @@
 import { AgentLogger } from '../core/logger';
-import { TaskNotFoundError } from '../core/errors';
+import { AgentNotFoundError, AgentUnavailableError, TaskNotFoundError } from '../core/errors';
+import { BaseAgent } from '../core/agent';
 import { brandConfig } from '../brands';
 import { registry } from '../registry';
+import { agentCatalog } from '../registry/catalog';
+import { satisfiesVersion } from '../utils/version';
+import { getDefaultRetries } from './queue';
+
+export type RoutingStrategy = 'priority' | 'round-robin' | 'least-loaded';
+
+/**
+ * How to pick the agent for one task type (a brand's routing.tasks entry)
+ */
+export interface RoutingRule {
+  /** Name of the preferred agent; others are used when it is not registered */
+  agent?: string;
+  /** Version range the agent must match, e.g. ">=1.2.0 <2.0.0" */
+  version?: string;
+  strategy?: RoutingStrategy;
+}
+
+/**
+ * Strategy used when neither the brand nor the task rule sets one (ROUTING_STRATEGY)
+ */
+export function getDefaultRoutingStrategy(): RoutingStrategy {
+  return (process.env.ROUTING_STRATEGY as RoutingStrategy) || 'priority';
+}
 
 /**
  * Task Router handles brand-specific task routing and agent selection
  */
 export class TaskRouter {
   private logger = new AgentLogger('TaskRouter');
+  private roundRobinPositions: Map<string, number> = new Map();
   
   /**
    * Find the appropriate agent for a task and apply brand-specific settings
@@ -20,12 +45,7 @@ export class TaskRouter {
     
     try {
       // Find an agent that can handle this task
-      const agent = registry.findAgentForTask(taskType);
-      
-      if (!agent) {
-        this.logger.error(`No agent found for task type: ${taskType}`);
-        throw new TaskNotFoundError(`No agent found for task type: ${taskType}`);
-      }
+      const agent = await this.selectAgent(taskType, brand);
       
       // Get agent ID
       const agentId = agent.getInfo().id;
@@ -33,8 +53,8 @@ export class TaskRouter {
       // Get task configuration
       let taskConfig = {
         priority: 'medium',
-        timeout: 60000,
-        retries: 3
+        timeout: Number(process.env.AGENT_DEFAULT_TIMEOUT) || 60000,
+        retries: getDefaultRetries()
       };
       
       // Apply brand-specific settings if a brand is specified
@@ -47,7 +67,11 @@ export class TaskRouter {
         taskConfig
       };
     } catch (error) {
-      if (error instanceof TaskNotFoundError) {
+      if (
+        error instanceof TaskNotFoundError ||
+        error instanceof AgentNotFoundError ||
+        error instanceof AgentUnavailableError
+      ) {
         throw error;
       }
       
@@ -56,6 +80,106 @@ export class TaskRouter {
     }
   }
   
+  /**
+   * Pick the agent for a task from the healthy agents that can run it. The brand's rule for
+   * the task type can require a version range and name a preferred agent; among the
+   * remaining agents only those with the highest priority are considered, and the strategy
+   * picks one of them.
+   */
+  public async selectAgent(taskType: string, brand?: string): Promise<BaseAgent> {
+    let candidates = registry.getAgentsByCapability(taskType);
+
+    if (candidates.length === 0) {
+      this.logger.error(`No agent found for task type: ${taskType}`);
+      throw new TaskNotFoundError(`No agent found for task type: ${taskType}`);
+    }
+
+    candidates = candidates.filter(agent => registry.isHealthy(agent.getInfo().id));
+
+    if (candidates.length === 0) {
+      throw new AgentUnavailableError(`No healthy agent available for task type: ${taskType}`);
+    }
+
+    const rule = await this.getRoutingRule(taskType, brand);
+
+    if (rule.version) {
+      const range = rule.version;
+      candidates = candidates.filter(agent => satisfiesVersion(agent.getInfo().version, range));
+
+      if (candidates.length === 0) {
+        throw new AgentNotFoundError(
+          `No agent for task type ${taskType} matches version ${range}`
+        );
+      }
+    }
+
+    if (rule.agent) {
+      const preferred = candidates.filter(agent => agent.getInfo().name === rule.agent);
+
+      if (preferred.length > 0) {
+        candidates = preferred;
+      } else {
+        this.logger.warn(`Preferred agent ${rule.agent} is not available for ${taskType}`, {
+          brand
+        });
+      }
+    }
+
+    const topPriority = Math.max(...candidates.map(agent => agent.getInfo().priority));
+    const equivalent = candidates.filter(agent => agent.getInfo().priority === topPriority);
+
+    return this.applyStrategy(
+      rule.strategy || getDefaultRoutingStrategy(),
+      equivalent,
+      `${brand || ''}:${taskType}`
+    );
+  }
+
+  /**
+   * The brand's rule for a task type, with the brand's default strategy filled in
+   */
+  private async getRoutingRule(taskType: string, brand?: string): Promise<RoutingRule> {
+    if (!brand) {
+      return {};
+    }
+
+    const routing = (await brandConfig.getBrandConfig(brand)).routing || {};
+
+    return {
+      strategy: routing.strategy,
+      ...(routing.tasks?.[taskType] || {})
+    };
+  }
+
+  private async applyStrategy(
+    strategy: RoutingStrategy,
+    agents: BaseAgent[],
+    key: string
+  ): Promise<BaseAgent> {
+    if (agents.length === 1) {
+      return agents[0];
+    }
+
+    switch (strategy) {
+      case 'round-robin': {
+        // Positions are per process; with several API instances each rotates on its own
+        const position = this.roundRobinPositions.get(key) || 0;
+        this.roundRobinPositions.set(key, position + 1);
+        return agents[position % agents.length];
+      }
+
+      case 'least-loaded': {
+        const loads = await Promise.all(
+          agents.map(agent => agentCatalog.countInFlight(agent.getInfo().id))
+        );
+        return agents[loads.indexOf(Math.min(...loads))];
+      }
+
+      default:
+        return agents[0];
+    }
+  }
+
   /**
    * Process task parameters with brand-specific defaults
    */
@@ -0,0 +1,134 @@
+import { BaseAgent } from '../core/agent';
+import { metricsManager } from '../core/metrics';
+import { MemoryStorage, setStorage } from '../db';
+import { registry } from '../registry';
+import { JobProcessor, MemoryQueueBackend } from './backends';
+import { taskExecutor } from './executor';
+import { taskQueue } from './queue';
+import { TaskWorker } from './worker';
+
+class EngraverAgent extends BaseAgent {
+  constructor() {
+    super({
+      name: 'Worker Test Engraver',
+      description: 'Engraves and prints decks',
+      version: '1.0.0',
+      capabilities: ['engraveDeck', 'printDeck'],
+    });
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+const agent = new EngraverAgent();
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  taskQueue.setBackend(new MemoryQueueBackend());
+  registry.registerAgent(agent);
+});
+
+afterAll(async () => {
+  registry.unregisterAgent(agent.getInfo().id);
+  await taskQueue.close();
+  metricsManager.destroy();
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  await storage.brands.create({ key: 'alpha', name: 'Alpha' });
+  await storage.brands.create({ key: 'beta', name: 'Beta' });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('TaskWorker', () => {
+  it('processes every task type and brand, and brands added later', async () => {
+    jest.spyOn(taskQueue, 'processTask').mockImplementation(() => undefined);
+    const worker = new TaskWorker();
+
+    expect(await worker.start({ concurrency: 2 }, 0)).toEqual([
+      'engraveDeck',
+      'engraveDeck:alpha',
+      'engraveDeck:beta',
+      'printDeck',
+      'printDeck:alpha',
+      'printDeck:beta',
+    ]);
+
+    await storage.brands.create({ key: 'gamma', name: 'Gamma' });
+    expect(await worker.refresh()).toEqual(['engraveDeck:gamma', 'printDeck:gamma']);
+    expect(taskQueue.processTask).toHaveBeenCalledWith('printDeck:gamma', 2, expect.any(Function));
+  });
+
+  it('shares the concurrency limit across task types and brands', async () => {
+    const processors: JobProcessor[] = [];
+    jest.spyOn(taskQueue, 'processTask').mockImplementation((name, concurrency, processor) => {
+      processors.push(processor);
+    });
+    const finishers: Array<() => void> = [];
+    const processed: string[] = [];
+    jest.spyOn(taskExecutor, 'processJob').mockImplementation(async job => {
+      processed.push(job.data.executionId);
+      await new Promise<void>(resolve => finishers.push(resolve));
+    });
+    const job = (executionId: string) => ({
+      id: executionId,
+      name: 'engraveDeck',
+      data: { executionId },
+      opts: {},
+      attemptsMade: 0,
+    });
+
+    await new TaskWorker().start({ brands: ['alpha'], concurrency: 1 }, 0);
+    const first = processors[0](job('execution-1'));
+    const second = processors[1](job('execution-2'));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(processed).toEqual(['execution-1']);
+
+    finishers[0]();
+    await first;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(processed).toEqual(['execution-1', 'execution-2']);
+    finishers[1]();
+    await second;
+  });
+
+  it('takes only the selected tasks and waits for running ones when drained', async () => {
+    let finish: () => void = () => undefined;
+    const processed: string[] = [];
+    jest.spyOn(taskExecutor, 'processJob').mockImplementation(async job => {
+      processed.push(job.data.executionId);
+      await new Promise<void>(resolve => (finish = resolve));
+    });
+    const worker = new TaskWorker();
+
+    expect(
+      await worker.start(
+        { taskTypes: ['engraveDeck', 'unknown'], brands: ['alpha'], concurrency: 1 },
+        0,
+      ),
+    ).toEqual(['engraveDeck:alpha']);
+
+    await taskQueue.addTask('engraveDeck', 'execution-1', { brand: 'alpha' });
+    await taskQueue.addTask('engraveDeck', 'execution-2', { brand: 'beta' });
+    await taskQueue.addTask('printDeck', 'execution-3', { brand: 'alpha' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(processed).toEqual(['execution-1']);
+    expect(await taskQueue.getJobStatus('execution-2', 'engraveDeck', 'beta')).toBe('waiting');
+
+    const drained = worker.drain(1000);
+    setTimeout(() => finish(), 20);
+
+    await expect(drained).resolves.toBe(true);
+    expect(await taskQueue.getJobStatus('execution-1', 'engraveDeck', 'alpha')).toBe('completed');
+  });
+});
@@ -0,0 +1,206 @@
+import { brandConfig } from '../brands';
+import { AgentLogger } from '../core/logger';
+import { registry } from '../registry';
+import { withTimeout } from '../utils/helpers';
+import { taskExecutor } from './executor';
+import { getJobName, taskQueue } from './queue';
+
+const logger = new AgentLogger('TaskWorker');
+
+/**
+ * Which queued tasks a worker process takes, and how many at once
+ */
+export interface WorkerOptions {
+  /** Task types to process; all task types of registered agents when omitted */
+  taskTypes?: string[];
+  /** Brands to process; all brands and tasks without a brand when omitted */
+  brands?: string[];
+  /** Jobs run at once by the worker, across all task types and brands */
+  concurrency: number;
+}
+
+function parseList(value?: string): string[] | undefined {
+  const items = (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Run at most `concurrency` functions at once; the others wait for a free slot in order
+ */
+function createLimiter(concurrency: number): <T>(fn: () => Promise<T>) => Promise<T> {
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      // The finishing function hands its slot over, so active stays the same
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+/**
+ * Worker options from WORKER_TASK_TYPES, WORKER_BRANDS and WORKER_CONCURRENCY
+ */
+export function getWorkerOptions(): WorkerOptions {
+  const concurrency = Number(process.env.WORKER_CONCURRENCY);
+
+  return {
+    taskTypes: parseList(process.env.WORKER_TASK_TYPES),
+    brands: parseList(process.env.WORKER_BRANDS),
+    concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 5,
+  };
+}
+
+/**
+ * How often workers look for new brands and agent task types (0 = only at start)
+ */
+export function getWorkerRefreshInterval(): number {
+  return Number(process.env.WORKER_REFRESH_INTERVAL_MS ?? 60000);
+}
+
+/**
+ * How long a stopping worker waits for running tasks to finish
+ */
+export function getDrainTimeout(): number {
+  return Number(process.env.WORKER_DRAIN_TIMEOUT_MS) || 60000;
+}
+
+/**
+ * Takes queued tasks and runs them with the task executor. Tasks are queued per task type
+ * and brand (see getJobName), and a worker only takes those its options select. The
+ * concurrency limit is shared by all of them.
+ */
+export class TaskWorker {
+  private options: WorkerOptions | null = null;
+  private limit: <T>(fn: () => Promise<T>) => Promise<T> = fn => fn();
+  private jobNames: Set<string> = new Set();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start processing the selected task types and brands. Brands and agents added later
+   * are picked up every refreshIntervalMs. Returns the job names being processed.
+   */
+  public async start(
+    options: WorkerOptions = getWorkerOptions(),
+    refreshIntervalMs: number = getWorkerRefreshInterval(),
+  ): Promise<string[]> {
+    this.options = options;
+    this.limit = createLimiter(options.concurrency);
+    await this.refresh();
+
+    if (refreshIntervalMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch(error =>
+          logger.error(`Failed to refresh worker queues: ${(error as Error).message}`),
+        );
+      }, refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+
+    logger.info('Worker started', {
+      taskTypes: options.taskTypes || 'all',
+      brands: options.brands || 'all',
+      concurrency: options.concurrency,
+    });
+
+    return this.getJobNames();
+  }
+
+  /**
+   * Names of the jobs this worker processes
+   */
+  public getJobNames(): string[] {
+    return Array.from(this.jobNames);
+  }
+
+  /**
+   * Start processing task types and brands that have appeared since the last refresh.
+   * Selected task types without a registered agent are skipped until one is registered.
+   */
+  public async refresh(): Promise<string[]> {
+    if (!this.options) {
+      return [];
+    }
+
+    const { concurrency } = this.options;
+    const added: string[] = [];
+
+    for (const name of await this.resolveJobNames(this.options)) {
+      if (this.jobNames.has(name)) {
+        continue;
+      }
+
+      this.jobNames.add(name);
+      // Each queue may take up to the limit, so one busy queue can use every slot
+      taskQueue.processTask(name, concurrency, job =>
+        this.limit(() => taskExecutor.processJob(job)),
+      );
+      added.push(name);
+    }
+
+    return added;
+  }
+
+  /**
+   * Stop taking tasks and wait up to timeoutMs for running ones to finish. Returns false
+   * if some were still running; with Bull, those are retried once their locks expire.
+   */
+  public async drain(timeoutMs: number = getDrainTimeout()): Promise<boolean> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    logger.info(`Draining worker, waiting up to ${timeoutMs}ms for running tasks`);
+
+    try {
+      await withTimeout(taskQueue.close(), timeoutMs, `Tasks still running after ${timeoutMs}ms`);
+      return true;
+    } catch (error) {
+      logger.warn(`Worker drain incomplete: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private async resolveJobNames(options: WorkerOptions): Promise<string[]> {
+    const supported = new Set(
+      registry.getAllAgents().flatMap(agent => agent.getInfo().capabilities),
+    );
+    const taskTypes = options.taskTypes
+      ? options.taskTypes.filter(taskType => supported.has(taskType))
+      : Array.from(supported);
+    const brands: (string | null)[] = options.brands || [
+      null,
+      ...(await brandConfig.getAllBrands()).map(brand => brand.key),
+    ];
+
+    return taskTypes.flatMap(taskType => brands.map(brand => getJobName(taskType, brand)));
+  }
+}
+
+// Export singleton instance
+export const taskWorker = new TaskWorker();
+
+export default {
+  TaskWorker,
+  taskWorker,
+  getWorkerOptions,
+};
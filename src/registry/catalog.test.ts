@@ -0,0 +1,111 @@
+import Joi from 'joi';
+import { BaseAgent } from '../core/agent';
+import { AgentNotFoundError } from '../core/errors';
+import { MemoryStorage, setStorage } from '../db';
+import { agentCatalog } from './catalog';
+import { registry } from './index';
+
+class DeckAgent extends BaseAgent {
+  constructor() {
+    super({
+      name: 'Deck Agent',
+      description: 'Checks decks',
+      version: '1.0.0',
+      capabilities: ['checkDeck', 'countCards'],
+      parameterSchemas: {
+        checkDeck: Joi.object({
+          deckId: Joi.string().required().min(1),
+          mode: Joi.string().valid('quick', 'full').default('quick'),
+        }),
+      },
+    });
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+const agent = new DeckAgent();
+const agentId = agent.getInfo().id;
+
+let storage: MemoryStorage;
+
+beforeAll(() => {
+  registry.registerAgent(agent);
+});
+
+afterAll(() => {
+  registry.unregisterAgent(agentId);
+});
+
+beforeEach(async () => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+
+  for (const key of ['mysticArcana', 'edmShuffle']) {
+    await storage.brands.create({
+      key,
+      name: key,
+      taskSettings:
+        key === 'mysticArcana' ? { taskOverrides: { checkDeck: { priority: 'high' } } } : {},
+    });
+  }
+
+  const statuses = ['completed', 'completed', 'failed', 'running'];
+  for (const [index, status] of statuses.entries()) {
+    const timestamp = new Date(Date.UTC(2024, 0, index + 1)).toISOString();
+
+    await storage.executions.create({
+      id: `execution-${index}`,
+      taskId: null,
+      agentId,
+      brand: null,
+      parameters: {},
+      status,
+      priority: 'medium',
+      createdAt: timestamp,
+      completedAt: status === 'running' ? undefined : timestamp,
+    });
+  }
+});
+
+describe('AgentCatalog', () => {
+  it('should describe tasks with their parameter schemas and brand overrides', async () => {
+    const description = await agentCatalog.getAgent(agentId);
+
+    expect(description.capabilities).toEqual(['checkDeck', 'countCards']);
+    expect(description.tasks).toEqual([
+      {
+        taskType: 'checkDeck',
+        parameterSchema: {
+          type: 'object',
+          properties: {
+            deckId: { type: 'string', minLength: 1 },
+            mode: { type: 'string', enum: ['quick', 'full'], default: 'quick' },
+          },
+          required: ['deckId'],
+          additionalProperties: false,
+        },
+        brandOverrides: [{ brand: 'mysticArcana', priority: 'high' }],
+      },
+      { taskType: 'countCards', parameterSchema: null, brandOverrides: [] },
+    ]);
+  });
+
+  it('should report in-flight executions and the recent success rate', async () => {
+    const { stats } = await agentCatalog.getAgent(agentId);
+
+    expect(stats).toEqual({ inFlight: 1, completed: 2, failed: 1, successRate: 2 / 3 });
+  });
+
+  it('should limit brand overrides to the requested brand', async () => {
+    const description = await agentCatalog.getAgent(agentId, { brand: 'edmShuffle' });
+
+    expect(description.tasks[0].brandOverrides).toEqual([]);
+  });
+
+  it('should reject unknown agents', async () => {
+    await expect(agentCatalog.getAgent('missing')).rejects.toBeInstanceOf(AgentNotFoundError);
+  });
+});
@@ -0,0 +1,167 @@
+import { brandConfig } from '../brands';
+import { BaseAgent } from '../core/agent';
+import { AgentNotFoundError } from '../core/errors';
+import { getStorage } from '../db';
+import { toJsonSchema } from '../utils/schema';
+import { registry } from './index';
+
+/**
+ * Settings a brand applies to one task type (taskSettings.taskOverrides)
+ */
+export interface BrandTaskOverride {
+  brand: string;
+  priority?: string;
+  timeout?: number;
+  retries?: number;
+  /** Parameter defaults merged under the request's parameters */
+  parameters?: Record<string, any>;
+}
+
+export interface CapabilityDescription {
+  taskType: string;
+  /** JSON Schema for the task's parameters, or null if the agent declares none */
+  parameterSchema: Record<string, any> | null;
+  brandOverrides: BrandTaskOverride[];
+}
+
+export interface AgentStats {
+  /** Executions assigned to the agent that are pending, running or waiting to retry */
+  inFlight: number;
+  /** Outcomes of the agent's most recently finished executions */
+  completed: number;
+  failed: number;
+  /** Share of recent executions that completed, or null before any have finished */
+  successRate: number | null;
+}
+
+export interface AgentDescription {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  capabilities: string[];
+  /** Preferred over lower-priority agents for shared task types */
+  priority: number;
+  tasks: CapabilityDescription[];
+  stats: AgentStats;
+}
+
+export interface CatalogOptions {
+  /** Only include this brand's overrides */
+  brand?: string;
+}
+
+const IN_FLIGHT_STATUSES = ['pending', 'running', 'retrying'];
+const FINISHED_STATUSES = ['completed', 'failed', 'timed_out'];
+
+// Upper bound on in-flight executions counted per agent
+const IN_FLIGHT_LIMIT = 1000;
+
+/**
+ * How many finished executions the success rate covers
+ */
+function getStatsWindow(): number {
+  return Number(process.env.AGENT_STATS_WINDOW) || 100;
+}
+
+/**
+ * Describes registered agents for discovery: their tasks, parameter schemas, the brand
+ * overrides that apply and live execution stats
+ */
+export class AgentCatalog {
+  /**
+   * Describe every registered agent
+   */
+  public async listAgents(options: CatalogOptions = {}): Promise<AgentDescription[]> {
+    const brands = await this.loadBrands(options.brand);
+
+    return Promise.all(registry.getAllAgents().map(agent => this.describe(agent, brands)));
+  }
+
+  /**
+   * Describe one agent by ID
+   */
+  public async getAgent(agentId: string, options: CatalogOptions = {}): Promise<AgentDescription> {
+    const agent = registry.getAgent(agentId);
+
+    if (!agent) {
+      throw new AgentNotFoundError(`Agent not found: ${agentId}`);
+    }
+
+    return this.describe(agent, await this.loadBrands(options.brand));
+  }
+
+  private async loadBrands(brand?: string): Promise<any[]> {
+    const brands = await brandConfig.getAllBrands();
+    return brand ? brands.filter(config => config.key === brand) : brands;
+  }
+
+  private async describe(agent: BaseAgent, brands: any[]): Promise<AgentDescription> {
+    const info = agent.getInfo();
+
+    return {
+      ...info,
+      tasks: info.capabilities.map(taskType => {
+        const schema = agent.getParameterSchema(taskType);
+
+        return {
+          taskType,
+          parameterSchema: schema ? toJsonSchema(schema) : null,
+          brandOverrides: this.getBrandOverrides(taskType, brands),
+        };
+      }),
+      stats: await this.getStats(info.id),
+    };
+  }
+
+  private getBrandOverrides(taskType: string, brands: any[]): BrandTaskOverride[] {
+    return brands
+      .filter(config => config.taskSettings?.taskOverrides?.[taskType])
+      .map(config => ({ brand: config.key, ...config.taskSettings.taskOverrides[taskType] }));
+  }
+
+  /**
+   * Number of executions assigned to an agent that are pending, running or waiting to retry
+   */
+  public async countInFlight(agentId: string): Promise<number> {
+    const inFlight = await getStorage().executions.list({
+      agentId,
+      status: IN_FLIGHT_STATUSES,
+      sortBy: 'createdAt',
+      order: 'desc',
+      limit: IN_FLIGHT_LIMIT,
+    });
+
+    return inFlight.length;
+  }
+
+  private async getStats(agentId: string): Promise<AgentStats> {
+    const storage = getStorage();
+    const inFlight = await this.countInFlight(agentId);
+
+    const finished = await storage.executions.list({
+      agentId,
+      status: FINISHED_STATUSES,
+      sortBy: 'completedAt',
+      order: 'desc',
+      limit: getStatsWindow(),
+    });
+
+    const completed = finished.filter(execution => execution.status === 'completed').length;
+
+    return {
+      inFlight,
+      completed,
+      failed: finished.length - completed,
+      successRate: finished.length > 0 ? completed / finished.length : null,
+    };
+  }
+}
+
+// Export singleton instance
+export const agentCatalog = new AgentCatalog();
+
+export default {
+  AgentCatalog,
+  agentCatalog,
+};
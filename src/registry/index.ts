@@ -1,4 +1,5 @@
-import { AgentRegistry } from './registry';
+import { AgentRegistry, AgentHealthStatus } from './registry';
+import { seedTaskDefinitions } from '../db';
 
 /**
  * Initialize the agent registry
@@ -9,6 +10,19 @@ export async function initializeRegistry(): Promise<void> {
   // Import and register all agents
   const { registerAgents } = await import('../agents');
   registerAgents();
+
+  // Load agents from PLUGIN_DIR and PLUGIN_PACKAGES
+  const { pluginManager } = await import('./plugins');
+  await pluginManager.loadPlugins();
+
+  // Unhealthy agents are left out of routing until a later check passes
+  await registry.initializeAgents();
+  registry.startHealthChecks();
+
+  // Make every agent capability submittable on storage drivers without migrations
+  await seedTaskDefinitions(
+    registry.getAllAgents().flatMap(agent => agent.getInfo().capabilities)
+  );
 }
 
 // Export registry singleton
@@ -18,3 +32,4 @@ export {
   AgentRegistry,
   registry
 };
+export type { AgentHealthStatus };
@@ -0,0 +1,110 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PluginLoadError, PluginNotFoundError } from '../core/errors';
+import { MemoryStorage, setStorage } from '../db';
+import { registry } from './index';
+import { PluginManager } from './plugins';
+
+const agentModule = JSON.stringify(path.resolve(__dirname, '../core/agent'));
+
+/**
+ * Source of a plugin module declaring the given API range and exporting one agent
+ */
+const pluginSource = (apiVersion: string, agentName: string | null) => `
+const { BaseAgent } = require(${agentModule});
+
+exports.agentApiVersion = ${JSON.stringify(apiVersion)};
+
+${
+  agentName
+    ? `exports.default = class extends BaseAgent {
+  constructor() {
+    super({
+      name: '${agentName}',
+      description: 'Test plugin',
+      version: '1.0.0',
+      capabilities: ['engraveDeck'],
+    });
+  }
+
+  async executeTask() {
+    return {};
+  }
+};`
+    : ''
+}
+`;
+
+let directory: string;
+let storage: MemoryStorage;
+let manager: PluginManager;
+
+const pluginAgents = () =>
+  registry.getAgentsByCapability('engraveDeck').map(agent => agent.getInfo().name);
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-plugins-'));
+
+  await fs.writeFile(path.join(directory, 'engraver.js'), pluginSource('^1.0.0', 'Engraver'));
+  await fs.writeFile(path.join(directory, 'legacy.js'), pluginSource('^0.9.0', 'Legacy'));
+  await fs.writeFile(path.join(directory, 'empty.js'), pluginSource('^1.0.0', null));
+  await fs.mkdir(path.join(directory, 'etcher'));
+  await fs.writeFile(path.join(directory, 'etcher', 'index.js'), pluginSource('>=1.0.0', 'Etcher'));
+  await fs.writeFile(path.join(directory, 'README.md'), 'Not a plugin');
+});
+
+afterAll(async () => {
+  for (const plugin of manager.listPlugins()) {
+    await manager.disablePlugin(plugin.id);
+  }
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+});
+
+describe('PluginManager', () => {
+  it('loads compatible plugins and records why others failed', async () => {
+    manager = new PluginManager();
+
+    const plugins = await manager.loadPlugins({
+      directory,
+      packages: [],
+      disabled: ['etcher'],
+      hotReload: false,
+    });
+
+    expect(Object.fromEntries(plugins.map(plugin => [plugin.id, plugin.status]))).toEqual({
+      empty: 'failed',
+      engraver: 'loaded',
+      etcher: 'disabled',
+      legacy: 'failed',
+    });
+    expect(manager.getPlugin('legacy').error).toBe(
+      'requires agent API ^0.9.0, this framework provides 1.0.0',
+    );
+    expect(manager.getPlugin('empty').error).toBe('exports no BaseAgent subclass');
+    expect(pluginAgents()).toEqual(['Engraver']);
+    expect(await storage.tasks.findByType('engraveDeck')).not.toBeNull();
+  });
+
+  it('enables and disables plugins at runtime', async () => {
+    await manager.enablePlugin('etcher');
+    expect(pluginAgents()).toEqual(['Engraver', 'Etcher']);
+
+    const engraver = await manager.disablePlugin('engraver');
+    expect(engraver).toMatchObject({ status: 'disabled', agentIds: [] });
+    expect(pluginAgents()).toEqual(['Etcher']);
+
+    await manager.enablePlugin('engraver');
+    expect(pluginAgents()).toEqual(['Etcher', 'Engraver']);
+  });
+
+  it('rejects unknown and incompatible plugins', async () => {
+    await expect(manager.enablePlugin('missing')).rejects.toBeInstanceOf(PluginNotFoundError);
+    await expect(manager.enablePlugin('legacy')).rejects.toBeInstanceOf(PluginLoadError);
+  });
+});
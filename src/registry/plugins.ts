@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AGENT_API_VERSION, BaseAgent } from '../core/agent';
+import { PluginLoadError, PluginNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { seedTaskDefinitions } from '../db';
+import { isValidVersionRange, satisfiesVersion } from '../utils/version';
+import { registry } from './index';
+
+export type PluginSource = 'directory' | 'package';
+
+export type PluginStatus = 'loaded' | 'disabled' | 'failed';
+
+/**
+ * A plugin module and the agents it registered
+ */
+export interface PluginInfo {
+  /** File or directory name without extension, or the package name */
+  id: string;
+  source: PluginSource;
+  /** Absolute path for directory plugins, package name for packages */
+  location: string;
+  status: PluginStatus;
+  /** Agent API range the plugin declares with agentApiVersion */
+  apiVersion?: string;
+  agentIds: string[];
+  error?: string;
+  loadedAt?: string;
+}
+
+export interface PluginConfig {
+  directory?: string;
+  packages: string[];
+  /** Plugin IDs discovered but not loaded until enabled */
+  disabled: string[];
+  /** Reload directory plugins when their files change */
+  hotReload: boolean;
+}
+
+// Quiet period after a file change before the plugin is reloaded
+const RELOAD_DELAY_MS = 200;
+
+const splitList = (value?: string) =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+/**
+ * Plugin settings from PLUGIN_DIR, PLUGIN_PACKAGES, PLUGINS_DISABLED and PLUGIN_HOT_RELOAD
+ * (defaults to on when NODE_ENV is development)
+ */
+export function getPluginConfig(): PluginConfig {
+  const hotReload = process.env.PLUGIN_HOT_RELOAD;
+
+  return {
+    directory: process.env.PLUGIN_DIR || undefined,
+    packages: splitList(process.env.PLUGIN_PACKAGES),
+    disabled: splitList(process.env.PLUGINS_DISABLED),
+    hotReload: hotReload ? hotReload === 'true' : process.env.NODE_ENV === 'development',
+  };
+}
+
+/**
+ * File extensions loadable as plugins; TypeScript only when a loader such as ts-node is active
+ */
+function getPluginExtensions(): string[] {
+  return '.ts' in require.extensions ? ['.js', '.cjs', '.ts'] : ['.js', '.cjs'];
+}
+
+function isAgentClass(value: unknown): value is new () => BaseAgent {
+  return typeof value === 'function' && value.prototype instanceof BaseAgent;
+}
+
+/**
+ * Loads agents from a plugin directory and npm packages. A plugin module exports
+ * agentApiVersion, the range of AGENT_API_VERSION it supports, and one or more BaseAgent
+ * subclasses with no-argument constructors.
+ */
+export class PluginManager {
+  private plugins: Map<string, PluginInfo> = new Map();
+  private directory: string | null = null;
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
+  private logger = new AgentLogger('PluginManager');
+
+  /**
+   * Discover plugins and load those not disabled. A plugin that fails to load is recorded
+   * as failed and logged, so it does not stop the others or startup.
+   */
+  public async loadPlugins(config: PluginConfig = getPluginConfig()): Promise<PluginInfo[]> {
+    this.directory = config.directory ? path.resolve(config.directory) : null;
+
+    for (const plugin of this.discover(config.packages)) {
+      const existing = this.plugins.get(plugin.id);
+
+      // Plugins found again on a later call keep their state
+      if (existing) {
+        if (existing.location !== plugin.location) {
+          this.logger.warn(
+            `Skipping plugin ${plugin.location}: plugin ${plugin.id} already exists`,
+          );
+        }
+        continue;
+      }
+
+      this.plugins.set(plugin.id, plugin);
+
+      if (!config.disabled.includes(plugin.id)) {
+        await this.tryLoad(plugin);
+      }
+    }
+
+    if (config.hotReload && this.directory) {
+      this.watch();
+    }
+
+    return this.listPlugins();
+  }
+
+  public listPlugins(): PluginInfo[] {
+    return Array.from(this.plugins.values(), plugin => ({ ...plugin }));
+  }
+
+  public getPlugin(id: string): PluginInfo {
+    return { ...this.findPlugin(id) };
+  }
+
+  /**
+   * Load a disabled or failed plugin and register its agents
+   */
+  public async enablePlugin(id: string): Promise<PluginInfo> {
+    const plugin = this.findPlugin(id);
+
+    if (plugin.status !== 'loaded') {
+      if (plugin.source === 'directory') {
+        this.clearModuleCache(plugin);
+      }
+      await this.load(plugin);
+    }
+
+    return { ...plugin };
+  }
+
+  /**
+   * Shut down and unregister a plugin's agents; tasks routed to them fail
+   */
+  public async disablePlugin(id: string): Promise<PluginInfo> {
+    const plugin = this.findPlugin(id);
+
+    await this.unload(plugin);
+    plugin.status = 'disabled';
+    plugin.error = undefined;
+    this.logger.info(`Disabled plugin ${id}`);
+
+    return { ...plugin };
+  }
+
+  /**
+   * Reload directory plugins when files in the plugin directory change
+   */
+  public watch(): void {
+    const directory = this.directory;
+    if (!directory) {
+      return;
+    }
+
+    this.stopWatching();
+    this.watcher = fs.watch(directory, { recursive: true }, (_event, filename) => {
+      if (!filename) {
+        return;
+      }
+
+      // The plugin is the top-level file or directory the change is in
+      const entry = filename.toString().split(path.sep)[0];
+      const id = path.basename(entry, path.extname(entry));
+
+      clearTimeout(this.reloadTimers.get(id));
+      this.reloadTimers.set(
+        id,
+        setTimeout(() => {
+          this.reloadTimers.delete(id);
+          this.handleChange(id).catch(error => {
+            this.logger.error(`Failed to reload plugin ${id}: ${(error as Error).message}`);
+          });
+        }, RELOAD_DELAY_MS),
+      );
+    });
+    this.watcher.unref();
+
+    this.logger.info(`Watching ${directory} for plugin changes`);
+  }
+
+  public stopWatching(): void {
+    this.watcher?.close();
+    this.watcher = null;
+
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
+  private findPlugin(id: string): PluginInfo {
+    const plugin = this.plugins.get(id);
+
+    if (!plugin) {
+      throw new PluginNotFoundError(id);
+    }
+
+    return plugin;
+  }
+
+  /**
+   * Plugins in the plugin directory followed by the packages
+   */
+  private discover(packages: string[]): PluginInfo[] {
+    const plugins: PluginInfo[] = [];
+    const create = (id: string, source: PluginSource, location: string): PluginInfo => ({
+      id,
+      source,
+      location,
+      status: 'disabled',
+      agentIds: [],
+    });
+
+    if (this.directory) {
+      let entries: fs.Dirent[] = [];
+      try {
+        entries = fs.readdirSync(this.directory, { withFileTypes: true });
+      } catch (error) {
+        this.logger.error(`Cannot read plugin directory: ${(error as Error).message}`);
+      }
+
+      const extensions = getPluginExtensions();
+      for (const entry of entries) {
+        const extension = path.extname(entry.name);
+        const location = path.join(this.directory, entry.name);
+
+        if (entry.isDirectory()) {
+          plugins.push(create(entry.name, 'directory', location));
+        } else if (extensions.includes(extension) && !entry.name.endsWith('.d.ts')) {
+          plugins.push(create(path.basename(entry.name, extension), 'directory', location));
+        }
+      }
+    }
+
+    for (const name of packages) {
+      plugins.push(create(name, 'package', name));
+    }
+
+    return plugins;
+  }
+
+  private async tryLoad(plugin: PluginInfo): Promise<void> {
+    try {
+      await this.load(plugin);
+    } catch {
+      // Recorded on the plugin and logged by load
+    }
+  }
+
+  /**
+   * Import a plugin, check its API version and register and initialize its agents
+   */
+  private async load(plugin: PluginInfo): Promise<void> {
+    let agents: BaseAgent[];
+
+    try {
+      agents = await this.instantiate(plugin);
+    } catch (error) {
+      plugin.status = 'failed';
+      plugin.error = (error as Error).message;
+      this.logger.error(`Failed to load plugin ${plugin.id}: ${plugin.error}`);
+      throw new PluginLoadError(plugin.id, plugin.error);
+    }
+
+    for (const agent of agents) {
+      registry.registerAgent(agent);
+      await registry.initializeAgent(agent);
+    }
+
+    // Make the plugin's task types submittable on storage drivers without migrations
+    await seedTaskDefinitions(agents.flatMap(agent => agent.getInfo().capabilities));
+
+    plugin.status = 'loaded';
+    plugin.error = undefined;
+    plugin.agentIds = agents.map(agent => agent.getInfo().id);
+    plugin.loadedAt = new Date().toISOString();
+
+    this.logger.info(`Loaded plugin ${plugin.id}`, { agents: plugin.agentIds.length });
+  }
+
+  private async instantiate(plugin: PluginInfo): Promise<BaseAgent[]> {
+    const imported = await import(plugin.location);
+    // CommonJS modules without __esModule arrive with their exports wrapped as default
+    const exports =
+      imported.default && typeof imported.default === 'object' ? imported.default : imported;
+    const range = exports.agentApiVersion;
+
+    if (typeof range !== 'string' || !isValidVersionRange(range)) {
+      throw new Error('agentApiVersion must be a version range such as "^1.0.0"');
+    }
+
+    plugin.apiVersion = range;
+
+    if (!satisfiesVersion(AGENT_API_VERSION, range)) {
+      throw new Error(`requires agent API ${range}, this framework provides ${AGENT_API_VERSION}`);
+    }
+
+    const classes = new Set(Object.values(exports).filter(isAgentClass));
+    if (classes.size === 0) {
+      throw new Error('exports no BaseAgent subclass');
+    }
+
+    const agents = Array.from(classes, AgentClass => new AgentClass());
+
+    // Plugins add agents; replacing built-in or other plugins' agents would be order-dependent
+    for (const agent of agents) {
+      const { id, name } = agent.getInfo();
+      if (registry.hasAgent(id)) {
+        throw new Error(`agent ${name} (${id}) is already registered`);
+      }
+    }
+
+    return agents;
+  }
+
+  private async unload(plugin: PluginInfo): Promise<void> {
+    for (const agentId of plugin.agentIds) {
+      const agent = registry.getAgent(agentId);
+
+      if (agent) {
+        await registry.shutdownAgent(agent);
+        registry.unregisterAgent(agentId);
+      }
+    }
+
+    plugin.agentIds = [];
+  }
+
+  /**
+   * Reload a changed plugin, or load a plugin added to the directory
+   */
+  private async handleChange(id: string): Promise<void> {
+    const plugin = this.plugins.get(id);
+
+    if (!plugin) {
+      const added = this.discover([]).find(candidate => candidate.id === id);
+      if (added) {
+        this.plugins.set(id, added);
+        await this.tryLoad(added);
+      }
+      return;
+    }
+
+    if (plugin.status === 'disabled') {
+      return;
+    }
+
+    this.logger.info(`Reloading plugin ${id}`);
+    await this.unload(plugin);
+    this.clearModuleCache(plugin);
+    await this.tryLoad(plugin);
+  }
+
+  /**
+   * Forget the plugin's compiled modules so the next import reads them from disk
+   */
+  private clearModuleCache(plugin: PluginInfo): void {
+    for (const key of Object.keys(require.cache)) {
+      if (key === plugin.location || key.startsWith(plugin.location + path.sep)) {
+        delete require.cache[key];
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const pluginManager = new PluginManager();
+
+export default {
+  PluginManager,
+  pluginManager,
+  getPluginConfig,
+};
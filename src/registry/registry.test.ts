@@ -0,0 +1,93 @@
+import { AgentHealth, BaseAgent } from '../core/agent';
+import { AgentRegistry } from './registry';
+
+class ScannerAgent extends BaseAgent {
+  public initializeError: Error | null = null;
+  public health: AgentHealth = { healthy: true };
+  public shutdownCalls = 0;
+
+  constructor(name: string, priority = 0) {
+    super({
+      name,
+      description: 'Scans decks',
+      version: '1.0.0',
+      priority,
+      capabilities: ['scanDeck'],
+    });
+  }
+
+  public async initialize(): Promise<void> {
+    if (this.initializeError) {
+      throw this.initializeError;
+    }
+  }
+
+  public async healthCheck(): Promise<AgentHealth> {
+    return this.health;
+  }
+
+  public async shutdown(): Promise<void> {
+    this.shutdownCalls++;
+  }
+
+  public async executeTask(): Promise<any> {
+    return {};
+  }
+}
+
+let registry: AgentRegistry;
+let primary: ScannerAgent;
+let backup: ScannerAgent;
+
+const healthOf = (agent: BaseAgent) =>
+  registry.getHealth().find(status => status.id === agent.getInfo().id);
+
+beforeEach(() => {
+  registry = new AgentRegistry();
+  primary = new ScannerAgent('Primary Scanner', 1);
+  backup = new ScannerAgent('Backup Scanner');
+  registry.registerAgent(primary);
+  registry.registerAgent(backup);
+});
+
+describe('AgentRegistry lifecycle', () => {
+  it('leaves agents that fail to initialize out of routing until they initialize', async () => {
+    primary.initializeError = new Error('model not loaded');
+    await registry.initializeAgents();
+
+    expect(healthOf(primary)).toMatchObject({
+      healthy: false,
+      message: 'Initialization failed: model not loaded',
+    });
+    expect(registry.findAgentForTask('scanDeck')).toBe(backup);
+
+    primary.initializeError = null;
+    await registry.checkHealth();
+
+    expect(healthOf(primary)?.healthy).toBe(true);
+    expect(registry.findAgentForTask('scanDeck')).toBe(primary);
+  });
+
+  it('follows health checks as agents become unhealthy and recover', async () => {
+    await registry.initializeAgents();
+
+    primary.health = { healthy: false, message: 'disk full' };
+    await registry.checkHealth();
+    expect(registry.isHealthy(primary.getInfo().id)).toBe(false);
+    expect(registry.findAgentForTask('scanDeck')).toBe(backup);
+
+    primary.health = { healthy: true };
+    await registry.checkHealth();
+    expect(registry.findAgentForTask('scanDeck')).toBe(primary);
+  });
+
+  it('shuts down initialized agents and marks them unhealthy', async () => {
+    backup.initializeError = new Error('no license');
+    await registry.initializeAgents();
+    await registry.shutdownAgents();
+
+    expect(primary.shutdownCalls).toBe(1);
+    expect(backup.shutdownCalls).toBe(0);
+    expect(healthOf(primary)).toMatchObject({ healthy: false, message: 'Shut down' });
+  });
+});
@@ -1,15 +1,60 @@
-import { BaseAgent } from '../core/agent';
+import { AgentHealth, BaseAgent } from '../core/agent';
 import { AgentLogger } from '../core/logger';
+import { withTimeout } from '../utils/helpers';
+
+/**
+ * Latest health of a registered agent
+ */
+export interface AgentHealthStatus extends AgentHealth {
+  id: string;
+  name: string;
+  version: string;
+  checkedAt: string;
+}
+
+/**
+ * How often registered agents are health-checked (AGENT_HEALTH_INTERVAL_MS, 0 = never)
+ */
+export function getHealthCheckInterval(): number {
+  const interval = Number(process.env.AGENT_HEALTH_INTERVAL_MS ?? 30000);
+  return Number.isFinite(interval) && interval >= 0 ? interval : 30000;
+}
+
+/**
+ * How long an agent's initialize or shutdown may take before it counts as failed
+ */
+export function getLifecycleTimeout(): number {
+  return Number(process.env.AGENT_LIFECYCLE_TIMEOUT_MS) || 30000;
+}
+
+/**
+ * How long a health check may take before it counts as failed
+ */
+export function getHealthCheckTimeout(): number {
+  return Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 5000;
+}
 
 export class AgentRegistry {
   private agents: Map<string, BaseAgent> = new Map();
+  private health: Map<string, AgentHealthStatus> = new Map();
+  /** Agents whose initialize has completed */
+  private initialized: Set<string> = new Set();
+  private healthTimer: NodeJS.Timeout | null = null;
   private logger = new AgentLogger('AgentRegistry');
 
   /**
    * Register an agent with the registry
    */
   public registerAgent(agent: BaseAgent): void {
-    const agentInfo = agent.getConfig();
+    const agentInfo = agent.getInfo();
+
+    // IDs derive from agent names, so a second agent with the same name replaces the first
+    if (this.agents.has(agentInfo.id)) {
+      this.logger.warn(`Replacing registered agent: ${agentInfo.name} (${agentInfo.id})`);
+      this.health.delete(agentInfo.id);
+      this.initialized.delete(agentInfo.id);
+    }
+
     this.agents.set(agentInfo.id, agent);
     this.logger.info(`Registered agent: ${agentInfo.name} (${agentInfo.id})`);
   }
@@ -28,12 +73,149 @@ export class AgentRegistry {
     return Array.from(this.agents.values());
   }
 
+  /**
+   * Whether an agent may be routed to. Agents that have not been checked yet count as healthy.
+   */
+  public isHealthy(agentId: string): boolean {
+    return this.health.get(agentId)?.healthy !== false;
+  }
+
+  /**
+   * Latest health of every registered agent
+   */
+  public getHealth(): AgentHealthStatus[] {
+    return this.getAllAgents().map(agent => {
+      const { id, name, version } = agent.getInfo();
+      return this.health.get(id) || { id, name, version, healthy: true, checkedAt: '' };
+    });
+  }
+
+  /**
+   * Initialize one agent. Failures are logged and leave the agent unhealthy.
+   */
+  public async initializeAgent(agent: BaseAgent): Promise<void> {
+    const { id, name } = agent.getInfo();
+
+    try {
+      await withTimeout(agent.initialize(), getLifecycleTimeout(), 'Initialization timed out');
+      this.initialized.add(id);
+      this.logger.info(`Initialized agent: ${name} (${id})`);
+    } catch (error) {
+      this.logger.error(`Failed to initialize agent ${name}: ${(error as Error).message}`);
+      this.setHealth(agent, {
+        healthy: false,
+        message: `Initialization failed: ${(error as Error).message}`,
+      });
+      return;
+    }
+
+    await this.checkAgentHealth(agent);
+  }
+
+  /**
+   * Initialize every registered agent that has not been initialized yet
+   */
+  public async initializeAgents(): Promise<void> {
+    await Promise.all(
+      this.getAllAgents()
+        .filter(agent => !this.initialized.has(agent.getInfo().id))
+        .map(agent => this.initializeAgent(agent))
+    );
+  }
+
+  /**
+   * Run every agent's health check and return the results. Agents whose initialize
+   * failed are initialized again instead.
+   */
+  public async checkHealth(): Promise<AgentHealthStatus[]> {
+    await Promise.all(
+      this.getAllAgents().map(agent =>
+        this.initialized.has(agent.getInfo().id)
+          ? this.checkAgentHealth(agent)
+          : this.initializeAgent(agent)
+      )
+    );
+
+    return this.getHealth();
+  }
+
+  /**
+   * Check agent health every interval until stopped
+   */
+  public startHealthChecks(intervalMs: number = getHealthCheckInterval()): void {
+    this.stopHealthChecks();
+
+    if (intervalMs <= 0) {
+      return;
+    }
+
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(error => {
+        this.logger.error(`Agent health check failed: ${(error as Error).message}`);
+      });
+    }, intervalMs);
+    this.healthTimer.unref();
+  }
+
+  public stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Stop health checks and shut every initialized agent down; failures are logged
+   */
+  public async shutdownAgents(): Promise<void> {
+    this.stopHealthChecks();
+
+    await Promise.all(
+      this.getAllAgents()
+        .filter(agent => this.initialized.has(agent.getInfo().id))
+        .map(agent => this.shutdownAgent(agent))
+    );
+  }
+
+  /**
+   * Shut one agent down; it is unhealthy afterwards until initialized again
+   */
+  public async shutdownAgent(agent: BaseAgent): Promise<void> {
+    const { id, name } = agent.getInfo();
+
+    try {
+      await withTimeout(agent.shutdown(), getLifecycleTimeout(), 'Shutdown timed out');
+      this.logger.info(`Shut down agent: ${name} (${id})`);
+    } catch (error) {
+      this.logger.error(`Failed to shut down agent ${name}: ${(error as Error).message}`);
+    }
+
+    this.initialized.delete(id);
+    this.setHealth(agent, { healthy: false, message: 'Shut down' });
+  }
+
   /**
    * Get agents by capability
    */
   public getAgentsByCapability(capability: string): BaseAgent[] {
     return this.getAllAgents().filter(agent => 
-      agent.hasCapability(capability)
+      agent.canExecute(capability)
+    );
+  }
+
+  /**
+   * Find the agent to run a task type when no routing rules apply: the highest-priority
+   * healthy capable agent, earliest registered on ties
+   */
+  public findAgentForTask(taskType: string): BaseAgent | undefined {
+    const healthy = this.getAgentsByCapability(taskType).filter(agent =>
+      this.isHealthy(agent.getInfo().id)
+    );
+
+    return healthy.reduce<BaseAgent | undefined>(
+      (best, agent) =>
+        !best || agent.getInfo().priority > best.getInfo().priority ? agent : best,
+      undefined
     );
   }
 
@@ -42,7 +224,7 @@ export class AgentRegistry {
    */
   public findAgentsByCapabilities(capabilities: string[]): BaseAgent[] {
     return this.getAllAgents().filter(agent => 
-      capabilities.every(capability => agent.hasCapability(capability))
+      capabilities.every(capability => agent.canExecute(capability))
     );
   }
 
@@ -67,9 +249,42 @@ export class AgentRegistry {
     const agent = this.getAgent(agentId);
     if (agent) {
       this.agents.delete(agentId);
-      this.logger.info(`Unregistered agent: ${agent.getConfig().name} (${agentId})`);
+      this.health.delete(agentId);
+      this.initialized.delete(agentId);
+      this.logger.info(`Unregistered agent: ${agent.getInfo().name} (${agentId})`);
       return true;
     }
     return false;
   }
+
+  private async checkAgentHealth(agent: BaseAgent): Promise<void> {
+    let health: AgentHealth;
+
+    try {
+      health = await withTimeout(
+        agent.healthCheck(),
+        getHealthCheckTimeout(),
+        'Health check timed out'
+      );
+    } catch (error) {
+      health = { healthy: false, message: (error as Error).message };
+    }
+
+    const wasHealthy = this.isHealthy(agent.getInfo().id);
+    this.setHealth(agent, health);
+
+    if (wasHealthy !== health.healthy) {
+      const { name } = agent.getInfo();
+      if (health.healthy) {
+        this.logger.info(`Agent ${name} is healthy again`);
+      } else {
+        this.logger.warn(`Agent ${name} is unhealthy: ${health.message || 'no reason given'}`);
+      }
+    }
+  }
+
+  private setHealth(agent: BaseAgent, health: AgentHealth): void {
+    const { id, name, version } = agent.getInfo();
+    this.health.set(id, { ...health, id, name, version, checkedAt: new Date().toISOString() });
+  }
 }
@@ -0,0 +1,44 @@
+import { getNextRun, parseCron } from './cron';
+
+describe('parseCron', () => {
+  it('should expand ranges, steps, lists and names', () => {
+    const cron = parseCron('*/15 9-17 * jan,jul mon-fri');
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.months]).toEqual([1, 7]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should accept macros and Sunday as 7', () => {
+    expect(parseCron('@daily').minutes).toEqual(new Set([0]));
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * * * funday', '5-1 * * * *', '*/0 * * * *'])(
+    'should reject %s',
+    expression => {
+      expect(() => parseCron(expression)).toThrow();
+    },
+  );
+});
+
+describe('getNextRun', () => {
+  it('should return the next matching minute strictly after the given time', () => {
+    const after = new Date(2026, 0, 1, 6, 0, 30);
+
+    expect(getNextRun('0 6 * * *', after)).toEqual(new Date(2026, 0, 2, 6, 0));
+    expect(getNextRun('*/20 * * * *', after)).toEqual(new Date(2026, 0, 1, 6, 20));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-01-01 is a Thursday; the 15th comes after the next Monday
+    const after = new Date(2026, 0, 1, 12, 0);
+
+    expect(getNextRun('0 9 15 * mon', after)).toEqual(new Date(2026, 0, 5, 9, 0));
+  });
+
+  it('should find rare dates', () => {
+    expect(getNextRun('0 0 29 2 *', new Date(2026, 0, 1))).toEqual(new Date(2028, 1, 29));
+  });
+});
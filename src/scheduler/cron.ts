@@ -0,0 +1,189 @@
+/**
+ * Minimal five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in the server's local time
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted as an alias for Sunday
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Give up looking for the next run after this long (covers "0 0 29 2 *" and friends)
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a single value of a field, accepting numbers and three-letter names
+ */
+function parseValue(value: string, field: CronField): number {
+  const nameIndex = field.names ? field.names.indexOf(value.toLowerCase()) : -1;
+  const parsed = nameIndex >= 0 ? nameIndex + field.min : Number(value);
+
+  if (!/^\w+$/.test(value) || !Number.isInteger(parsed)) {
+    throw new Error(`Invalid ${field.name} value: ${value}`);
+  }
+
+  if (parsed < field.min || parsed > field.max) {
+    throw new Error(`${field.name} value ${parsed} is out of range ${field.min}-${field.max}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Expand a field such as "*", "1-5", "*\/15" or "mon,wed,fri" into the values it matches
+ */
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (rest.length > 0 || !range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} field: ${text}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means "every 15 starting at 5"
+      end = stepText === undefined ? start : field.max;
+    }
+
+    if (start > end) {
+      throw new Error(`Invalid ${field.name} range: ${range}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing an Error that describes the first problem found
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const parts = (MACROS[source.toLowerCase()] || source).split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index]),
+  );
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+/**
+ * Whether a date falls on a matching day. As in standard cron, when both day fields
+ * are restricted a day matching either of them is enough.
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Get the first time strictly after `after` that matches the expression
+ */
+export function getNextRun(cron: CronExpression | string, after: Date): Date {
+  const expression = typeof cron === 'string' ? parseCron(cron) : cron;
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  while (date.getTime() <= limit) {
+    if (!expression.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(expression, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!expression.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!expression.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${expression.source}`);
+}
+
+export default {
+  parseCron,
+  getNextRun,
+};
@@ -0,0 +1,18 @@
+import { Scheduler, scheduler, ScheduleInput, SchedulerOptions } from './scheduler';
+import { parseCron, getNextRun, CronExpression } from './cron';
+
+/**
+ * Start the scheduler unless it has been disabled for this process
+ */
+export async function initializeScheduler(): Promise<void> {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('Scheduler disabled');
+    return;
+  }
+
+  console.log('Initializing scheduler');
+  await scheduler.start();
+}
+
+export { Scheduler, scheduler, parseCron, getNextRun };
+export type { ScheduleInput, SchedulerOptions, CronExpression };
@@ -0,0 +1,101 @@
+import { MemoryStorage, ScheduleRecord, setStorage } from '../db';
+import { taskExecutor } from '../orchestrator/executor';
+import { Scheduler } from './scheduler';
+
+jest.mock('../orchestrator/executor', () => ({
+  taskExecutor: { submitTask: jest.fn() },
+}));
+
+const submitTask = taskExecutor.submitTask as jest.Mock;
+
+function createSchedule(overrides: Partial<ScheduleRecord>): ScheduleRecord {
+  return {
+    id: 'nightly',
+    brand: 'mysticArcana',
+    source: 'api',
+    cron: '0 * * * *',
+    taskType: 'validateTarotDeck',
+    parameters: { deckId: 'rider-waite' },
+    enabled: true,
+    missedRunPolicy: 'runOnce',
+    nextRunAt: new Date(2026, 0, 1, 6, 0).toISOString(),
+    createdAt: new Date(2026, 0, 1).toISOString(),
+    updatedAt: new Date(2026, 0, 1).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Scheduler', () => {
+  let storage: MemoryStorage;
+  const scheduler = new Scheduler({ missedRunGraceMs: 60000, maxCatchUpRuns: 10 });
+  // Three hourly runs were missed and a fourth is due now
+  const now = new Date(2026, 0, 1, 9, 0, 10);
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    setStorage(storage);
+    submitTask.mockReset();
+    submitTask.mockResolvedValue('execution-1');
+  });
+
+  it('should submit one run for missed occurrences by default', async () => {
+    await storage.schedules.create(createSchedule({}));
+
+    await scheduler.tick(now);
+
+    expect(submitTask).toHaveBeenCalledTimes(1);
+    expect(submitTask).toHaveBeenCalledWith({
+      taskType: 'validateTarotDeck',
+      brand: 'mysticArcana',
+      parameters: { deckId: 'rider-waite' },
+      priority: undefined,
+    });
+
+    const schedule = await storage.schedules.findById('nightly');
+    expect(schedule?.lastRunAt).toBe(new Date(2026, 0, 1, 9, 0).toISOString());
+    expect(schedule?.lastExecutionId).toBe('execution-1');
+    expect(schedule?.nextRunAt).toBe(new Date(2026, 0, 1, 10, 0).toISOString());
+  });
+
+  it('should submit every missed occurrence with runAll', async () => {
+    await storage.schedules.create(createSchedule({ missedRunPolicy: 'runAll' }));
+
+    await scheduler.tick(now);
+
+    expect(submitTask).toHaveBeenCalledTimes(4);
+  });
+
+  it('should only submit the on-time occurrence with skip', async () => {
+    await storage.schedules.create(createSchedule({ missedRunPolicy: 'skip' }));
+
+    await scheduler.tick(now);
+    expect(submitTask).toHaveBeenCalledTimes(1);
+
+    // Nothing is on time an hour later if the scheduler was down
+    submitTask.mockClear();
+    await scheduler.tick(new Date(2026, 0, 1, 10, 30));
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+
+  it('should submit a due run once when several processes check at the same time', async () => {
+    await storage.schedules.create(createSchedule({}));
+
+    await Promise.all([scheduler.tick(now), new Scheduler().tick(now)]);
+
+    expect(submitTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore disabled schedules', async () => {
+    await storage.schedules.create(createSchedule({ enabled: false }));
+
+    await scheduler.tick(now);
+
+    expect(submitTask).not.toHaveBeenCalled();
+  });
+
+  it('should not let the API change brand-sourced schedules', async () => {
+    await storage.schedules.create(createSchedule({ source: 'brand' }));
+
+    await expect(scheduler.deleteSchedule('nightly')).rejects.toThrow('brand configuration');
+  });
+});
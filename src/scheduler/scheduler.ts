@@ -0,0 +1,391 @@
+import { v4 as uuidv4 } from 'uuid';
+import { brandConfig } from '../brands';
+import { BrandConfigError, ScheduleNotFoundError, TaskValidationError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { getStorage, MissedRunPolicy, ScheduleRecord } from '../db';
+import { taskExecutor } from '../orchestrator/executor';
+import { getNextRun, parseCron } from './cron';
+
+const logger = new AgentLogger('Scheduler');
+
+/**
+ * Fields of a schedule that can be set through the API
+ */
+export interface ScheduleInput {
+  brand: string;
+  cron: string;
+  task: string;
+  parameters?: Record<string, any>;
+  priority?: string;
+  enabled?: boolean;
+  missedRunPolicy?: MissedRunPolicy;
+}
+
+export interface SchedulerOptions {
+  /** How often due schedules are checked */
+  intervalMs: number;
+  /** Runs older than this when they are picked up count as missed */
+  missedRunGraceMs: number;
+  /** Upper bound on runs submitted for one schedule by the runAll policy */
+  maxCatchUpRuns: number;
+}
+
+const defaultOptions: SchedulerOptions = {
+  intervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || 30000,
+  missedRunGraceMs: Number(process.env.SCHEDULER_MISSED_RUN_GRACE_MS) || 60000,
+  maxCatchUpRuns: Number(process.env.SCHEDULER_MAX_CATCH_UP_RUNS) || 10,
+};
+
+/**
+ * Submits recurring tasks declared in brand configurations or created through the API
+ */
+export class Scheduler {
+  private options: SchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<void> | null = null;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...defaultOptions, ...options };
+  }
+
+  /**
+   * Load brand schedules and start checking for due runs
+   */
+  public async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    await this.syncBrandSchedules();
+
+    this.timer = setInterval(() => this.tick(), this.options.intervalMs);
+    this.timer.unref();
+
+    logger.info('Scheduler started', { intervalMs: this.options.intervalMs });
+    await this.tick();
+  }
+
+  /**
+   * Stop checking for due runs, waiting for a check in progress to finish
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.ticking;
+  }
+
+  /**
+   * Bring brand-sourced schedules in line with the `schedules` section of each brand
+   */
+  public async syncBrandSchedules(): Promise<void> {
+    const storage = getStorage();
+    const brands = await brandConfig.getAllBrands();
+    const now = new Date();
+
+    for (const brand of brands) {
+      const existing = await storage.schedules.list({ brand: brand.key });
+      const declared = new Set<string>();
+
+      for (const entry of brand.schedules || []) {
+        const id = `${brand.key}.${entry.id}`;
+        const current = existing.find(schedule => schedule.id === id);
+        declared.add(id);
+
+        const definition = {
+          cron: entry.cron,
+          taskType: entry.task,
+          parameters: entry.parameters || {},
+          priority: entry.priority || null,
+          enabled: entry.enabled !== false,
+          missedRunPolicy: entry.missedRunPolicy || 'runOnce',
+        };
+
+        try {
+          if (!current) {
+            await storage.schedules.create({
+              id,
+              brand: brand.key,
+              source: 'brand',
+              ...definition,
+              nextRunAt: this.initialNextRun(definition.cron, definition.enabled, now),
+              createdAt: now.toISOString(),
+              updatedAt: now.toISOString(),
+            });
+          } else {
+            await storage.schedules.update(id, this.withNextRun(current, definition, now));
+          }
+        } catch (error) {
+          logger.error(`Invalid schedule ${id}: ${(error as Error).message}`);
+        }
+      }
+
+      for (const schedule of existing) {
+        if (schedule.source === 'brand' && !declared.has(schedule.id)) {
+          await storage.schedules.delete(schedule.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * List schedules, optionally for a single brand
+   */
+  public async listSchedules(brand?: string): Promise<ScheduleRecord[]> {
+    return getStorage().schedules.list({ brand });
+  }
+
+  /**
+   * Get a schedule by ID
+   */
+  public async getSchedule(id: string): Promise<ScheduleRecord> {
+    const schedule = await getStorage().schedules.findById(id);
+
+    if (!schedule) {
+      throw new ScheduleNotFoundError(id);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Create a schedule owned by the API
+   */
+  public async createSchedule(input: ScheduleInput): Promise<ScheduleRecord> {
+    await brandConfig.getBrandConfig(input.brand);
+    await this.assertTaskExists(input.task);
+
+    const now = new Date();
+    const enabled = input.enabled !== false;
+    const schedule: ScheduleRecord = {
+      id: uuidv4(),
+      brand: input.brand,
+      source: 'api',
+      cron: input.cron,
+      taskType: input.task,
+      parameters: input.parameters || {},
+      priority: input.priority || null,
+      enabled,
+      missedRunPolicy: input.missedRunPolicy || 'runOnce',
+      nextRunAt: this.initialNextRun(input.cron, enabled, now),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await getStorage().schedules.create(schedule);
+    logger.info(`Created schedule ${schedule.id}`, { brand: schedule.brand, cron: schedule.cron });
+
+    return schedule;
+  }
+
+  /**
+   * Update a schedule owned by the API
+   */
+  public async updateSchedule(
+    id: string,
+    changes: Partial<Omit<ScheduleInput, 'brand'>>,
+  ): Promise<ScheduleRecord> {
+    const schedule = await this.getWritableSchedule(id);
+
+    if (changes.task) {
+      await this.assertTaskExists(changes.task);
+    }
+
+    const update = this.withNextRun(
+      schedule,
+      {
+        cron: changes.cron,
+        taskType: changes.task,
+        parameters: changes.parameters,
+        priority: changes.priority,
+        enabled: changes.enabled,
+        missedRunPolicy: changes.missedRunPolicy,
+      },
+      new Date(),
+    );
+
+    await getStorage().schedules.update(id, update);
+    logger.info(`Updated schedule ${id}`);
+
+    return { ...schedule, ...update };
+  }
+
+  /**
+   * Delete a schedule owned by the API
+   */
+  public async deleteSchedule(id: string): Promise<void> {
+    await this.getWritableSchedule(id);
+    await getStorage().schedules.delete(id);
+
+    logger.info(`Deleted schedule ${id}`);
+  }
+
+  /**
+   * Submit every schedule that is due at `now`
+   */
+  public tick(now: Date = new Date()): Promise<void> {
+    if (!this.ticking) {
+      this.ticking = this.runDueSchedules(now)
+        .catch(error => {
+          logger.error(`Error checking schedules: ${(error as Error).message}`);
+        })
+        .then(() => {
+          this.ticking = null;
+        });
+    }
+
+    return this.ticking;
+  }
+
+  private async runDueSchedules(now: Date): Promise<void> {
+    const schedules = await getStorage().schedules.list();
+
+    for (const schedule of schedules) {
+      if (schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now) {
+        await this.runSchedule(schedule, now);
+      }
+    }
+  }
+
+  /**
+   * Work out which due occurrences to run under the schedule's missed-run policy,
+   * move the schedule on to its next occurrence and submit the runs
+   */
+  private async runSchedule(schedule: ScheduleRecord, now: Date): Promise<void> {
+    const cron = parseCron(schedule.cron);
+    const due: Date[] = [];
+    let next = new Date(schedule.nextRunAt as string);
+
+    // Keep only the most recent occurrences if the scheduler was down for a long time
+    while (next <= now) {
+      due.push(next);
+      if (due.length > this.options.maxCatchUpRuns) {
+        due.shift();
+      }
+      next = getNextRun(cron, next);
+    }
+
+    const onTime = due.filter(
+      time => now.getTime() - time.getTime() <= this.options.missedRunGraceMs,
+    );
+    let runs: Date[];
+
+    switch (schedule.missedRunPolicy) {
+      case 'runAll':
+        runs = due;
+        break;
+      case 'skip':
+        runs = onTime.slice(-1);
+        break;
+      default:
+        runs = due.slice(-1);
+    }
+
+    // Move on before submitting so a slow submission cannot fire the same occurrence twice.
+    // Every process running the scheduler gets here; only the first to move it on submits.
+    const claimed = await getStorage().schedules.claim(schedule.id, schedule.nextRunAt as string, {
+      nextRunAt: next.toISOString(),
+    });
+
+    if (!claimed) {
+      return;
+    }
+
+    if (runs.length < due.length) {
+      logger.warn(`Skipping ${due.length - runs.length} missed run(s) of schedule ${schedule.id}`, {
+        policy: schedule.missedRunPolicy,
+      });
+    }
+
+    for (const runAt of runs) {
+      try {
+        const executionId = await taskExecutor.submitTask({
+          taskType: schedule.taskType,
+          brand: schedule.brand,
+          parameters: schedule.parameters,
+          priority: schedule.priority || undefined,
+        });
+
+        await getStorage().schedules.update(schedule.id, {
+          lastRunAt: runAt.toISOString(),
+          lastExecutionId: executionId,
+        });
+
+        logger.info(`Submitted scheduled ${schedule.taskType}`, {
+          scheduleId: schedule.id,
+          executionId,
+          scheduledFor: runAt.toISOString(),
+        });
+      } catch (error) {
+        logger.error(`Failed to submit schedule ${schedule.id}: ${(error as Error).message}`, {
+          scheduledFor: runAt.toISOString(),
+        });
+      }
+    }
+  }
+
+  /**
+   * Apply changes to a schedule, recomputing the next run when the timing changes.
+   * Re-enabled schedules start from now rather than catching up on the disabled period.
+   */
+  private withNextRun(
+    schedule: ScheduleRecord,
+    changes: Partial<ScheduleRecord>,
+    now: Date,
+  ): Partial<ScheduleRecord> {
+    const update: Partial<ScheduleRecord> = { updatedAt: now.toISOString() };
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (value !== undefined) {
+        (update as Record<string, any>)[field] = value;
+      }
+    }
+
+    const cron = update.cron ?? schedule.cron;
+    const enabled = update.enabled ?? schedule.enabled;
+
+    if (cron !== schedule.cron || enabled !== schedule.enabled || !schedule.nextRunAt) {
+      update.nextRunAt = this.initialNextRun(cron, enabled, now);
+    }
+
+    return update;
+  }
+
+  private initialNextRun(cron: string, enabled: boolean, now: Date): string | null {
+    return enabled ? getNextRun(cron, now).toISOString() : null;
+  }
+
+  /**
+   * Brand-sourced schedules are managed through the brand configuration
+   */
+  private async getWritableSchedule(id: string): Promise<ScheduleRecord> {
+    const schedule = await this.getSchedule(id);
+
+    if (schedule.source === 'brand') {
+      throw new BrandConfigError(
+        `Schedule ${id} is defined by brand ${schedule.brand}; ` +
+          'update the brand configuration instead',
+      );
+    }
+
+    return schedule;
+  }
+
+  private async assertTaskExists(taskType: string): Promise<void> {
+    if (!(await getStorage().tasks.findByType(taskType))) {
+      throw new TaskValidationError('Invalid schedule', [
+        { message: `Unknown task type: ${taskType}` },
+      ]);
+    }
+  }
+}
+
+// Export singleton instance
+export const scheduler = new Scheduler();
+
+export default {
+  Scheduler,
+  scheduler,
+};
@@ -0,0 +1,42 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fingerprintFiles, hashValue } from './fingerprint';
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fingerprint-'));
+  await fs.mkdir(path.join(tempDir, 'major-arcana'));
+  await fs.writeFile(path.join(tempDir, 'major-arcana', 'the-fool.jpg'), 'card');
+});
+
+afterEach(async () => {
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+describe('fingerprints', () => {
+  it('should hash objects the same regardless of key order', () => {
+    expect(hashValue({ deckId: 'thoth', options: { a: 1, b: 2 } })).toBe(
+      hashValue({ options: { b: 2, a: 1 }, deckId: 'thoth' }),
+    );
+    expect(hashValue({ deckId: 'thoth' })).not.toBe(hashValue({ deckId: 'marseille' }));
+  });
+
+  it('should change when a file inside the directory changes', async () => {
+    const fingerprint = () => fingerprintFiles({ deckId: 'thoth' }, [tempDir], { recursive: true });
+    const before = await fingerprint();
+
+    expect(await fingerprint()).toBe(before);
+
+    await fs.writeFile(path.join(tempDir, 'major-arcana', 'the-fool.jpg'), 'new card art');
+    expect(await fingerprint()).not.toBe(before);
+  });
+
+  it('should only look into subdirectories when recursive', async () => {
+    const before = await fingerprintFiles({}, [tempDir]);
+    await fs.writeFile(path.join(tempDir, 'major-arcana', 'the-magician.jpg'), 'card');
+
+    expect(await fingerprintFiles({}, [tempDir])).toBe(before);
+  });
+});
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Size and modification time of a file, or missing if it does not exist
+ */
+export interface FileStamp {
+  path: string;
+  size?: number;
+  mtimeMs?: number;
+  missing?: boolean;
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 hex digest of any JSON-serializable value
+ */
+export function hashValue(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+/**
+ * Stamp the given files and directories. Directories are walked, recursively if asked,
+ * so adding, removing or touching any file inside changes the result.
+ */
+export async function stampFiles(
+  paths: string[],
+  options: { recursive?: boolean } = {},
+): Promise<FileStamp[]> {
+  const stamps: FileStamp[] = [];
+
+  const visit = async (target: string, depth: number): Promise<void> => {
+    let stats;
+    try {
+      stats = await fs.stat(target);
+    } catch {
+      stamps.push({ path: target, missing: true });
+      return;
+    }
+
+    if (!stats.isDirectory()) {
+      stamps.push({ path: target, size: stats.size, mtimeMs: stats.mtimeMs });
+      return;
+    }
+
+    // Top-level directories are always listed; nested ones only when recursive
+    if (depth > 0 && !options.recursive) {
+      return;
+    }
+
+    const entries = (await fs.readdir(target)).sort();
+    for (const entry of entries) {
+      await visit(path.join(target, entry), depth + 1);
+    }
+  };
+
+  for (const target of paths) {
+    await visit(path.resolve(target), 0);
+  }
+
+  return stamps;
+}
+
+/**
+ * Fingerprint of task parameters and the current state of the files they refer to
+ */
+export async function fingerprintFiles(
+  parameters: Record<string, any>,
+  paths: string[],
+  options: { recursive?: boolean } = {},
+): Promise<string> {
+  return hashValue({ parameters, files: await stampFiles(paths, options) });
+}
+
+export default {
+  hashValue,
+  stampFiles,
+  fingerprintFiles,
+};
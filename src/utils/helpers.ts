@@ -95,6 +95,34 @@ export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Resolve or reject like the promise, or reject with the message if it takes longer than ms
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  message: string
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * HTTP statuses worth retrying; other 4xx responses mean the receiver rejected the request
+ */
+export function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
 /**
  * Generate a random string of specified length
  */
@@ -155,6 +183,8 @@ export default {
   getObjectValue,
   formatDate,
   sleep,
+  withTimeout,
+  isRetryableStatus,
   randomString,
   snakeToCamel,
   transformObjectKeys,
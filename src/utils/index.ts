@@ -16,10 +16,13 @@ import {
   getObjectValue,
   formatDate,
   sleep,
+  withTimeout,
+  isRetryableStatus,
   randomString,
   snakeToCamel,
   transformObjectKeys,
 } from './helpers';
+import { hashValue, stampFiles, fingerprintFiles } from './fingerprint';
 
 export {
   // Validation utilities
@@ -43,7 +46,14 @@ export {
   getObjectValue,
   formatDate,
   sleep,
+  withTimeout,
+  isRetryableStatus,
   randomString,
   snakeToCamel,
   transformObjectKeys,
+
+  // Fingerprint utilities
+  hashValue,
+  stampFiles,
+  fingerprintFiles,
 };
\ No newline at end of file
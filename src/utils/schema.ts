@@ -0,0 +1,148 @@
+import Joi from 'joi';
+
+type JsonSchema = Record<string, any>;
+
+const typeNames: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  boolean: 'boolean',
+  object: 'object',
+  array: 'array',
+  date: 'string',
+};
+
+/**
+ * Map Joi rules with a limit onto the matching JSON Schema keywords for the type
+ */
+const limitKeywords: Record<string, Record<string, string[]>> = {
+  string: { min: ['minLength'], max: ['maxLength'], length: ['minLength', 'maxLength'] },
+  array: { min: ['minItems'], max: ['maxItems'], length: ['minItems', 'maxItems'] },
+  object: {
+    min: ['minProperties'],
+    max: ['maxProperties'],
+    length: ['minProperties', 'maxProperties'],
+  },
+  number: {
+    min: ['minimum'],
+    max: ['maximum'],
+    greater: ['exclusiveMinimum'],
+    less: ['exclusiveMaximum'],
+  },
+};
+
+const stringFormats: Record<string, string> = {
+  uri: 'uri',
+  email: 'email',
+  guid: 'uuid',
+  isoDate: 'date-time',
+};
+
+/**
+ * Convert a Joi description (schema.describe()) into JSON Schema
+ */
+function fromDescription(description: any): JsonSchema {
+  const flags = description.flags || {};
+
+  if (description.type === 'alternatives') {
+    return withFlags(
+      { anyOf: (description.matches || []).map((match: any) => fromDescription(match.schema)) },
+      flags,
+    );
+  }
+
+  const schema: JsonSchema = {};
+
+  if (typeNames[description.type]) {
+    schema.type = typeNames[description.type];
+  }
+
+  if (description.type === 'date') {
+    schema.format = 'date-time';
+  }
+
+  for (const rule of description.rules || []) {
+    const keywords = limitKeywords[description.type]?.[rule.name];
+
+    if (keywords && typeof rule.args?.limit === 'number') {
+      keywords.forEach(keyword => (schema[keyword] = rule.args.limit));
+    } else if (rule.name === 'integer') {
+      schema.type = 'integer';
+    } else if (rule.name === 'pattern' && typeof rule.args?.regex === 'string') {
+      schema.pattern = rule.args.regex.replace(/^\/(.*)\/[a-z]*$/, '$1');
+    } else if (stringFormats[rule.name]) {
+      schema.format = stringFormats[rule.name];
+    }
+  }
+
+  if (flags.only && description.allow) {
+    schema.enum = description.allow;
+  }
+
+  if (description.type === 'object' && description.keys) {
+    const keys: Record<string, any> = description.keys;
+    const required = Object.keys(keys).filter(key => keys[key].flags?.presence === 'required');
+
+    schema.properties = Object.fromEntries(
+      Object.entries(keys).map(([key, value]) => [key, fromDescription(value)]),
+    );
+
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    if (!flags.unknown) {
+      schema.additionalProperties = false;
+    }
+  }
+
+  if (description.type === 'object') {
+    // object.pattern(): any key, with values matching the rule
+    if (description.patterns?.[0]?.rule) {
+      schema.additionalProperties = fromDescription(description.patterns[0].rule);
+    }
+
+    // object.or() / object.xor(): at least / exactly one of the peers
+    for (const dependency of description.dependencies || []) {
+      const alternatives = dependency.peers.map((peer: string) => ({ required: [peer] }));
+
+      if (dependency.rel === 'or') {
+        schema.anyOf = alternatives;
+      } else if (dependency.rel === 'xor') {
+        schema.oneOf = alternatives;
+      }
+    }
+  }
+
+  if (description.type === 'array' && description.items?.length > 0) {
+    schema.items =
+      description.items.length === 1
+        ? fromDescription(description.items[0])
+        : { anyOf: description.items.map(fromDescription) };
+  }
+
+  return withFlags(schema, flags);
+}
+
+function withFlags(schema: JsonSchema, flags: Record<string, any>): JsonSchema {
+  if (flags.description) {
+    schema.description = flags.description;
+  }
+
+  if (flags.default !== undefined && typeof flags.default !== 'function') {
+    schema.default = flags.default;
+  }
+
+  return schema;
+}
+
+/**
+ * Describe a Joi schema as JSON Schema, for clients that build forms or validate up front.
+ * Covers the types, rules and flags used in this codebase; anything else is left open.
+ */
+export function toJsonSchema(schema: Joi.Schema): JsonSchema {
+  return fromDescription(schema.describe());
+}
+
+export default {
+  toJsonSchema,
+};
@@ -24,47 +24,27 @@ export function validateSchema(data: any, schema: Joi.Schema): any {
 }
 
 /**
- * Validate task execution parameters against JSON schema
+ * Validate task parameters against the schema the agent declares for the task,
+ * returning them with defaults applied. Details name the offending field.
  */
-export function validateTaskParameters(parameters: any, schema: any): boolean {
-  if (!schema || !parameters) {
-    return true;
-  }
-  
-  // In a real implementation, use a full JSON Schema validator
-  // For now, just do basic validation
-  
-  // Check required properties
-  if (schema.required && Array.isArray(schema.required)) {
-    for (const required of schema.required) {
-      if (parameters[required] === undefined) {
-        throw new TaskValidationError(`Missing required parameter: ${required}`);
-      }
-    }
-  }
-  
-  // Check property types
-  if (schema.properties) {
-    for (const [key, propSchema] of Object.entries(schema.properties)) {
-      if (parameters[key] !== undefined) {
-        const propType = (propSchema as any).type;
-        
-        if (propType === 'string' && typeof parameters[key] !== 'string') {
-          throw new TaskValidationError(`Parameter ${key} must be a string`);
-        } else if (propType === 'number' && typeof parameters[key] !== 'number') {
-          throw new TaskValidationError(`Parameter ${key} must be a number`);
-        } else if (propType === 'boolean' && typeof parameters[key] !== 'boolean') {
-          throw new TaskValidationError(`Parameter ${key} must be a boolean`);
-        } else if (propType === 'array' && !Array.isArray(parameters[key])) {
-          throw new TaskValidationError(`Parameter ${key} must be an array`);
-        } else if (propType === 'object' && (typeof parameters[key] !== 'object' || parameters[key] === null)) {
-          throw new TaskValidationError(`Parameter ${key} must be an object`);
-        }
-      }
-    }
+export function validateTaskParameters(parameters: any, schema: Joi.ObjectSchema): any {
+  const { error, value } = schema.validate(parameters, {
+    abortEarly: false,
+    stripUnknown: true
+  });
+
+  if (error) {
+    const details = error.details.map(detail => ({
+      field: ['parameters', ...detail.path].join('.'),
+      message: detail.message,
+      path: ['parameters', ...detail.path],
+      type: detail.type
+    }));
+
+    throw new TaskValidationError('Invalid task parameters', details);
   }
-  
-  return true;
+
+  return value;
 }
 
 export default {
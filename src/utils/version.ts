@@ -0,0 +1,79 @@
+/**
+ * Compare two x.y.z versions; missing parts count as 0 and pre-release tags are ignored
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) =>
+    version
+      .split('-')[0]
+      .split('.')
+      .map(part => Number(part) || 0);
+
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+
+  return 0;
+}
+
+const COMPARATOR = /^(>=|<=|>|<|=|\^|~)?v?(\d+(?:\.\d+){0,2})$/;
+
+/**
+ * Whether a range is made of comparators this module understands
+ */
+export function isValidVersionRange(range: string): boolean {
+  const comparators = range.trim().split(/\s+/);
+  return comparators.length > 0 && comparators.every(comparator => COMPARATOR.test(comparator));
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  const match = COMPARATOR.exec(comparator);
+  if (!match) {
+    throw new Error(`Invalid version range: ${comparator}`);
+  }
+
+  const [, operator = '=', target] = match;
+  const order = compareVersions(version, target);
+  const [major, minor = 0] = target.split('.').map(Number);
+
+  switch (operator) {
+    case '>=':
+      return order >= 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '<':
+      return order < 0;
+    case '^':
+      // Same major version, at least the target
+      return order >= 0 && compareVersions(version, `${major + 1}.0.0`) < 0;
+    case '~':
+      // Same major and minor version, at least the target
+      return order >= 0 && compareVersions(version, `${major}.${minor + 1}.0`) < 0;
+    default:
+      return order === 0;
+  }
+}
+
+/**
+ * Check a version against a range of space-separated comparators that must all hold,
+ * e.g. ">=1.2.0 <2.0.0", "^1.2.0", "~1.4" or "1.0.0"
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+  return range
+    .trim()
+    .split(/\s+/)
+    .every(comparator => satisfiesComparator(version, comparator));
+}
+
+export default {
+  compareVersions,
+  isValidVersionRange,
+  satisfiesVersion,
+};
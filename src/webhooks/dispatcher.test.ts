@@ -0,0 +1,163 @@
+import { MemoryStorage, setStorage, WebhookDeliveryRecord } from '../db';
+import { WebhookDeliveryNotFoundError } from '../core/errors';
+import { WebhookDispatcher, webhookDispatcher } from './dispatcher';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from './signing';
+
+const fetchMock = jest.fn();
+
+let storage: MemoryStorage;
+
+/**
+ * Wait until a delivery is no longer pending
+ */
+async function settled(id: string): Promise<WebhookDeliveryRecord> {
+  for (let i = 0; i < 100; i++) {
+    const delivery = await storage.webhookDeliveries.findById(id);
+    if (delivery && delivery.status !== 'pending') {
+      return delivery;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  throw new Error(`Delivery ${id} is still pending`);
+}
+
+beforeAll(() => {
+  process.env.WEBHOOK_SECRET = 'test-secret-0123456789';
+  process.env.WEBHOOK_BACKOFF_MS = '1';
+  process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+  global.fetch = fetchMock as any;
+});
+
+afterAll(() => {
+  delete process.env.WEBHOOK_SECRET;
+  delete process.env.WEBHOOK_BACKOFF_MS;
+  delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  webhookDispatcher.stop();
+});
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+  fetchMock.mockReset();
+});
+
+describe('WebhookDispatcher', () => {
+  it('should sign and deliver the payload', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+
+    const { id } = await webhookDispatcher.deliver({
+      executionId: 'execution-1',
+      url: 'https://example.com/hook',
+      payload: { executionId: 'execution-1', status: 'completed' },
+    });
+    const delivery = await settled(id);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toEqual([expect.objectContaining({ attempt: 1, statusCode: 200 })]);
+
+    const [url, request] = fetchMock.mock.calls[0];
+    const timestamp = Number(request.headers[TIMESTAMP_HEADER]);
+
+    expect(url).toBe('https://example.com/hook');
+    expect(
+      verifySignature(
+        'test-secret-0123456789',
+        request.headers[SIGNATURE_HEADER],
+        timestamp,
+        request.body,
+      ),
+    ).toBe(true);
+  });
+
+  it('should retry failed attempts with backoff', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' })
+      .mockResolvedValueOnce({ ok: true, status: 204, statusText: 'No Content' });
+
+    const { id } = await webhookDispatcher.deliver({
+      executionId: 'execution-1',
+      url: 'https://example.com/hook',
+      payload: { executionId: 'execution-1' },
+    });
+    const delivery = await settled(id);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toEqual([
+      expect.objectContaining({ attempt: 1, error: 'connect ECONNREFUSED' }),
+      expect.objectContaining({ attempt: 2, statusCode: 503 }),
+      expect.objectContaining({ attempt: 3, statusCode: 204 }),
+    ]);
+  });
+
+  it('should give up on responses that are not worth retrying', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' });
+
+    const { id } = await webhookDispatcher.deliver({
+      executionId: 'execution-1',
+      url: 'https://example.com/hook',
+      payload: { executionId: 'execution-1' },
+    });
+    const delivery = await settled(id);
+
+    expect(delivery.status).toBe('failed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should redeliver the latest delivery as a new delivery', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 500, statusText: 'Internal Server Error' });
+
+    const original = await webhookDispatcher.deliver({
+      executionId: 'execution-1',
+      url: 'https://example.com/hook',
+      payload: { executionId: 'execution-1' },
+    });
+    expect((await settled(original.id)).attempts).toHaveLength(3);
+
+    fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    const redelivery = await webhookDispatcher.redeliver('execution-1');
+
+    expect(redelivery.redeliveryOf).toBe(original.id);
+    expect((await settled(redelivery.id)).status).toBe('delivered');
+    expect(await webhookDispatcher.listDeliveries('execution-1')).toHaveLength(2);
+  });
+
+  it('should reject redelivery when nothing was delivered', async () => {
+    await expect(webhookDispatcher.redeliver('execution-2')).rejects.toBeInstanceOf(
+      WebhookDeliveryNotFoundError,
+    );
+  });
+
+  it('should send a delivery resumed by several processes once', async () => {
+    // Slow enough that the second process checks the delivery while the first is sending
+    fetchMock.mockImplementation(
+      () =>
+        new Promise(resolve =>
+          setTimeout(() => resolve({ ok: true, status: 200, statusText: 'OK' }), 20),
+        ),
+    );
+    const now = new Date().toISOString();
+
+    await storage.webhookDeliveries.create({
+      id: 'delivery-1',
+      executionId: 'execution-1',
+      brand: null,
+      url: 'https://example.com/hook',
+      payload: { executionId: 'execution-1', status: 'completed' },
+      status: 'pending',
+      attempts: [],
+      maxAttempts: 3,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const other = new WebhookDispatcher();
+    await Promise.all([webhookDispatcher.resumePending(), other.resumePending()]);
+
+    expect((await settled('delivery-1')).attempts).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    other.stop();
+  });
+});
@@ -0,0 +1,305 @@
+import { v4 as uuidv4 } from 'uuid';
+import { brandConfig } from '../brands';
+import { WebhookDeliveryNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { getStorage, WebhookDeliveryAttempt, WebhookDeliveryRecord } from '../db';
+import { isRetryableStatus } from '../utils/helpers';
+import { SIGNATURE_HEADER, signPayload, TIMESTAMP_HEADER } from './signing';
+
+const logger = new AgentLogger('WebhookDispatcher');
+
+// Attempts due this soon count as due, since timers may fire slightly early
+const CLAIM_TOLERANCE_MS = 1000;
+
+// How long past its request timeout a claimed attempt stays with the claiming process
+const CLAIM_LEASE_MS = 5000;
+
+/**
+ * Delivery settings, from the brand's `webhooks` section with environment defaults
+ */
+export interface WebhookSettings {
+  /** HMAC secret; deliveries are unsigned without one */
+  secret?: string;
+  maxAttempts: number;
+  /** Delay before the first retry, doubled for each retry after that */
+  backoffMs: number;
+  /** Per-request timeout */
+  timeoutMs: number;
+}
+
+/**
+ * Settings used for tasks without a brand and for anything a brand leaves out
+ */
+export function getDefaultWebhookSettings(): WebhookSettings {
+  return {
+    secret: process.env.WEBHOOK_SECRET || undefined,
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5,
+    backoffMs: Number(process.env.WEBHOOK_BACKOFF_MS) || 2000,
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000,
+  };
+}
+
+/**
+ * Delivers execution callbacks as signed POST requests, retrying with exponential backoff
+ * and recording every attempt. Retries are timers in this process; pending deliveries are
+ * picked up again by resumePending after a restart. Each attempt is claimed in storage
+ * first, so processes that resumed the same delivery do not send it twice.
+ */
+export class WebhookDispatcher {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Record a delivery and make the first attempt in the background
+   */
+  public async deliver(params: {
+    executionId: string;
+    brand?: string | null;
+    url: string;
+    payload: Record<string, any>;
+    redeliveryOf?: string;
+  }): Promise<WebhookDeliveryRecord> {
+    const settings = await this.getSettings(params.brand);
+    const now = new Date().toISOString();
+
+    const delivery: WebhookDeliveryRecord = {
+      id: uuidv4(),
+      executionId: params.executionId,
+      brand: params.brand || null,
+      url: params.url,
+      payload: params.payload,
+      status: 'pending',
+      attempts: [],
+      maxAttempts: settings.maxAttempts,
+      nextAttemptAt: now,
+      redeliveryOf: params.redeliveryOf || null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await getStorage().webhookDeliveries.create(delivery);
+    this.schedule(delivery.id, 0);
+
+    return delivery;
+  }
+
+  /**
+   * List the deliveries made for an execution, oldest first
+   */
+  public async listDeliveries(executionId: string): Promise<WebhookDeliveryRecord[]> {
+    return getStorage().webhookDeliveries.list({ executionId });
+  }
+
+  /**
+   * Send a delivery again as a new delivery with its own attempts.
+   * Repeats the latest delivery for the execution unless a delivery ID is given.
+   */
+  public async redeliver(executionId: string, deliveryId?: string): Promise<WebhookDeliveryRecord> {
+    const deliveries = await this.listDeliveries(executionId);
+    const original = deliveryId
+      ? deliveries.find(delivery => delivery.id === deliveryId)
+      : deliveries[deliveries.length - 1];
+
+    if (!original) {
+      throw new WebhookDeliveryNotFoundError(
+        deliveryId
+          ? `Webhook delivery ${deliveryId} not found for execution ${executionId}`
+          : `No webhook deliveries for execution ${executionId}`,
+      );
+    }
+
+    logger.info(`Redelivering webhook ${original.id}`, { executionId });
+
+    return this.deliver({
+      executionId,
+      brand: original.brand,
+      url: original.url,
+      payload: original.payload,
+      redeliveryOf: original.id,
+    });
+  }
+
+  /**
+   * Schedule pending deliveries left over from a previous process
+   */
+  public async resumePending(): Promise<number> {
+    const pending = await getStorage().webhookDeliveries.list({ status: 'pending' });
+
+    for (const delivery of pending) {
+      const dueAt = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : 0;
+      this.schedule(delivery.id, Math.max(0, dueAt - Date.now()));
+    }
+
+    if (pending.length > 0) {
+      logger.info(`Resumed ${pending.length} pending webhook deliveries`);
+    }
+
+    return pending.length;
+  }
+
+  /**
+   * Cancel scheduled attempts; they stay pending in storage
+   */
+  public stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+
+    this.timers.clear();
+  }
+
+  private schedule(id: string, delayMs: number): void {
+    const existing = this.timers.get(id);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      this.attempt(id).catch(error => {
+        logger.error(`Error delivering webhook ${id}: ${(error as Error).message}`);
+      });
+    }, delayMs);
+
+    timer.unref();
+    this.timers.set(id, timer);
+  }
+
+  /**
+   * Make one attempt and decide whether the delivery is done, failed or retried
+   */
+  private async attempt(id: string): Promise<void> {
+    const storage = getStorage();
+    const delivery = await storage.webhookDeliveries.findById(id);
+
+    if (!delivery || delivery.status !== 'pending') {
+      return;
+    }
+
+    const settings = await this.getSettings(delivery.brand);
+
+    // Every process that resumed the delivery gets here. The first to claim it pushes
+    // nextAttemptAt past the attempt, so the others find it not due and leave it.
+    const dueAt = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : 0;
+    if (dueAt - Date.now() > CLAIM_TOLERANCE_MS) {
+      return;
+    }
+
+    const claimedAt = Math.max(Date.now(), new Date(delivery.updatedAt).getTime() + 1);
+    const claimed = await storage.webhookDeliveries.claim(id, delivery.updatedAt, {
+      updatedAt: new Date(claimedAt).toISOString(),
+      nextAttemptAt: new Date(claimedAt + settings.timeoutMs + CLAIM_LEASE_MS).toISOString(),
+    });
+
+    if (!claimed) {
+      return;
+    }
+
+    const attemptNumber = delivery.attempts.length + 1;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Id': delivery.id,
+      'X-Webhook-Attempt': String(attemptNumber),
+      [TIMESTAMP_HEADER]: String(timestamp),
+    };
+
+    if (settings.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(settings.secret, timestamp, body);
+    }
+
+    const entry: WebhookDeliveryAttempt = {
+      attempt: attemptNumber,
+      attemptedAt: new Date(startTime).toISOString(),
+      durationMs: 0,
+    };
+    let retryable = true;
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(settings.timeoutMs),
+      });
+
+      entry.statusCode = response.status;
+
+      if (!response.ok) {
+        entry.error = `HTTP ${response.status} ${response.statusText}`.trim();
+        retryable = isRetryableStatus(response.status);
+      }
+    } catch (error) {
+      entry.error = (error as Error).message;
+    }
+
+    entry.durationMs = Date.now() - startTime;
+
+    const now = new Date().toISOString();
+    const changes: Partial<WebhookDeliveryRecord> = {
+      attempts: [...delivery.attempts, entry],
+      updatedAt: now,
+    };
+
+    if (!entry.error) {
+      Object.assign(changes, { status: 'delivered', deliveredAt: now, nextAttemptAt: null });
+      logger.info(`Delivered webhook to ${delivery.url}`, {
+        executionId: delivery.executionId,
+        attempt: attemptNumber,
+      });
+    } else if (!retryable || attemptNumber >= delivery.maxAttempts) {
+      Object.assign(changes, { status: 'failed', nextAttemptAt: null });
+      logger.error(`Giving up on webhook to ${delivery.url}: ${entry.error}`, {
+        executionId: delivery.executionId,
+        attempt: attemptNumber,
+      });
+    } else {
+      const delayMs = settings.backoffMs * 2 ** (attemptNumber - 1);
+      changes.nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      logger.warn(`Webhook to ${delivery.url} failed, retrying in ${delayMs}ms: ${entry.error}`, {
+        executionId: delivery.executionId,
+        attempt: attemptNumber,
+      });
+    }
+
+    await storage.webhookDeliveries.update(id, changes);
+
+    if (changes.nextAttemptAt) {
+      this.schedule(id, new Date(changes.nextAttemptAt).getTime() - Date.now());
+    }
+  }
+
+  private async getSettings(brand?: string | null): Promise<WebhookSettings> {
+    const defaults = getDefaultWebhookSettings();
+
+    if (!brand) {
+      return defaults;
+    }
+
+    try {
+      const config = await brandConfig.getBrandConfig(brand);
+      const overrides: Partial<WebhookSettings> = config.webhooks || {};
+
+      return {
+        secret: overrides.secret || defaults.secret,
+        maxAttempts: overrides.maxAttempts ?? defaults.maxAttempts,
+        backoffMs: overrides.backoffMs ?? defaults.backoffMs,
+        timeoutMs: overrides.timeoutMs ?? defaults.timeoutMs,
+      };
+    } catch (error) {
+      logger.warn(`Using default webhook settings for ${brand}: ${(error as Error).message}`);
+      return defaults;
+    }
+  }
+}
+
+// Export singleton instance
+export const webhookDispatcher = new WebhookDispatcher();
+
+export default {
+  WebhookDispatcher,
+  webhookDispatcher,
+  getDefaultWebhookSettings,
+};
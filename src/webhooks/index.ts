@@ -0,0 +1,26 @@
+import {
+  WebhookDispatcher,
+  webhookDispatcher,
+  getDefaultWebhookSettings,
+  WebhookSettings,
+} from './dispatcher';
+import { signPayload, verifySignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signing';
+
+/**
+ * Pick up webhook deliveries that were still being retried when the process stopped
+ */
+export async function initializeWebhooks(): Promise<void> {
+  const resumed = await webhookDispatcher.resumePending();
+  console.log(`Webhook dispatcher ready (${resumed} pending deliveries resumed)`);
+}
+
+export {
+  WebhookDispatcher,
+  webhookDispatcher,
+  getDefaultWebhookSettings,
+  signPayload,
+  verifySignature,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+};
+export type { WebhookSettings };
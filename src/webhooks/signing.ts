@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+/**
+ * Sign a webhook body. The timestamp (unix seconds) is part of the signed content so
+ * receivers can reject replays of old deliveries.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Check a signature produced by signPayload, for use by webhook receivers and tests
+ */
+export function verifySignature(
+  secret: string,
+  signature: string,
+  timestamp: number,
+  body: string,
+  toleranceSeconds = 300,
+): boolean {
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export default {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signPayload,
+  verifySignature,
+};
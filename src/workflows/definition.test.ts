@@ -0,0 +1,127 @@
+import { WorkflowStepState } from '../db';
+import { decideStep, parseWorkflowDefinition, resolveParameters } from './definition';
+
+const deckImport = {
+  name: 'deck-import',
+  brand: 'mysticArcana',
+  steps: [
+    {
+      id: 'duplicates',
+      task: 'findDuplicateFiles',
+      parameters: { directories: ['{{input.deckPath}}'], compareContent: true },
+    },
+    {
+      id: 'directory',
+      task: 'validateDirectory',
+      dependsOn: ['duplicates'],
+      parameters: { directoryPath: '{{input.deckPath}}', recursive: true },
+    },
+    {
+      id: 'deck',
+      task: 'validateTarotDeck',
+      when: { step: 'directory', valid: true },
+      parameters: { deckId: '{{input.deckId}}', basePath: '{{input.basePath}}' },
+    },
+  ],
+};
+
+describe('parseWorkflowDefinition', () => {
+  it('should treat condition steps as dependencies', () => {
+    const workflow = parseWorkflowDefinition(deckImport);
+    const deck = workflow.steps.find(step => step.id === 'deck');
+
+    expect(deck?.dependsOn).toEqual(['directory']);
+    expect(deck?.when).toEqual([{ step: 'directory', valid: true }]);
+  });
+
+  it('should reject unknown dependencies', () => {
+    expect(() =>
+      parseWorkflowDefinition({
+        name: 'broken',
+        steps: [{ id: 'a', task: 'validateFile', dependsOn: ['missing'] }],
+      }),
+    ).toThrow('Invalid workflow definition');
+  });
+
+  it('should reject dependency cycles', () => {
+    try {
+      parseWorkflowDefinition({
+        name: 'cyclic',
+        steps: [
+          { id: 'a', task: 'validateFile', dependsOn: ['b'] },
+          { id: 'b', task: 'validateFile', dependsOn: ['a'] },
+        ],
+      });
+      fail('Expected a validation error');
+    } catch (error: any) {
+      expect(error.details[0].message).toContain('a -> b -> a');
+    }
+  });
+});
+
+describe('resolveParameters', () => {
+  const steps: Record<string, WorkflowStepState> = {
+    duplicates: { status: 'completed', output: { totalDuplicatesFound: 2, duplicateGroups: [] } },
+  };
+
+  it('should keep the type of single references', () => {
+    const resolved = resolveParameters(
+      { count: '{{steps.duplicates.output.totalDuplicatesFound}}', dirs: ['{{input.path}}'] },
+      { path: '/decks/rider-waite' },
+      steps,
+    );
+
+    expect(resolved).toEqual({ count: 2, dirs: ['/decks/rider-waite'] });
+  });
+
+  it('should interpolate references inside strings', () => {
+    const resolved = resolveParameters(
+      { label: 'Found {{steps.duplicates.output.totalDuplicatesFound}} in {{input.path}}' },
+      { path: '/decks' },
+      steps,
+    );
+
+    expect(resolved.label).toBe('Found 2 in /decks');
+  });
+});
+
+describe('decideStep', () => {
+  const workflow = parseWorkflowDefinition(deckImport);
+  const deck = workflow.steps[2];
+
+  it('should wait while dependencies are running', () => {
+    expect(decideStep(deck, { directory: { status: 'running' } })).toEqual({ action: 'wait' });
+  });
+
+  it('should run when the condition holds', () => {
+    const decision = decideStep(deck, {
+      directory: { status: 'completed', output: { valid: true, errors: [] } },
+    });
+
+    expect(decision).toEqual({ action: 'run' });
+  });
+
+  it('should skip when the condition does not hold', () => {
+    const decision = decideStep(deck, {
+      directory: { status: 'completed', output: { valid: false, errors: ['bad file'] } },
+    });
+
+    expect(decision.action).toBe('skip');
+  });
+
+  it('should skip when a dependency failed unless a condition expects it', () => {
+    const [notify] = parseWorkflowDefinition({
+      name: 'on-failure',
+      steps: [
+        { id: 'deck', task: 'validateTarotDeck' },
+        { id: 'notify', task: 'validateFile', when: { step: 'deck', status: 'failed' } },
+      ],
+    }).steps.filter(step => step.id === 'notify');
+
+    expect(decideStep(notify, { deck: { status: 'failed' } })).toEqual({ action: 'run' });
+    expect(decideStep(notify, { deck: { status: 'completed' } }).action).toBe('skip');
+    expect(decideStep(workflow.steps[1], { duplicates: { status: 'failed' } }).action).toBe(
+      'skip',
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import Joi from 'joi';
+import { TaskValidationError } from '../core/errors';
+import { WorkflowStepState } from '../db';
+import { getObjectValue } from '../utils/helpers';
+import { validateSchema } from '../utils/validation';
+import { StepDecision, WorkflowCondition, WorkflowDefinition, WorkflowStep } from './types';
+
+const conditionSchema = Joi.object({
+  step: Joi.string().required(),
+  status: Joi.string().valid('completed', 'failed'),
+  valid: Joi.boolean(),
+  hasErrors: Joi.boolean(),
+});
+
+/**
+ * Schema for workflow definitions
+ */
+export const workflowDefinitionSchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  description: Joi.string(),
+  brand: Joi.string().min(1).max(100),
+  steps: Joi.array()
+    .items(
+      Joi.object({
+        id: Joi.string()
+          .required()
+          .pattern(/^[a-zA-Z0-9_-]+$/),
+        task: Joi.string().required().min(1).max(100),
+        parameters: Joi.object().default({}),
+        dependsOn: Joi.array().items(Joi.string()).default([]),
+        when: Joi.alternatives()
+          .try(conditionSchema, Joi.array().items(conditionSchema))
+          .default([]),
+        brand: Joi.string().min(1).max(100),
+        priority: Joi.string().valid('highest', 'high', 'medium', 'low', 'lowest'),
+        continueOnError: Joi.boolean().default(false),
+      }),
+    )
+    .min(1)
+    .required(),
+}).required();
+
+const TEMPLATE_PATTERN = /\{\{\s*([^}]+?)\s*\}\}/g;
+const SINGLE_TEMPLATE_PATTERN = /^\{\{\s*([^}]+?)\s*\}\}$/;
+
+/**
+ * Validate a workflow definition and normalize it.
+ * Steps referenced by conditions become implicit dependencies.
+ */
+export function parseWorkflowDefinition(definition: any): WorkflowDefinition {
+  const parsed: WorkflowDefinition = validateSchema(definition, workflowDefinitionSchema);
+  const stepIds = new Set<string>();
+  const problems: string[] = [];
+
+  for (const step of parsed.steps) {
+    if (stepIds.has(step.id)) {
+      problems.push(`Duplicate step id: ${step.id}`);
+    }
+    stepIds.add(step.id);
+
+    step.when = ([] as WorkflowCondition[]).concat(step.when || []);
+    step.dependsOn = Array.from(
+      new Set([...(step.dependsOn || []), ...step.when.map(condition => condition.step)]),
+    );
+  }
+
+  for (const step of parsed.steps) {
+    for (const dependency of step.dependsOn || []) {
+      if (!stepIds.has(dependency)) {
+        problems.push(`Step ${step.id} depends on unknown step: ${dependency}`);
+      } else if (dependency === step.id) {
+        problems.push(`Step ${step.id} depends on itself`);
+      }
+    }
+  }
+
+  if (problems.length === 0) {
+    const cycle = findCycle(parsed.steps);
+    if (cycle) {
+      problems.push(`Workflow contains a dependency cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new TaskValidationError(
+      'Invalid workflow definition',
+      problems.map(message => ({ message })),
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Find a dependency cycle, returning the step ids that form it
+ */
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const dependencies = new Map(steps.map(step => [step.id, step.dependsOn || []]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const trail: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...trail.slice(trail.indexOf(id)), id];
+    }
+
+    if (visited.has(id)) {
+      return null;
+    }
+
+    visiting.add(id);
+    trail.push(id);
+
+    for (const dependency of dependencies.get(id) || []) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    trail.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve `{{...}}` references in step parameters against the workflow input
+ * and the outputs of earlier steps
+ */
+export function resolveParameters(
+  parameters: any,
+  input: Record<string, any>,
+  steps: Record<string, WorkflowStepState>,
+): any {
+  const scope = { input, steps };
+
+  if (typeof parameters === 'string') {
+    const single = parameters.match(SINGLE_TEMPLATE_PATTERN);
+    if (single) {
+      return getObjectValue(scope, single[1], undefined);
+    }
+
+    return parameters.replace(TEMPLATE_PATTERN, (_, expression: string) => {
+      const value = getObjectValue(scope, expression, '');
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+
+  if (Array.isArray(parameters)) {
+    return parameters.map(item => resolveParameters(item, input, steps));
+  }
+
+  if (parameters !== null && typeof parameters === 'object') {
+    const resolved: Record<string, any> = {};
+    for (const [key, value] of Object.entries(parameters)) {
+      resolved[key] = resolveParameters(value, input, steps);
+    }
+    return resolved;
+  }
+
+  return parameters;
+}
+
+/**
+ * Check a single condition against the state of the step it references
+ */
+function conditionHolds(condition: WorkflowCondition, state: WorkflowStepState): boolean {
+  if (state.status !== (condition.status || 'completed')) {
+    return false;
+  }
+
+  if (condition.valid !== undefined && Boolean(state.output?.valid) !== condition.valid) {
+    return false;
+  }
+
+  if (condition.hasErrors !== undefined) {
+    const errors = state.output?.errors;
+    const hasErrors = Array.isArray(errors) && errors.length > 0;
+    if (hasErrors !== condition.hasErrors) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Decide whether a pending step should wait, run or be skipped
+ */
+export function decideStep(
+  step: WorkflowStep,
+  steps: Record<string, WorkflowStepState>,
+): StepDecision {
+  const dependencies = step.dependsOn || [];
+  const conditions = step.when || [];
+
+  const waiting = dependencies.some(id => {
+    const status = steps[id]?.status;
+    return status === 'pending' || status === 'running';
+  });
+
+  if (waiting) {
+    return { action: 'wait' };
+  }
+
+  for (const condition of conditions) {
+    if (!conditionHolds(condition, steps[condition.step])) {
+      return { action: 'skip', reason: `Condition on step ${condition.step} not met` };
+    }
+  }
+
+  // Dependencies must have completed unless a condition explicitly expects them to fail
+  const expectedFailures = new Set(
+    conditions.filter(condition => condition.status === 'failed').map(condition => condition.step),
+  );
+
+  for (const id of dependencies) {
+    if (steps[id].status !== 'completed' && !expectedFailures.has(id)) {
+      return { action: 'skip', reason: `Dependency ${id} was ${steps[id].status}` };
+    }
+  }
+
+  return { action: 'run' };
+}
+
+export default {
+  workflowDefinitionSchema,
+  parseWorkflowDefinition,
+  resolveParameters,
+  decideStep,
+};
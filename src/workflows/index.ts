@@ -0,0 +1,26 @@
+import { WorkflowRunner, workflowRunner } from './runner';
+import {
+  workflowDefinitionSchema,
+  parseWorkflowDefinition,
+  resolveParameters,
+  decideStep,
+} from './definition';
+
+export * from './types';
+
+/**
+ * Continue workflow runs whose process stopped, and keep taking over such runs
+ */
+export async function initializeWorkflows(): Promise<void> {
+  const resumed = await workflowRunner.start();
+  console.log(`Workflow runner ready (${resumed} running workflows resumed)`);
+}
+
+export {
+  WorkflowRunner,
+  workflowRunner,
+  workflowDefinitionSchema,
+  parseWorkflowDefinition,
+  resolveParameters,
+  decideStep,
+};
@@ -0,0 +1,169 @@
+import { metricsManager } from '../core/metrics';
+import { ExecutionRecord, MemoryStorage, setStorage, WorkflowRunRecord } from '../db';
+import { taskExecutor } from '../orchestrator/executor';
+import { parseWorkflowDefinition } from './definition';
+import { WorkflowRunner, workflowRunner } from './runner';
+
+let storage: MemoryStorage;
+
+const execution = (id: string, status: string, result?: any): ExecutionRecord => ({
+  id,
+  taskId: 'task-1',
+  agentId: 'agent-1',
+  brand: null,
+  parameters: {},
+  status,
+  priority: 'medium',
+  result,
+  createdAt: new Date().toISOString(),
+  completedAt: status === 'completed' ? new Date().toISOString() : null,
+});
+
+async function waitForRun(
+  runId: string,
+  done: (run: WorkflowRunRecord) => boolean,
+): Promise<WorkflowRunRecord> {
+  for (let i = 0; i < 100; i++) {
+    const run = await workflowRunner.getWorkflowRun(runId);
+    if (done(run)) {
+      return run;
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  throw new Error(`Workflow run ${runId} did not reach the expected state`);
+}
+
+/**
+ * Store a running two-step run whose first step is still pending
+ */
+async function createPendingRun(lease: { ownerId?: string; leaseExpiresAt?: string } = {}) {
+  await storage.workflowRuns.create({
+    id: 'run-1',
+    name: 'deck-import',
+    brand: null,
+    definition: parseWorkflowDefinition({
+      name: 'deck-import',
+      steps: [{ id: 'a', task: 'validateDirectory' }],
+    }),
+    input: {},
+    status: 'running',
+    steps: { a: { status: 'pending' } },
+    ...lease,
+    createdAt: new Date().toISOString(),
+  });
+}
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  setStorage(storage);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  metricsManager.destroy();
+});
+
+describe('WorkflowRunner.resumeRuns', () => {
+  it('continues runs whose steps finished while no process was watching', async () => {
+    const submitTask = jest.spyOn(taskExecutor, 'submitTask').mockResolvedValue('execution-b');
+    const workflow = parseWorkflowDefinition({
+      name: 'deck-import',
+      steps: [
+        { id: 'a', task: 'validateDirectory' },
+        { id: 'b', task: 'validateTarotDeck', dependsOn: ['a'] },
+      ],
+    });
+
+    await storage.executions.create(execution('execution-a', 'completed', { valid: true }));
+    await storage.executions.create(execution('execution-b', 'pending'));
+    await storage.workflowRuns.create({
+      id: 'run-1',
+      name: workflow.name,
+      brand: null,
+      definition: workflow,
+      input: {},
+      status: 'running',
+      steps: {
+        a: { status: 'running', executionId: 'execution-a', startedAt: new Date().toISOString() },
+        b: { status: 'pending' },
+      },
+      createdAt: new Date().toISOString(),
+    });
+
+    expect(await workflowRunner.resumeRuns()).toBe(1);
+
+    await waitForRun('run-1', run => run.steps.b.status === 'running');
+    expect(submitTask).toHaveBeenCalledWith(
+      expect.objectContaining({ taskType: 'validateTarotDeck' }),
+    );
+
+    await storage.executions.update('execution-b', execution('execution-b', 'completed'));
+    const run = await waitForRun('run-1', current => current.status !== 'running');
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.a).toMatchObject({ status: 'completed', output: { valid: true } });
+  });
+});
+
+describe('WorkflowRunner ownership', () => {
+  it('lets only one process take over a run', async () => {
+    const submitTask = jest.spyOn(taskExecutor, 'submitTask').mockResolvedValue('execution-a');
+    jest.spyOn(taskExecutor, 'waitForCompletion').mockReturnValue(new Promise(() => undefined));
+    await createPendingRun();
+
+    const resumed = await Promise.all([
+      new WorkflowRunner().resumeRuns(),
+      new WorkflowRunner().resumeRuns(),
+    ]);
+
+    expect(resumed.sort()).toEqual([0, 1]);
+    await waitForRun('run-1', run => run.steps.a.status === 'running');
+    expect(submitTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves runs alone while their owner holds the lease', async () => {
+    const submitTask = jest.spyOn(taskExecutor, 'submitTask').mockResolvedValue('execution-a');
+    jest.spyOn(taskExecutor, 'waitForCompletion').mockReturnValue(new Promise(() => undefined));
+    await createPendingRun({
+      ownerId: 'other-process',
+      leaseExpiresAt: new Date(Date.now() + 60000).toISOString(),
+    });
+
+    expect(await workflowRunner.resumeRuns()).toBe(0);
+    expect(submitTask).not.toHaveBeenCalled();
+
+    await storage.workflowRuns.update('run-1', { leaseExpiresAt: new Date().toISOString() });
+
+    expect(await workflowRunner.resumeRuns()).toBe(1);
+    await waitForRun('run-1', run => run.steps.a.status === 'running');
+    expect(submitTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops advancing a run another process took over', async () => {
+    let finish: () => void = () => undefined;
+    const submitTask = jest.spyOn(taskExecutor, 'submitTask').mockResolvedValue('execution-a');
+    jest
+      .spyOn(taskExecutor, 'waitForCompletion')
+      .mockReturnValue(
+        new Promise(resolve => (finish = () => resolve(execution('execution-a', 'completed')))),
+      );
+    await createPendingRun();
+
+    const runner = new WorkflowRunner();
+    expect(await runner.resumeRuns()).toBe(1);
+    await waitForRun('run-1', run => run.steps.a.status === 'running');
+
+    await storage.workflowRuns.update('run-1', { ownerId: 'other-process' });
+    finish();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const run = await workflowRunner.getWorkflowRun('run-1');
+    expect(run.status).toBe('running');
+    expect(run.steps.a.status).toBe('running');
+    expect(submitTask).toHaveBeenCalledTimes(1);
+  });
+});
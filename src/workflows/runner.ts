@@ -0,0 +1,350 @@
+import { v4 as uuidv4 } from 'uuid';
+import { TaskValidationError, WorkflowNotFoundError } from '../core/errors';
+import { AgentLogger } from '../core/logger';
+import { getStorage, WorkflowRunRecord, WorkflowStepState } from '../db';
+import { taskExecutor } from '../orchestrator/executor';
+import { decideStep, parseWorkflowDefinition, resolveParameters } from './definition';
+import { WorkflowDefinition, WorkflowStep } from './types';
+
+const logger = new AgentLogger('WorkflowRunner');
+
+// How long a process holds a running workflow without renewing its claim
+const RUN_LEASE_MS = 30000;
+
+// How often leases are renewed and runs of stopped processes are taken over
+const RUN_SWEEP_INTERVAL_MS = 10000;
+
+/**
+ * Runs workflow definitions by submitting each step through the task executor
+ * once its dependencies and conditions are satisfied. Each running workflow is owned
+ * by one process at a time through a lease in storage; only the owner advances it.
+ */
+export class WorkflowRunner {
+  private runLocks: Map<string, Promise<void>> = new Map();
+  private ownerId = uuidv4();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Validate a workflow definition and start running it
+   */
+  public async startWorkflow(
+    definition: any,
+    options: { brand?: string; input?: Record<string, any>; priority?: string } = {},
+  ): Promise<string> {
+    const workflow = parseWorkflowDefinition(definition);
+    await this.assertTasksExist(workflow);
+
+    const runId = uuidv4();
+    const steps: Record<string, WorkflowStepState> = {};
+    for (const step of workflow.steps) {
+      steps[step.id] = { status: 'pending' };
+    }
+
+    await getStorage().workflowRuns.create({
+      id: runId,
+      name: workflow.name,
+      brand: options.brand || workflow.brand || null,
+      definition: { ...workflow, priority: options.priority },
+      input: options.input || {},
+      status: 'running',
+      steps,
+      ownerId: this.ownerId,
+      leaseExpiresAt: this.leaseExpiry(null),
+      createdAt: new Date().toISOString(),
+    });
+
+    logger.info(`Started workflow ${workflow.name}`, { runId, steps: workflow.steps.length });
+
+    this.advance(runId);
+    return runId;
+  }
+
+  /**
+   * Get a workflow run with per-step state
+   */
+  public async getWorkflowRun(runId: string): Promise<WorkflowRunRecord> {
+    const run = await getStorage().workflowRuns.findById(runId);
+
+    if (!run) {
+      throw new WorkflowNotFoundError(runId);
+    }
+
+    return run;
+  }
+
+  /**
+   * Resume runs now and keep renewing leases and taking over runs of stopped processes.
+   * Returns the number of runs resumed now.
+   */
+  public async start(): Promise<number> {
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.resumeRuns().catch(error => {
+          logger.error(`Error resuming workflows: ${(error as Error).message}`);
+        });
+      }, RUN_SWEEP_INTERVAL_MS);
+      this.timer.unref();
+    }
+
+    return this.resumeRuns();
+  }
+
+  /**
+   * Stop renewing leases; other processes take the runs over once they expire
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Renew the lease on runs this process owns and claim running runs whose lease ran
+   * out, e.g. because their process stopped: watch their running steps again and submit
+   * the steps that became ready. Returns the number of runs claimed.
+   */
+  public async resumeRuns(): Promise<number> {
+    const runs = await getStorage().workflowRuns.list({ status: 'running' });
+    let resumed = 0;
+
+    for (const run of runs) {
+      const owned = run.ownerId === this.ownerId;
+      const expired = !run.leaseExpiresAt || new Date(run.leaseExpiresAt).getTime() <= Date.now();
+
+      // The first process to claim the run moves the lease on, so the others' claims fail
+      const claimed =
+        (owned || expired) &&
+        (await getStorage().workflowRuns.claim(run.id, run.leaseExpiresAt ?? null, {
+          ownerId: this.ownerId,
+          leaseExpiresAt: this.leaseExpiry(run.leaseExpiresAt),
+        }));
+
+      if (!claimed || owned) {
+        continue;
+      }
+
+      resumed++;
+
+      for (const [stepId, state] of Object.entries(run.steps)) {
+        if (state.status === 'running' && state.executionId) {
+          this.watchStep(run.id, stepId, state.executionId);
+        }
+      }
+
+      this.advance(run.id);
+    }
+
+    if (resumed > 0) {
+      logger.info(`Resumed ${resumed} running workflows`);
+    }
+
+    return resumed;
+  }
+
+  /**
+   * Reject definitions that reference unknown task types before anything is queued
+   */
+  private async assertTasksExist(workflow: WorkflowDefinition): Promise<void> {
+    const unknown: string[] = [];
+
+    for (const taskType of new Set(workflow.steps.map(step => step.task))) {
+      if (!(await getStorage().tasks.findByType(taskType))) {
+        unknown.push(taskType);
+      }
+    }
+
+    if (unknown.length > 0) {
+      throw new TaskValidationError(
+        'Invalid workflow definition',
+        unknown.map(taskType => ({ message: `Unknown task type: ${taskType}` })),
+      );
+    }
+  }
+
+  /**
+   * End of a new lease, always later than the current one so that it changes on renewal
+   */
+  private leaseExpiry(current: string | null | undefined): string {
+    const previous = current ? new Date(current).getTime() + 1 : 0;
+    return new Date(Math.max(Date.now() + RUN_LEASE_MS, previous)).toISOString();
+  }
+
+  /**
+   * Whether this process still owns the run; another process may have taken it over
+   */
+  private owns(run: WorkflowRunRecord): boolean {
+    return run.status === 'running' && run.ownerId === this.ownerId;
+  }
+
+  /**
+   * Serialize updates to a run so concurrent step completions do not overwrite each other
+   */
+  private withRunLock(runId: string, fn: () => Promise<void>): Promise<void> {
+    const previous = this.runLocks.get(runId) || Promise.resolve();
+    const next = previous.then(fn, fn);
+
+    const cleanup = () => {
+      if (this.runLocks.get(runId) === next) {
+        this.runLocks.delete(runId);
+      }
+    };
+
+    this.runLocks.set(runId, next);
+    next.then(cleanup, cleanup);
+
+    return next;
+  }
+
+  /**
+   * Skip or submit every step that is no longer waiting, then settle the run
+   */
+  private advance(runId: string): void {
+    this.withRunLock(runId, async () => {
+      const run = await this.getWorkflowRun(runId);
+      if (!this.owns(run)) {
+        return;
+      }
+
+      const workflow = run.definition as WorkflowDefinition & { priority?: string };
+      let changed = true;
+
+      // Skips can unblock further steps, so repeat until nothing changes
+      while (changed) {
+        changed = false;
+
+        for (const step of workflow.steps) {
+          if (run.steps[step.id].status !== 'pending') {
+            continue;
+          }
+
+          const decision = decideStep(step, run.steps);
+
+          if (decision.action === 'skip') {
+            run.steps[step.id] = {
+              status: 'skipped',
+              reason: decision.reason,
+              completedAt: new Date().toISOString(),
+            };
+            changed = true;
+          } else if (decision.action === 'run') {
+            run.steps[step.id] = await this.submitStep(run, step, workflow.priority);
+            changed = true;
+          }
+        }
+      }
+
+      const finished = Object.values(run.steps).every(
+        state => state.status !== 'pending' && state.status !== 'running',
+      );
+
+      if (finished) {
+        const failed = workflow.steps.some(
+          step => run.steps[step.id].status === 'failed' && !step.continueOnError,
+        );
+        run.status = failed ? 'failed' : 'completed';
+        run.completedAt = new Date().toISOString();
+
+        logger.info(`Workflow ${run.name} ${run.status}`, { runId });
+      }
+
+      await getStorage().workflowRuns.update(runId, {
+        steps: run.steps,
+        status: run.status,
+        completedAt: run.completedAt,
+      });
+    }).catch(error => {
+      logger.error(`Error advancing workflow: ${(error as Error).message}`, { runId });
+    });
+  }
+
+  /**
+   * Submit a step to the task executor and watch it until it finishes
+   */
+  private async submitStep(
+    run: WorkflowRunRecord,
+    step: WorkflowStep,
+    priority?: string,
+  ): Promise<WorkflowStepState> {
+    const startedAt = new Date().toISOString();
+
+    try {
+      const executionId = await taskExecutor.submitTask({
+        taskType: step.task,
+        brand: step.brand || run.brand || undefined,
+        parameters: resolveParameters(step.parameters || {}, run.input, run.steps),
+        priority: step.priority || priority || 'medium',
+      });
+
+      this.watchStep(run.id, step.id, executionId);
+
+      return { status: 'running', executionId, startedAt };
+    } catch (error) {
+      return {
+        status: 'failed',
+        error: (error as Error).message,
+        startedAt,
+        completedAt: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Record the outcome of a step's execution and continue the run
+   */
+  private async watchStep(runId: string, stepId: string, executionId: string): Promise<void> {
+    let state: WorkflowStepState;
+
+    try {
+      const execution = await taskExecutor.waitForCompletion(executionId);
+
+      state = {
+        status: execution?.status === 'completed' ? 'completed' : 'failed',
+        executionId,
+        output: execution?.result,
+        error: execution?.status === 'completed' ? undefined : execution?.error || undefined,
+        completedAt: execution?.completedAt || new Date().toISOString(),
+      };
+    } catch (error) {
+      state = {
+        status: 'failed',
+        executionId,
+        error: (error as Error).message,
+        completedAt: new Date().toISOString(),
+      };
+    }
+
+    let owned = true;
+
+    await this.withRunLock(runId, async () => {
+      const run = await this.getWorkflowRun(runId);
+      owned = this.owns(run);
+      if (!owned) {
+        return;
+      }
+
+      const steps = {
+        ...run.steps,
+        [stepId]: { ...state, startedAt: run.steps[stepId].startedAt },
+      };
+      await getStorage().workflowRuns.update(runId, { steps });
+    }).catch(error => {
+      logger.error(`Error recording workflow step: ${(error as Error).message}`, {
+        runId,
+        stepId,
+      });
+    });
+
+    if (owned) {
+      this.advance(runId);
+    }
+  }
+}
+
+// Export singleton instance
+export const workflowRunner = new WorkflowRunner();
+
+export default {
+  WorkflowRunner,
+  workflowRunner,
+};
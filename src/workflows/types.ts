@@ -0,0 +1,54 @@
+/**
+ * Workflow definition format
+ */
+
+/**
+ * Condition on the outcome of an earlier step
+ */
+export interface WorkflowCondition {
+  step: string;
+
+  /**
+   * Required status of the referenced step (defaults to 'completed')
+   */
+  status?: 'completed' | 'failed';
+
+  /**
+   * Required value of the step output's `valid` flag
+   */
+  valid?: boolean;
+
+  /**
+   * Whether the step output's `errors` array must be non-empty
+   */
+  hasErrors?: boolean;
+}
+
+export interface WorkflowStep {
+  id: string;
+  task: string;
+
+  /**
+   * Task parameters. String values may reference `{{input.*}}` or
+   * `{{steps.<id>.output.*}}`; a value that is a single reference keeps its type.
+   */
+  parameters?: Record<string, any>;
+  dependsOn?: string[];
+  when?: WorkflowCondition[];
+  brand?: string;
+  priority?: string;
+
+  /**
+   * Do not fail the workflow when this step fails
+   */
+  continueOnError?: boolean;
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  brand?: string;
+  steps: WorkflowStep[];
+}
+
+export type StepDecision = { action: 'wait' } | { action: 'run' } | { action: 'skip'; reason: string };